@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { AttachmentFetcher, findFileUrls, isAllowedType, parseList } from './attachments';
+
+describe('findFileUrls', () => {
+  test('only picks links on allowed hosts', () => {
+    const text = 'see https://nas.local/d/f/log.txt and https://example.com/x.png';
+
+    expect(findFileUrls(text, ['nas.local'])).toEqual(['https://nas.local/d/f/log.txt']);
+    expect(findFileUrls(text, [])).toEqual([]);
+  });
+});
+
+describe('isAllowedType', () => {
+  test('matches exact types and families', () => {
+    const allowed = parseList('text/*, application/pdf');
+
+    expect(isAllowedType('text/plain', allowed)).toBe(true);
+    expect(isAllowedType('application/pdf', allowed)).toBe(true);
+    expect(isAllowedType('application/zip', allowed)).toBe(false);
+  });
+});
+
+describe('AttachmentFetcher', () => {
+  let server: Server<undefined>;
+  let base: string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const path = new URL(req.url).pathname;
+        if (path === '/app.log') return new Response('ERROR boom', { headers: { 'Content-Type': 'application/octet-stream' } });
+        if (path === '/download') {
+          return new Response('{}', {
+            headers: { 'Content-Type': 'application/json', 'Content-Disposition': 'attachment; filename="data.json"' },
+          });
+        }
+        if (path === '/big.txt') return new Response('x'.repeat(2048), { headers: { 'Content-Type': 'text/plain' } });
+        if (path === '/stream.txt') {
+          // No Content-Length: the limit has to be enforced while reading
+          const stream = new ReadableStream({
+            start(controller) {
+              for (let i = 0; i < 4; i++) controller.enqueue(new TextEncoder().encode('y'.repeat(512)));
+              controller.close();
+            },
+          });
+          return new Response(stream, { headers: { 'Content-Type': 'text/plain' } });
+        }
+        if (path === '/moved.txt') return Response.redirect('http://169.254.169.254/latest/meta-data', 302);
+        if (path === '/archive.zip') return new Response('PK', { headers: { 'Content-Type': 'application/zip' } });
+        return new Response('Not found', { status: 404 });
+      },
+    });
+    base = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const fetcher = new AttachmentFetcher({ maxBytes: 1024, maxFiles: 2, allowedTypes: ['text/*', 'application/json'] });
+
+  test('downloads allowed files as base64', async () => {
+    const { attachments, skipped } = await fetcher.download([`${base}/app.log`, `${base}/download`]);
+
+    expect(skipped).toEqual([]);
+    expect(attachments).toEqual([
+      { name: 'app.log', content_type: 'text/plain', data: Buffer.from('ERROR boom').toString('base64') },
+      { name: 'data.json', content_type: 'application/json', data: Buffer.from('{}').toString('base64') },
+    ]);
+  });
+
+  test('skips files over the size limit', async () => {
+    const { attachments, skipped } = await fetcher.download([`${base}/big.txt`, `${base}/stream.txt`]);
+
+    expect(attachments).toEqual([]);
+    expect(skipped).toEqual(['big.txt: larger than 1 KB', 'stream.txt: larger than 1 KB']);
+  });
+
+  test('does not follow redirects', async () => {
+    const { attachments, skipped } = await fetcher.download([`${base}/moved.txt`]);
+
+    expect(attachments).toEqual([]);
+    expect(skipped).toEqual(['moved.txt: download redirected elsewhere, not followed']);
+  });
+
+  test('skips disallowed types, failed downloads and extra files', async () => {
+    const { attachments, skipped } = await fetcher.download([
+      `${base}/archive.zip`,
+      `${base}/missing.txt`,
+      `${base}/app.log`,
+    ]);
+
+    expect(attachments).toEqual([]);
+    expect(skipped).toEqual([
+      'archive.zip: file type application/zip is not allowed',
+      'missing.txt: download failed (404)',
+      'app.log: only 2 files per message',
+    ]);
+  });
+});
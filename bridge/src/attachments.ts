@@ -0,0 +1,201 @@
+/**
+ * Attachments - Downloads files posted in chat for the Executor
+ *
+ * Files come from the payload's `file_url` (Synology attachments) or from
+ * links in the message text whose host is listed in ATTACHMENT_HOSTS.
+ * Each download is checked against a size limit and a content type
+ * allow-list before it is forwarded base64-encoded. Redirects are not
+ * followed, so an allowed host cannot send the bridge to another one
+ * (e.g. an internal address).
+ */
+
+import type { ExecutorAttachment } from './types';
+
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+export interface AttachmentLimits {
+  maxBytes: number; // Per file
+  maxFiles: number;
+  allowedTypes: string[]; // e.g. "text/*", "application/pdf"
+}
+
+export interface DownloadResult {
+  attachments: ExecutorAttachment[];
+  skipped: string[]; // "<name>: <reason>" for each file not forwarded
+}
+
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxBytes: 10 * 1024 * 1024, // 10 MB
+  maxFiles: 5,
+  allowedTypes: ['text/*', 'image/*', 'application/pdf', 'application/json'],
+};
+
+// Used when the server does not say what it sent
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+/**
+ * Parse a comma-separated list from an environment variable
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Links in the message text that point at an allowed host
+ */
+export function findFileUrls(text: string, allowedHosts: string[]): string[] {
+  if (allowedHosts.length === 0) return [];
+
+  const urls = text.match(/https?:\/\/[^\s<>"]+/g) || [];
+  return urls.filter((url) => {
+    try {
+      return allowedHosts.includes(new URL(url).hostname.toLowerCase());
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Check a content type against an allow-list ("type/*" matches a family)
+ */
+export function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith('/*') ? contentType.startsWith(allowed.slice(0, -1)) : contentType === allowed
+  );
+}
+
+/**
+ * File name from Content-Disposition, falling back to the URL path
+ */
+function fileNameFor(url: string, disposition: string | null): string {
+  const quoted = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (quoted) {
+    try {
+      return decodeURIComponent(quoted[1]);
+    } catch {
+      return quoted[1];
+    }
+  }
+
+  try {
+    const last = new URL(url).pathname.split('/').pop();
+    if (last) return decodeURIComponent(last);
+  } catch {
+    // Fall through
+  }
+  return 'attachment';
+}
+
+export class AttachmentFetcher {
+  constructor(private limits: AttachmentLimits = DEFAULT_ATTACHMENT_LIMITS) {}
+
+  /**
+   * Download files, skipping any that break the limits
+   * Never throws; failures are reported in `skipped`.
+   */
+  async download(urls: string[]): Promise<DownloadResult> {
+    const result: DownloadResult = { attachments: [], skipped: [] };
+    const unique = [...new Set(urls)];
+
+    for (const [index, url] of unique.entries()) {
+      if (index >= this.limits.maxFiles) {
+        result.skipped.push(`${fileNameFor(url, null)}: only ${this.limits.maxFiles} files per message`);
+        continue;
+      }
+
+      try {
+        result.attachments.push(await this.fetchOne(url));
+      } catch (error) {
+        result.skipped.push(`${fileNameFor(url, null)}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * @throws If the file cannot be downloaded or is not allowed
+   */
+  private async fetchOne(url: string): Promise<ExecutorAttachment> {
+    const response = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+      throw new Error('download redirected elsewhere, not followed');
+    }
+    if (!response.ok) {
+      throw new Error(`download failed (${response.status})`);
+    }
+
+    const name = fileNameFor(url, response.headers.get('content-disposition'));
+    const contentType = this.contentTypeOf(name, response.headers.get('content-type'));
+    if (!isAllowedType(contentType, this.limits.allowedTypes)) {
+      await response.body?.cancel();
+      throw new Error(`file type ${contentType} is not allowed`);
+    }
+
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > this.limits.maxBytes) {
+      await response.body?.cancel();
+      throw new Error(this.tooLarge());
+    }
+
+    const data = await this.readLimited(response);
+    return { name, content_type: contentType, data: data.toString('base64') };
+  }
+
+  private contentTypeOf(name: string, header: string | null): string {
+    const type = (header || '').split(';')[0].trim().toLowerCase();
+    if (type && type !== 'application/octet-stream') return type;
+
+    const ext = name.split('.').pop()?.toLowerCase() || '';
+    return TYPES_BY_EXTENSION[ext] || 'application/octet-stream';
+  }
+
+  /**
+   * Read the body, stopping as soon as it exceeds the size limit
+   * (Content-Length may be missing or wrong)
+   */
+  private async readLimited(response: Response): Promise<Buffer> {
+    if (!response.body) return Buffer.alloc(0);
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const reader = response.body.getReader();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      size += value.byteLength;
+      if (size > this.limits.maxBytes) {
+        await reader.cancel();
+        throw new Error(this.tooLarge());
+      }
+      chunks.push(value);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private tooLarge(): string {
+    const { maxBytes } = this.limits;
+    const size = maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / 1024 / 1024)} MB` : `${Math.round(maxBytes / 1024)} KB`;
+    return `larger than ${size}`;
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test';
+import { createHmac } from 'crypto';
+import { verifyCallbackSignature } from './callback-auth';
+
+const SECRET = 'shared-secret';
+
+function sign(body: string, timestamp: string, secret: string = SECRET): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+describe('verifyCallbackSignature', () => {
+  const body = JSON.stringify({ success: true, session_id: '1_2', job_id: 'abc' });
+  const now = 1_700_000_000_000;
+  const timestamp = String(now);
+
+  test('accepts a valid signature', () => {
+    expect(verifyCallbackSignature(body, timestamp, sign(body, timestamp), SECRET, now)).toBe(true);
+  });
+
+  test('rejects a signature made with another secret', () => {
+    expect(verifyCallbackSignature(body, timestamp, sign(body, timestamp, 'other'), SECRET, now)).toBe(false);
+  });
+
+  test('rejects a tampered body', () => {
+    const signature = sign(body, timestamp);
+    expect(verifyCallbackSignature(body + ' ', timestamp, signature, SECRET, now)).toBe(false);
+  });
+
+  test('rejects stale timestamps', () => {
+    const old = String(now - 10 * 60 * 1000);
+    expect(verifyCallbackSignature(body, old, sign(body, old), SECRET, now)).toBe(false);
+  });
+
+  test('rejects missing headers', () => {
+    expect(verifyCallbackSignature(body, undefined, sign(body, timestamp), SECRET, now)).toBe(false);
+    expect(verifyCallbackSignature(body, timestamp, undefined, SECRET, now)).toBe(false);
+  });
+
+  test('rejects malformed signatures', () => {
+    expect(verifyCallbackSignature(body, timestamp, 'sha256=nothex', SECRET, now)).toBe(false);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Callback Auth - Verifies signed result callbacks from the Executor
+ *
+ * The Executor signs `${timestamp}.${body}` with HMAC-SHA256 using the
+ * shared auth token and sends it as `X-Executor-Signature: sha256=<hex>`.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Executor-Signature';
+export const TIMESTAMP_HEADER = 'X-Executor-Timestamp';
+
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // Reject callbacks older than 5 minutes
+
+/**
+ * Verify a callback signature
+ * @param body Raw request body as received
+ * @param timestamp Value of the timestamp header (Unix ms)
+ * @param signature Value of the signature header
+ * @param secret Shared auth token
+ * @returns true if the signature matches and the timestamp is fresh
+ */
+export function verifyCallbackSignature(
+  body: string,
+  timestamp: string | undefined,
+  signature: string | undefined,
+  secret: string,
+  now: number = Date.now()
+): boolean {
+  if (!timestamp || !signature) return false;
+
+  const sentAt = parseInt(timestamp, 10);
+  if (isNaN(sentAt) || Math.abs(now - sentAt) > MAX_CLOCK_SKEW_MS) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  const provided = signature.replace(/^sha256=/, '');
+
+  const expectedBuf = Buffer.from(expected, 'hex');
+  const providedBuf = Buffer.from(provided, 'hex');
+  if (expectedBuf.length !== providedBuf.length) return false;
+
+  return timingSafeEqual(expectedBuf, providedBuf);
+}
@@ -0,0 +1,41 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChannelModes } from './channel-modes';
+
+describe('ChannelModes', () => {
+  let dir: string;
+  let modes: ChannelModes;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'channel-modes-'));
+    modes = new ChannelModes(join(dir, 'bridge.sqlite'));
+  });
+
+  afterEach(() => {
+    modes.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('has no mode until one is set', () => {
+    expect(modes.get('7')).toBeNull();
+  });
+
+  test('stores the latest mode per channel', () => {
+    modes.set('7', 'shared', 'alice');
+    modes.set('12', 'shared', 'bob');
+    modes.set('7', 'personal', 'carol');
+
+    expect(modes.get('7')).toBe('personal');
+    expect(modes.get('12')).toBe('shared');
+  });
+
+  test('survives reopening the database', () => {
+    modes.set('7', 'shared', 'alice');
+    modes.close();
+
+    modes = new ChannelModes(join(dir, 'bridge.sqlite'));
+    expect(modes.get('7')).toBe('shared');
+  });
+});
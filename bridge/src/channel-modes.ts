@@ -0,0 +1,65 @@
+/**
+ * Channel Modes - Whether a channel shares one Claude session
+ *
+ * In `personal` mode (the default) every user has their own session in a
+ * channel; in `shared` mode the whole channel talks to one session, with
+ * each message prefixed by the speaker's name. Set with
+ * `@claude mode shared|personal`; channels.json may give a channel a
+ * different default.
+ *
+ * Stored in SQLite next to the sessions so the choice survives restarts.
+ */
+
+import { Database } from 'bun:sqlite';
+import { join } from 'path';
+import { DATA_DIR } from './session-manager';
+import type { SessionMode } from './types';
+
+export class ChannelModes {
+  private db: Database;
+
+  constructor(dbPath?: string) {
+    const path = dbPath || join(DATA_DIR, 'sessions.sqlite');
+    this.db = new Database(path);
+    this.init();
+  }
+
+  private init(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS channel_modes (
+        channel_id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  /**
+   * Mode chosen for a channel with the mode command
+   * @returns null if the channel never changed its mode
+   */
+  get(channelId: string): SessionMode | null {
+    const row = this.db.prepare('SELECT mode FROM channel_modes WHERE channel_id = ?').get(channelId) as
+      | { mode: SessionMode }
+      | null;
+    return row?.mode ?? null;
+  }
+
+  set(channelId: string, mode: SessionMode, updatedBy: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO channel_modes (channel_id, mode, updated_by, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(channel_id) DO UPDATE SET
+           mode = excluded.mode,
+           updated_by = excluded.updated_by,
+           updated_at = excluded.updated_at`
+      )
+      .run(channelId, mode, updatedBy, Date.now());
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
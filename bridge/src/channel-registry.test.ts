@@ -0,0 +1,93 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ChannelRegistry } from './channel-registry';
+
+const OPS_URL = 'https://nas.local/webapi/entry.cgi?token=ops';
+const DEV_URL = 'https://nas.local/webapi/entry.cgi?token=dev';
+const DEFAULT_URL = 'https://nas.local/webapi/entry.cgi?token=default';
+
+describe('ChannelRegistry', () => {
+  test('routes configured channels to their own webhook', () => {
+    const registry = new ChannelRegistry({ webhook_url: DEFAULT_URL });
+    registry.configure({
+      channels: {
+        '7': { name: 'ops', webhook_url: OPS_URL },
+        '12': { webhook_url: DEV_URL },
+      },
+    });
+
+    expect(registry.route('7')?.webhook_url).toBe(OPS_URL);
+    expect(registry.route('12')?.webhook_url).toBe(DEV_URL);
+    expect(registry.route('99')?.webhook_url).toBe(DEFAULT_URL);
+    expect(registry.route()?.webhook_url).toBe(DEFAULT_URL);
+  });
+
+  test('rejects unknown channels without a fallback', () => {
+    const registry = new ChannelRegistry();
+    registry.configure({ channels: { '7': { webhook_url: OPS_URL } } });
+
+    expect(registry.route('99')).toBeNull();
+    expect(registry.hasRoutes()).toBe(true);
+    expect(new ChannelRegistry().hasRoutes()).toBe(false);
+  });
+
+  test('checks tokens per channel', () => {
+    const registry = new ChannelRegistry({ webhook_url: DEFAULT_URL, token: 'default-token' });
+    registry.configure({
+      channels: {
+        '7': { webhook_url: OPS_URL, token: 'ops-token' },
+        '12': { webhook_url: DEV_URL },
+      },
+    });
+
+    expect(registry.verifyToken('7', 'ops-token')).toBe(true);
+    expect(registry.verifyToken('7', 'default-token')).toBe(false);
+    expect(registry.verifyToken('12', undefined)).toBe(true);
+    expect(registry.verifyToken('99', 'default-token')).toBe(true);
+    expect(registry.verifyToken('99', 'wrong')).toBe(false);
+  });
+
+  test('validates webhook URLs', () => {
+    const registry = new ChannelRegistry();
+
+    expect(() => registry.configure({ channels: { '7': { webhook_url: 'not a url' } } })).toThrow(
+      'Channel 7 must have an http(s) webhook_url'
+    );
+    expect(() => registry.configure({ channels: { '7': {} as never } })).toThrow('Channel 7');
+    expect(() => new ChannelRegistry({ webhook_url: 'ftp://nas/hook' })).toThrow('Invalid default webhook URL');
+  });
+
+  test('validates the default session mode', () => {
+    const registry = new ChannelRegistry();
+    registry.configure({ channels: { '7': { webhook_url: 'https://nas/hook', mode: 'shared' } } });
+
+    expect(registry.route('7')?.mode).toBe('shared');
+    expect(() =>
+      registry.configure({ channels: { '7': { webhook_url: 'https://nas/hook', mode: 'team' as never } } })
+    ).toThrow('Channel 7 mode must be "personal" or "shared"');
+  });
+
+  test('loads channels from a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'channels-'));
+    try {
+      const path = join(dir, 'channels.json');
+      writeFileSync(path, JSON.stringify({ channels: { '7': { webhook_url: OPS_URL } } }));
+
+      const registry = new ChannelRegistry();
+      await registry.init(path);
+      expect(registry.size).toBe(1);
+
+      // Missing file leaves the registry empty
+      const empty = new ChannelRegistry();
+      await empty.init(join(dir, 'missing.json'));
+      expect(empty.size).toBe(0);
+
+      writeFileSync(path, '{ not json');
+      await expect(new ChannelRegistry().init(path)).rejects.toThrow('Invalid JSON');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Channel Registry - Maps Synology channels to their incoming webhooks
+ *
+ * Each channel's outgoing webhook posts to this bridge; replies must go back
+ * through that channel's own incoming webhook. Channels are defined in
+ * CHANNELS_CONFIG (default: /app/config/channels.json). SYNOLOGY_WEBHOOK_URL
+ * and SYNOLOGY_WEBHOOK_TOKEN, if set, serve every channel not listed.
+ *
+ * @example
+ * {
+ *   "channels": {
+ *     "7": { "name": "ops", "webhook_url": "https://nas:5001/webapi/entry.cgi?...&token=AAA", "token": "outgoing-token-a", "mode": "shared" },
+ *     "12": { "webhook_url": "https://nas:5001/webapi/entry.cgi?...&token=BBB" }
+ *   }
+ * }
+ */
+
+import { readFile } from 'fs/promises';
+import { logger } from './logger';
+import type { SessionMode } from './types';
+
+export interface ChannelConfig {
+  webhook_url: string; // Incoming webhook replies are posted to
+  token?: string; // Outgoing webhook token expected on requests from this channel
+  name?: string; // For logs
+  mode?: SessionMode; // Default session mode (default: personal)
+}
+
+export interface ChannelsConfig {
+  channels?: Record<string, ChannelConfig>;
+}
+
+/**
+ * Check that a webhook URL is an absolute http(s) URL
+ */
+function isValidWebhookUrl(url: unknown): boolean {
+  if (typeof url !== 'string') return false;
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export class ChannelRegistry {
+  private channels: Record<string, ChannelConfig> = {};
+
+  /**
+   * @param fallback - Route for channels without their own entry
+   */
+  constructor(private fallback?: ChannelConfig) {
+    if (fallback && !isValidWebhookUrl(fallback.webhook_url)) {
+      throw new Error(`Invalid default webhook URL: ${fallback.webhook_url}`);
+    }
+  }
+
+  /**
+   * Load channels from a JSON file; a missing file leaves only the fallback
+   * @throws If the file is not valid JSON or a channel is misconfigured
+   */
+  async init(path: string): Promise<void> {
+    let data: string;
+    try {
+      data = await readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let config: ChannelsConfig;
+    try {
+      config = JSON.parse(data);
+    } catch (error) {
+      throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    this.configure(config);
+    logger.info('Loaded channels config', { channels: Object.keys(this.channels).length });
+  }
+
+  /**
+   * Apply a config, validating every channel
+   * @throws If a channel has no valid webhook URL
+   */
+  configure(config: ChannelsConfig): void {
+    const channels = config.channels || {};
+
+    for (const [channelId, channel] of Object.entries(channels)) {
+      if (!isValidWebhookUrl(channel?.webhook_url)) {
+        throw new Error(`Channel ${channelId} must have an http(s) webhook_url`);
+      }
+      if (channel.token !== undefined && typeof channel.token !== 'string') {
+        throw new Error(`Channel ${channelId} token must be a string`);
+      }
+      if (channel.mode !== undefined && channel.mode !== 'personal' && channel.mode !== 'shared') {
+        throw new Error(`Channel ${channelId} mode must be "personal" or "shared"`);
+      }
+    }
+
+    this.channels = channels;
+  }
+
+  /**
+   * Where replies for a channel go
+   * @returns null if the channel is not configured and there is no fallback
+   */
+  route(channelId?: string): ChannelConfig | null {
+    return (channelId && this.channels[channelId]) || this.fallback || null;
+  }
+
+  /**
+   * Check an outgoing webhook token against the channel's configured token
+   * Channels without a token accept any request.
+   */
+  verifyToken(channelId: string, token: string | undefined): boolean {
+    const expected = this.route(channelId)?.token;
+    return !expected || token === expected;
+  }
+
+  /**
+   * True if at least one channel can receive replies
+   */
+  hasRoutes(): boolean {
+    return !!this.fallback || Object.keys(this.channels).length > 0;
+  }
+
+  get size(): number {
+    return Object.keys(this.channels).length;
+  }
+}
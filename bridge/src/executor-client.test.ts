@@ -0,0 +1,68 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { ExecutorClient } from './executor-client';
+import type { ExecutorStreamEvent } from './types';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const frame = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+describe('ExecutorClient.executeStream', () => {
+  let server: Server<undefined>;
+  let pieces: Uint8Array[]; // Written one per read, so frames can be split anywhere
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch() {
+        const body = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            for (const piece of pieces) {
+              controller.enqueue(piece);
+              await sleep(5);
+            }
+            controller.close();
+          },
+        });
+        return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const run = async () => {
+    const client = new ExecutorClient(`http://127.0.0.1:${server.port}`, 'token');
+    const events: ExecutorStreamEvent[] = [];
+    const result = await client.executeStream({ session_id: '7_42', prompt: 'hi', user_name: 'alice' }, (event) => events.push(event));
+    return { events, result };
+  };
+
+  test('reports events in order, including frames split across reads', async () => {
+    const text = frame('text', { type: 'text', text: 'Café ready' });
+    const bytes = new TextEncoder().encode(
+      frame('queued', { type: 'queued', position: 0 }) + text + frame('tool', { type: 'tool', name: 'Grep' }) + frame('result', { success: true, session_id: '7_42', result: 'Café ready' })
+    );
+    // Cut inside the text frame, in the middle of the two-byte "é"
+    const cut = new TextEncoder().encode(frame('queued', { type: 'queued', position: 0 })).length + text.indexOf('é') + 1;
+    pieces = [bytes.slice(0, cut), bytes.slice(cut, cut + 3), bytes.slice(cut + 3)];
+
+    const { events, result } = await run();
+    expect(events).toEqual([
+      { type: 'queued', position: 0 },
+      { type: 'text', text: 'Café ready' },
+      { type: 'tool', name: 'Grep' },
+    ]);
+    expect(result).toEqual({ success: true, session_id: '7_42', result: 'Café ready' });
+  });
+
+  test('fails when the stream ends without a result', async () => {
+    pieces = [new TextEncoder().encode(frame('text', { type: 'text', text: 'Partial' }) + 'event: result\ndata: {"succ')];
+
+    const { events, result } = await run();
+    expect(events).toEqual([{ type: 'text', text: 'Partial' }]);
+    expect(result).toMatchObject({ success: false, error: 'Executor stream ended without a result' });
+  });
+});
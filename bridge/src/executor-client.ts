@@ -2,9 +2,30 @@
  * Executor Client - Communicate with Claude Code Executor
  */
 
-import type { ExecutorRequest, ExecutorResponse } from './types';
+import { CORRELATION_HEADER } from './logger';
+import type {
+  ExecutorRequest,
+  ExecutorResponse,
+  ExecutorSubmission,
+  ExecutorStreamEvent,
+  ExecutorSession,
+  ExecutorJob,
+  ProjectList,
+  CancelResult,
+  UsageQuery,
+  UsageTotals,
+  QuotaStatus,
+} from './types';
 
 const EXECUTOR_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const SUBMIT_TIMEOUT_MS = 10 * 1000; // Executor only has to accept the job
+
+/**
+ * Pass the chat message's correlation id on, so Executor log lines carry it too
+ */
+function correlationHeaders(request: ExecutorRequest): Record<string, string> {
+  return request.correlation_id ? { [CORRELATION_HEADER]: request.correlation_id } : {};
+}
 
 export class ExecutorClient {
   private baseUrl: string;
@@ -28,6 +49,7 @@ export class ExecutorClient {
         headers: {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${this.authToken}`,
+          ...correlationHeaders(request),
         },
         body: JSON.stringify(request),
         signal: controller.signal,
@@ -44,7 +66,92 @@ export class ExecutorClient {
         };
       }
 
-      return await response.json();
+      return (await response.json()) as ExecutorResponse;
+    } catch (error) {
+      clearTimeout(timeout);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        return {
+          success: false,
+          session_id: request.session_id,
+          error: 'Request timeout (5 minutes)',
+        };
+      }
+
+      return {
+        success: false,
+        session_id: request.session_id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Execute a prompt, reporting progress events as the Executor streams them
+   * Resolves with the final result once the stream ends.
+   */
+  async executeStream(
+    request: ExecutorRequest,
+    onEvent: (event: ExecutorStreamEvent) => void
+  ): Promise<ExecutorResponse> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), EXECUTOR_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/execute/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${this.authToken}`,
+          ...correlationHeaders(request),
+        },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        return {
+          success: false,
+          session_id: request.session_id,
+          error: `Executor error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      let result: ExecutorResponse | null = null;
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        // SSE events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+          const event = parseSseEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (!event) continue;
+
+          if (event.name === 'result') {
+            result = event.data as ExecutorResponse;
+          } else {
+            onEvent(event.data as ExecutorStreamEvent);
+          }
+        }
+      }
+
+      clearTimeout(timeout);
+
+      return (
+        result || {
+          success: false,
+          session_id: request.session_id,
+          error: 'Executor stream ended without a result',
+        }
+      );
     } catch (error) {
       clearTimeout(timeout);
 
@@ -64,6 +171,46 @@ export class ExecutorClient {
     }
   }
 
+  /**
+   * Submit a prompt for asynchronous execution
+   * The Executor answers immediately and POSTs the result to request.callback_url,
+   * unless a quota turns the request away (429, answered with the result).
+   */
+  async submit(request: ExecutorRequest): Promise<ExecutorSubmission> {
+    try {
+      const response = await fetch(`${this.baseUrl}/execute`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+          ...correlationHeaders(request),
+        },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(SUBMIT_TIMEOUT_MS),
+      });
+
+      if (response.status === 429) {
+        return { accepted: false, rejected: (await response.json()) as ExecutorResponse };
+      }
+
+      if (response.status !== 202) {
+        const errorText = await response.text();
+        return {
+          accepted: false,
+          error: `Executor error: ${response.status} - ${errorText}`,
+        };
+      }
+
+      const body = (await response.json()) as { job_id: string; queue_position?: number };
+      return { accepted: true, job_id: body.job_id, queue_position: body.queue_position };
+    } catch (error) {
+      return {
+        accepted: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Reset a session
    */
@@ -83,6 +230,230 @@ export class ExecutorClient {
     }
   }
 
+  /**
+   * Archive a session (kept until resumed) or resume it
+   * @returns false if the session is unknown to the Executor or it could not be reached
+   */
+  async archiveSession(sessionId: string, archived: boolean): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/archive`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+        },
+        body: JSON.stringify({ session_id: sessionId, archived }),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Cancel queued and running jobs for a session
+   * @returns What was cancelled, or null if the Executor could not be reached
+   */
+  async cancel(sessionId: string): Promise<CancelResult | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+        },
+        body: JSON.stringify({ session_id: sessionId }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return null;
+
+      const body = (await response.json()) as { cancelled: CancelResult };
+      return body.cancelled;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the Executor's view of a session
+   */
+  async getSession(sessionId: string): Promise<ExecutorSession | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/session/${encodeURIComponent(sessionId)}`, {
+        headers: { Authorization: `Bearer ${this.authToken}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as ExecutorSession;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the Executor's record of a job
+   * @returns The job, or null if the Executor does not know it
+   * @throws If the Executor cannot be reached or fails
+   */
+  async getJob(jobId: string): Promise<ExecutorJob | null> {
+    const response = await fetch(`${this.baseUrl}/jobs/${encodeURIComponent(jobId)}`, {
+      headers: { Authorization: `Bearer ${this.authToken}` },
+      signal: AbortSignal.timeout(5000),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Executor error: ${response.status}`);
+    }
+    return (await response.json()) as ExecutorJob;
+  }
+
+  /**
+   * Export a session's history
+   * @returns The transcript as text, or null if the session does not exist or the Executor could not be reached
+   */
+  async getTranscript(sessionId: string, format: 'json' | 'markdown'): Promise<string | null> {
+    try {
+      const response = await fetch(
+        `${this.baseUrl}/session/${encodeURIComponent(sessionId)}/transcript?format=${format}`,
+        {
+          headers: { Authorization: `Bearer ${this.authToken}` },
+          signal: AbortSignal.timeout(30_000),
+        }
+      );
+      if (!response.ok) return null;
+      return await response.text();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the cost and token usage of the executions matching a query
+   * @returns The totals, or null if the Executor could not be reached
+   */
+  async getUsage(query: UsageQuery): Promise<UsageTotals | null> {
+    const params = new URLSearchParams(
+      Object.entries(query).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+    try {
+      const response = await fetch(`${this.baseUrl}/usage?${params}`, {
+        headers: { Authorization: `Bearer ${this.authToken}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return null;
+      return ((await response.json()) as { totals: UsageTotals }).totals;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get the quotas that apply to a user and channel
+   * @returns The quotas, or null if the Executor could not be reached
+   */
+  async getQuota(userId: string, channelId?: string): Promise<QuotaStatus | null> {
+    const params = new URLSearchParams({ user_id: userId, ...(channelId ? { channel_id: channelId } : {}) });
+    try {
+      const response = await fetch(`${this.baseUrl}/quota?${params}`, {
+        headers: { Authorization: `Bearer ${this.authToken}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as QuotaStatus;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Lift a user's or channel's quotas for some hours, or put them back in force
+   * @returns null on success, otherwise the reason it failed
+   */
+  async overrideQuota(
+    scope: 'user' | 'channel',
+    id: string,
+    lifted: boolean,
+    byUserId: string,
+    hours?: number
+  ): Promise<string | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/quota/override`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+        },
+        body: JSON.stringify({ scope, id, lifted, hours, by_user_id: byUserId }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (response.ok) return null;
+
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      return body.error || `Executor error: ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  /**
+   * Download a file Claude wrote to a session's output directory
+   * @throws If the Executor cannot be reached or does not have the file
+   */
+  async downloadFile(sessionId: string, name: string): Promise<ArrayBuffer> {
+    const response = await fetch(
+      `${this.baseUrl}/session/${encodeURIComponent(sessionId)}/files/${encodeURIComponent(name)}`,
+      {
+        headers: { Authorization: `Bearer ${this.authToken}` },
+        signal: AbortSignal.timeout(60_000),
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`Executor error: ${response.status}`);
+    }
+    return await response.arrayBuffer();
+  }
+
+  /**
+   * List projects, including the default bound to a channel
+   */
+  async listProjects(channelId?: string): Promise<ProjectList | null> {
+    const query = channelId ? `?channel_id=${encodeURIComponent(channelId)}` : '';
+    try {
+      const response = await fetch(`${this.baseUrl}/projects${query}`, {
+        headers: { Authorization: `Bearer ${this.authToken}` },
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!response.ok) return null;
+      return (await response.json()) as ProjectList;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Bind a session to a project
+   * @returns null on success, otherwise an error message
+   */
+  async setProject(sessionId: string, project: string, userName: string): Promise<string | null> {
+    try {
+      const response = await fetch(`${this.baseUrl}/project`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.authToken}`,
+        },
+        body: JSON.stringify({ session_id: sessionId, project, user_name: userName }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (response.ok) return null;
+
+      const body = (await response.json().catch(() => ({}))) as { error?: string };
+      return body.error || `Executor error: ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
   /**
    * Health check
    */
@@ -98,3 +469,27 @@ export class ExecutorClient {
     }
   }
 }
+
+/**
+ * Parse one server-sent event block into its name and JSON data
+ */
+function parseSseEvent(block: string): { name: string; data: unknown } | null {
+  let name = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      name = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { name, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return null;
+  }
+}
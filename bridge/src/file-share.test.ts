@@ -0,0 +1,54 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileShare } from './file-share';
+
+describe('FileShare', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'file-share-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('serves a stored file by token and name', async () => {
+    const share = new FileShare(join(dir, 'shared'));
+    await share.init();
+    const { token, name } = await share.add('report.md', '# Report');
+
+    const file = share.get(token, name);
+    expect(file?.name).toBe('report.md');
+    expect(await readFile(file!.path, 'utf-8')).toBe('# Report');
+  });
+
+  test('rejects unknown tokens and mismatched names', async () => {
+    const share = new FileShare(join(dir, 'shared'));
+    await share.init();
+    const { token } = await share.add('report.md', 'x');
+
+    expect(share.get('nope', 'report.md')).toBeNull();
+    expect(share.get(token, 'other.md')).toBeNull();
+  });
+
+  test('keeps path separators out of stored names', async () => {
+    const share = new FileShare(join(dir, 'shared'));
+    await share.init();
+
+    expect((await share.add('../../etc/passwd', 'x')).name).toBe('_.._etc_passwd');
+  });
+
+  test('expired links stop working and are cleaned up', async () => {
+    const share = new FileShare(join(dir, 'shared'), 0);
+    await share.init();
+    const { token, name } = await share.add('chart.png', 'png');
+
+    expect(share.get(token, name)).toBeNull();
+    expect(await share.cleanup()).toBe(1);
+    expect(share.count()).toBe(0);
+    expect(await readdir(join(dir, 'shared'))).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * File Share - Short-lived download links for files posted to Synology Chat
+ *
+ * Synology attaches a file by downloading the `file_url` of an incoming
+ * message itself, so files Claude creates are kept under
+ * DATA_DIR/shared/<token>/ and served on /files/<token>/<name> until the
+ * link expires. Tokens are random and links are not listed anywhere.
+ * Links do not survive a bridge restart.
+ */
+
+import { join } from 'path';
+import { mkdir, writeFile, rm } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { DATA_DIR } from './session-manager';
+
+const DEFAULT_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface SharedFile {
+  name: string;
+  path: string;
+  expires_at: number;
+}
+
+/**
+ * Reduce a file name to something safe to store and put in a URL path
+ */
+function safeName(name: string): string {
+  const cleaned = name.replace(/[\/\\]/g, '_').replace(/^\.+/, '').trim();
+  return cleaned || 'file';
+}
+
+export class FileShare {
+  private files: Map<string, SharedFile> = new Map();
+
+  constructor(
+    private dir: string = join(DATA_DIR, 'shared'),
+    private ttlMs: number = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * Start empty: links from a previous process are gone with its memory
+   */
+  async init(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+    await mkdir(this.dir, { recursive: true });
+  }
+
+  /**
+   * Store a file for download
+   * @returns Token and stored name for the /files/<token>/<name> link
+   */
+  async add(name: string, data: Uint8Array | string): Promise<{ token: string; name: string }> {
+    const token = randomBytes(24).toString('base64url');
+    const stored = safeName(name);
+    const path = join(this.dir, token, stored);
+
+    await mkdir(join(this.dir, token), { recursive: true });
+    await writeFile(path, data);
+    this.files.set(token, { name: stored, path, expires_at: Date.now() + this.ttlMs });
+
+    return { token, name: stored };
+  }
+
+  /**
+   * Look up a shared file
+   * @returns null if the token is unknown or expired, or the name does not match
+   */
+  get(token: string, name: string): SharedFile | null {
+    const file = this.files.get(token);
+    if (!file || file.name !== name || file.expires_at <= Date.now()) return null;
+    return file;
+  }
+
+  /**
+   * Delete expired files
+   * @returns Number of files removed
+   */
+  async cleanup(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const [token, file] of this.files) {
+      if (file.expires_at > now) continue;
+      this.files.delete(token);
+      await rm(join(this.dir, token), { recursive: true, force: true });
+      removed++;
+    }
+
+    return removed;
+  }
+
+  count(): number {
+    return this.files.size;
+  }
+}
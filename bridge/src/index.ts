@@ -2,43 +2,130 @@
  * Synology Chat Bridge - Main Server
  *
  * Receives webhooks from Synology Chat, forwards to Claude Code Executor,
- * and sends responses back to Synology Chat.
+ * and sends responses back to Synology Chat. Channel messages are answered
+ * through the channel's incoming webhook; direct messages to the chatbot
+ * (when SYNOLOGY_BOT_URL is set) are answered through the bot API.
  */
 
 import { Hono } from 'hono';
-import { logger } from 'hono/logger';
+import { randomUUID } from 'crypto';
 import { SynologyClient } from './synology-client';
+import { ChannelRegistry } from './channel-registry';
 import { ExecutorClient } from './executor-client';
-import { BridgeSessionManager } from './session-manager';
+import { BridgeSessionManager, SESSION_NAME_PATTERN, DEFAULT_SESSION_NAME } from './session-manager';
+import { PendingJobs } from './pending-jobs';
+import { FileShare } from './file-share';
+import { ChannelModes } from './channel-modes';
+import { StreamRelay, queueStatusMessage, errorNotice } from './stream-relay';
+import { endedNotice, limitNotice, expiryNotice, overflowNotice, contextWarningNotice } from './session-notices';
+import { quotaStatusText } from './quota-notices';
 import { rateLimiter } from './rate-limiter';
-import type { SynologyWebhookPayload } from './types';
+import { metrics, requestsTotal, requestSeconds, rateLimitedTotal } from './metrics';
+import { logger, correlationIdFrom, CORRELATION_HEADER } from './logger';
+import { parseWebhook, sessionIdFor } from './webhook-parser';
+import { AttachmentFetcher, DEFAULT_ATTACHMENT_LIMITS, findFileUrls, parseList } from './attachments';
+import { verifyCallbackSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './callback-auth';
+import type {
+  IncomingMessage,
+  SessionMode,
+  ExecutorRequest,
+  ExecutorResponse,
+  ExecutorFile,
+  PendingJob,
+  PendingJobMode,
+  UsageTotals,
+} from './types';
 
 // Configuration
 const SYNOLOGY_WEBHOOK_URL = process.env.SYNOLOGY_WEBHOOK_URL;
 const SYNOLOGY_WEBHOOK_TOKEN = process.env.SYNOLOGY_WEBHOOK_TOKEN;
+// Per-channel incoming webhooks; SYNOLOGY_WEBHOOK_URL serves channels not listed
+const CHANNELS_CONFIG = process.env.CHANNELS_CONFIG || '/app/config/channels.json';
+// Chatbot API URL (including the bot token) for direct messages; DMs are refused without it
+const SYNOLOGY_BOT_URL = process.env.SYNOLOGY_BOT_URL;
+const SYNOLOGY_BOT_TOKEN = process.env.SYNOLOGY_BOT_TOKEN;
 const EXECUTOR_URL = process.env.EXECUTOR_URL || 'http://localhost:3457';
 const EXECUTOR_AUTH_TOKEN = process.env.EXECUTOR_AUTH_TOKEN;
+// Externally reachable base URL of this bridge; enables asynchronous execution via /callback
+const BRIDGE_PUBLIC_URL = process.env.BRIDGE_PUBLIC_URL?.replace(/\/$/, '');
+const CALLBACK_URL = BRIDGE_PUBLIC_URL ? `${BRIDGE_PUBLIC_URL}/callback` : undefined;
+// Post Claude's output progressively as it is produced
+const STREAM_RESPONSES = process.env.STREAM_RESPONSES === 'true';
+const STREAM_TOOL_STEPS = process.env.STREAM_TOOL_STEPS !== 'false';
+// Files posted with a message are downloaded and forwarded to the Executor
+const ATTACHMENT_MAX_BYTES = parseInt(process.env.ATTACHMENT_MAX_BYTES || String(DEFAULT_ATTACHMENT_LIMITS.maxBytes), 10);
+const ATTACHMENT_MAX_FILES = parseInt(process.env.ATTACHMENT_MAX_FILES || String(DEFAULT_ATTACHMENT_LIMITS.maxFiles), 10);
+const ATTACHMENT_TYPES = process.env.ATTACHMENT_TYPES
+  ? parseList(process.env.ATTACHMENT_TYPES)
+  : DEFAULT_ATTACHMENT_LIMITS.allowedTypes;
+// Hosts whose links in the message text are treated as attachments (e.g. the NAS)
+const ATTACHMENT_HOSTS = parseList(process.env.ATTACHMENT_HOSTS);
+// Base URL Synology can download files from; files Claude creates are only posted when set
+const FILES_BASE_URL = (process.env.FILES_BASE_URL || BRIDGE_PUBLIC_URL)?.replace(/\/$/, '');
+const FILE_LINK_TTL_MS = parseInt(process.env.FILE_LINK_TTL_MINUTES || '15', 10) * 60 * 1000;
+// Post replies that would be split into more than LONG_REPLY_MAX_CHUNKS messages as a .md file
+const LONG_REPLY_AS_FILE = process.env.LONG_REPLY_AS_FILE === 'true';
+const LONG_REPLY_MAX_CHUNKS = parseInt(process.env.LONG_REPLY_MAX_CHUNKS || '3', 10);
+const MAX_SHARED_FILE_BYTES = 32 * 1024 * 1024; // Synology's attachment limit
+// Warn this long before a session ends (0 disables the warning)
+const SESSION_WARNING_MS = parseInt(process.env.SESSION_WARNING_MINUTES || '5', 10) * 60 * 1000;
 const PORT = parseInt(process.env.PORT || '3456', 10);
 
-if (!SYNOLOGY_WEBHOOK_URL) {
-  console.error('ERROR: SYNOLOGY_WEBHOOK_URL is required');
+
+if (!EXECUTOR_AUTH_TOKEN) {
+  logger.error('EXECUTOR_AUTH_TOKEN is required');
   process.exit(1);
 }
 
-if (!EXECUTOR_AUTH_TOKEN) {
-  console.error('ERROR: EXECUTOR_AUTH_TOKEN is required');
+// Load reply routes, failing fast on bad configuration
+let channels: ChannelRegistry;
+try {
+  channels = new ChannelRegistry(
+    SYNOLOGY_WEBHOOK_URL ? { webhook_url: SYNOLOGY_WEBHOOK_URL, token: SYNOLOGY_WEBHOOK_TOKEN || undefined } : undefined
+  );
+  await channels.init(CHANNELS_CONFIG);
+} catch (error) {
+  logger.error('Invalid channel configuration', { error });
+  process.exit(1);
+}
+
+if (!channels.hasRoutes() && !SYNOLOGY_BOT_URL) {
+  logger.error('SYNOLOGY_WEBHOOK_URL, a channels config (CHANNELS_CONFIG) or SYNOLOGY_BOT_URL is required');
   process.exit(1);
 }
 
 // Initialize clients
-const synology = new SynologyClient(SYNOLOGY_WEBHOOK_URL);
+const synology = new SynologyClient(channels, SYNOLOGY_BOT_URL);
 const executor = new ExecutorClient(EXECUTOR_URL, EXECUTOR_AUTH_TOKEN);
 const sessions = new BridgeSessionManager();
+const pendingJobs = new PendingJobs();
+const channelModes = new ChannelModes();
+const fileShare = new FileShare(undefined, FILE_LINK_TTL_MS);
+await fileShare.init();
+const attachmentFetcher = new AttachmentFetcher({
+  maxBytes: ATTACHMENT_MAX_BYTES,
+  maxFiles: ATTACHMENT_MAX_FILES,
+  allowedTypes: ATTACHMENT_TYPES,
+});
 
-const app = new Hono();
-
-// Middleware
-app.use('*', logger());
+const app = new Hono<{ Variables: { correlationId: string } }>();
+
+// Middleware: a correlation id per request (passed on to the Executor) and one log line per request
+app.use('*', async (c, next) => {
+  const correlationId = correlationIdFrom(c.req.header(CORRELATION_HEADER));
+  c.set('correlationId', correlationId);
+  c.header(CORRELATION_HEADER, correlationId);
+
+  const start = Date.now();
+  await next();
+  logger.info('HTTP request', {
+    correlation_id: correlationId,
+    method: c.req.method,
+    route: c.req.routePath, // Not the path: /files/:token/:name carries the download token
+    status: c.res.status,
+    duration_ms: Date.now() - start,
+  });
+});
 
 // Health check
 app.get('/health', async (c) => {
@@ -47,63 +134,88 @@ app.get('/health', async (c) => {
     status: executorHealthy ? 'ok' : 'degraded',
     executor_reachable: executorHealthy,
     active_sessions: sessions.count(),
+    pending_jobs: pendingJobs.count(),
     uptime: process.uptime(),
   });
 });
 
+// Prometheus metrics (unauthenticated, like /health)
+metrics.gauge('bridge_sessions_active', 'Active chat sessions', () => sessions.count());
+metrics.gauge('bridge_pending_requests', 'Requests waiting for an Executor result', () => pendingJobs.count());
+metrics.gauge('bridge_shared_files', 'Files behind live download links', () => fileShare.count());
+
+app.get('/metrics', (c) => {
+  return c.body(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+});
+
 // Synology Chat webhook endpoint
 app.post('/webhook', async (c) => {
-  // Parse the incoming webhook
-  let payload: SynologyWebhookPayload;
+  // Parse the incoming webhook (channel or chatbot)
+  let message: IncomingMessage;
+  const correlationId = c.get('correlationId');
+  let log = logger.child({ correlation_id: correlationId });
 
   try {
-    // Synology sends form-urlencoded or JSON depending on configuration
-    const contentType = c.req.header('content-type') || '';
-
-    if (contentType.includes('application/x-www-form-urlencoded')) {
-      const formData = await c.req.parseBody();
-      if (typeof formData.payload === 'string') {
-        payload = JSON.parse(formData.payload);
-      } else {
-        payload = formData as unknown as SynologyWebhookPayload;
-      }
-    } else {
-      payload = await c.req.json();
-    }
+    message = await parseWebhook(c.req.raw);
   } catch (error) {
-    console.error('Failed to parse webhook payload:', error);
+    log.error('Failed to parse webhook payload', { error });
     return c.json({ error: 'Invalid payload' }, 400);
   }
 
-  // Validate webhook token if configured
-  if (SYNOLOGY_WEBHOOK_TOKEN && payload.token !== SYNOLOGY_WEBHOOK_TOKEN) {
-    console.warn('Invalid webhook token received');
-    return c.json({ error: 'Invalid token' }, 401);
+  const { user_id: userId, user_name: userName, text } = message;
+  const channelId = message.channel_id;
+  log = log.child({ user_id: userId, channel_id: channelId });
+
+  if (message.source === 'bot') {
+    // Direct messages can only be answered through the chatbot
+    if (!synology.hasBot) {
+      log.warn('Direct message but no bot is configured');
+      return c.json({ error: 'Direct messages are not enabled' }, 403);
+    }
+
+    if (SYNOLOGY_BOT_TOKEN && message.token !== SYNOLOGY_BOT_TOKEN) {
+      log.warn('Invalid bot token received');
+      return c.json({ error: 'Invalid token' }, 401);
+    }
+  } else {
+    // Replies can only go back to channels with a configured incoming webhook
+    if (!channels.route(channelId)) {
+      log.warn('Webhook from unconfigured channel');
+      return c.json({ error: 'Unknown channel' }, 403);
+    }
+
+    // Validate webhook token if configured
+    if (!channels.verifyToken(channelId!, message.token)) {
+      log.warn('Invalid webhook token received');
+      return c.json({ error: 'Invalid token' }, 401);
+    }
   }
 
-  const userId = String(payload.user_id);
-  const channelId = String(payload.channel_id);
-  const userName = payload.user_name || 'Unknown';
-  const text = (payload.text || '').trim();
+  const dmUserId = message.source === 'bot' ? userId : undefined;
+  const threadId = message.thread_id;
+  const reply = replier(channelId, dmUserId, threadId);
 
-  console.log(`Webhook received: user=${userName}, channel=${channelId}`);
+  log.info('Webhook received', { user: userName, source: message.source, thread_id: threadId });
 
   // Remove @claude mention and trim
   const command = text.replace(/@claude\s*/gi, '').trim();
+  const fileUrls = [...message.file_urls, ...findFileUrls(text, ATTACHMENT_HOSTS)];
 
-  if (!command) {
-    await synology.sendMessage('Hi! Send me a message after @claude to get started.');
+  if (!command && fileUrls.length === 0) {
+    await reply('Hi! Send me a message after @claude to get started.');
     return c.json({ success: true });
   }
 
   // Check rate limits
   if (!rateLimiter.canProceed('global', 500)) {
-    console.log('Global rate limit hit');
+    log.info('Global rate limit hit');
+    rateLimitedTotal.inc({ scope: 'global' });
     return c.json({ success: true }); // Silently ignore
   }
 
   if (rateLimiter.isUserRateLimited(userId, 20)) {
-    await synology.sendMessage('Please slow down - too many requests.');
+    rateLimitedTotal.inc({ scope: 'user' });
+    await reply('Please slow down - too many requests.');
     return c.json({ success: true });
   }
 
@@ -111,84 +223,720 @@ app.post('/webhook', async (c) => {
   rateLimiter.record(userId);
 
   // Handle special commands
-  const sessionId = `${channelId}_${userId}`;
+  const mode = modeFor(channelId);
+  const conversationKey = sessionIdFor(message, mode);
+  const sessionId = sessions.currentId(conversationKey);
+  log = log.child({ session_id: sessionId });
 
   if (command.toLowerCase() === 'reset') {
     sessions.delete(sessionId);
     await executor.resetSession(sessionId);
-    await synology.sendMessage('Session reset. Starting fresh!');
+    await reply('Session reset. Starting fresh!');
     return c.json({ success: true });
   }
 
   if (command.toLowerCase() === 'status') {
     const session = sessions.get(sessionId);
+    const lines: string[] = [];
     if (session) {
       const duration = Math.round((Date.now() - session.last_activity) / 60000);
-      await synology.sendMessage(
-        `Session: ${session.message_count} messages, last active ${duration} minutes ago`
+      const label = session.name ? `Session ${session.name}` : 'Session';
+      lines.push(`${label}: ${session.message_count} messages, last active ${duration} minutes ago`);
+    } else {
+      lines.push('No active session.');
+    }
+    if (mode === 'shared') {
+      lines.push('Mode: shared (everyone in this channel talks to the same session)');
+    }
+
+    const [executorSession, projectList, sessionUsage, userUsage] = await Promise.all([
+      executor.getSession(sessionId),
+      executor.listProjects(channelId),
+      executor.getUsage({ session_id: sessionId }),
+      executor.getUsage({ user_id: userId, from: new Date().toISOString().slice(0, 10) }),
+    ]);
+    const project = executorSession?.project || projectList?.channel_default;
+    if (project) {
+      lines.push(`Project: ${project}${executorSession?.project ? '' : ' (channel default)'}`);
+    }
+    if (executorSession?.context_state && executorSession.context_usage_percent !== undefined) {
+      const source = executorSession.context_state.token_source === 'reported' ? '' : ' (estimated)';
+      lines.push(`Context: ${executorSession.context_usage_percent}% of the session limit${source}`);
+    }
+    if (sessionUsage && sessionUsage.executions > 0) {
+      lines.push(`Session usage: ${formatUsage(sessionUsage)}`);
+    }
+    if (userUsage && userUsage.executions > 0) {
+      lines.push(`Your usage today: ${formatUsage(userUsage)}`);
+    }
+
+    await reply(lines.join('\n'));
+    return c.json({ success: true });
+  }
+
+  if (command.toLowerCase() === 'cancel') {
+    const cancelled = await executor.cancel(sessionId);
+    if (!cancelled) {
+      await reply('Error: Could not reach the executor to cancel.');
+    } else if (cancelled.running === 0 && cancelled.pending === 0) {
+      await reply('Nothing to cancel.');
+    } else {
+      const parts: string[] = [];
+      if (cancelled.running > 0) parts.push('stopped the running request');
+      if (cancelled.pending > 0) {
+        parts.push(`removed ${cancelled.pending} queued request${cancelled.pending === 1 ? '' : 's'}`);
+      }
+      const summary = parts.join(' and ');
+      await reply(`Cancelled: ${summary}.`);
+    }
+    return c.json({ success: true });
+  }
+
+  const projectMatch = command.match(/^project(?:\s+(\S+))?$/i);
+  if (projectMatch) {
+    const name = projectMatch[1];
+
+    if (!name) {
+      const projectList = await executor.listProjects(channelId);
+      const executorSession = await executor.getSession(sessionId);
+      if (!projectList || projectList.projects.length === 0) {
+        await reply('No projects are configured.');
+      } else {
+        const current = executorSession?.project || projectList.channel_default;
+        const lines = projectList.projects.map(
+          (p) => `${p.name === current ? '* ' : '- '}${p.name}${p.description ? ` - ${p.description}` : ''}`
+        );
+        await reply(`Projects:\n${lines.join('\n')}\n\nUse @claude project <name> to switch.`);
+      }
+      return c.json({ success: true });
+    }
+
+    const error = await executor.setProject(sessionId, name, userName);
+    await reply(error ? `Error: ${error}` : `Switched to project ${name}.`);
+    return c.json({ success: true });
+  }
+
+  const modeMatch = command.match(/^mode(?:\s+(\S+))?$/i);
+  if (modeMatch) {
+    const requested = modeMatch[1]?.toLowerCase();
+
+    if (!channelId) {
+      await reply('Direct messages always use a personal session.');
+    } else if (!requested) {
+      await reply(`This channel is in ${mode} mode. Use @claude mode shared|personal to change it.`);
+    } else if (requested !== 'shared' && requested !== 'personal') {
+      await reply('Usage: @claude mode shared|personal');
+    } else {
+      channelModes.set(channelId, requested, userName);
+      log.info('Channel mode set', { mode: requested, by: userName });
+      await reply(
+        requested === 'shared'
+          ? 'This channel now shares one Claude session. Everyone sees the same conversation.'
+          : 'Everyone in this channel now has their own Claude session again.'
       );
+    }
+    return c.json({ success: true });
+  }
+
+  const sessionMatch = command.match(/^session(?:\s+(\w+)(?:\s+(\S+))?)?$/i);
+  if (sessionMatch) {
+    const action = sessionMatch[1]?.toLowerCase() || 'list';
+    const arg = sessionMatch[2];
+
+    if (action === 'list') {
+      const listed = sessions.list(conversationKey);
+      const lines = listed.map((s) => {
+        const name = s.name || DEFAULT_SESSION_NAME;
+        const marker = s.id === sessionId ? '* ' : '- ';
+        const age = formatAge(Date.now() - s.last_activity);
+        return `${marker}${name} (${s.id}) - ${s.message_count} messages, last active ${age} ago`;
+      });
+      if (!listed.some((s) => s.id === sessionId)) {
+        lines.unshift(`* ${sessionId} - no messages yet`);
+      }
+      await reply(`Sessions:\n${lines.join('\n')}\n\nUse @claude session switch <name> to change.`);
+      return c.json({ success: true });
+    }
+
+    if ((action === 'new' || action === 'switch' || action === 'resume') && !arg) {
+      await reply(`Usage: @claude session ${action} <${action === 'resume' ? 'id' : 'name'}>`);
+      return c.json({ success: true });
+    }
+
+    let targetId: string;
+    if (action === 'new') {
+      if (!SESSION_NAME_PATTERN.test(arg!) || arg!.toLowerCase() === DEFAULT_SESSION_NAME) {
+        await reply('Session names use letters, digits, - and _ (up to 40 characters).');
+        return c.json({ success: true });
+      }
+      targetId = sessions.namedId(conversationKey, arg!);
+      if (sessions.get(targetId)) {
+        await reply(`Session ${arg} already exists. Use @claude session switch ${arg} to return to it.`);
+        return c.json({ success: true });
+      }
+      sessions.getOrCreate(targetId, { conversation_key: conversationKey, thread_id: threadId });
+    } else if (action === 'switch') {
+      targetId = sessions.namedId(conversationKey, arg!);
+      if (targetId !== conversationKey && !sessions.find(conversationKey, targetId)) {
+        await reply(`No session named ${arg}. Use @claude session list to see your sessions.`);
+        return c.json({ success: true });
+      }
+    } else if (action === 'resume') {
+      targetId = arg!;
+      if (!sessions.find(conversationKey, targetId)) {
+        await reply(`No session ${arg} in this conversation. Use @claude session list to see your sessions.`);
+        return c.json({ success: true });
+      }
+    } else {
+      await reply('Usage: @claude session [list|new <name>|switch <name>|resume <id>]');
+      return c.json({ success: true });
+    }
+
+    const previousId = sessions.switchTo(conversationKey, targetId);
+    if (!previousId) {
+      await reply('That is already the current session.');
+      return c.json({ success: true });
+    }
+
+    // The Executor only knows sessions that have run a request; unknown ones are fine
+    await Promise.all([executor.archiveSession(previousId, true), executor.archiveSession(targetId, false)]);
+    const resumed = await executor.getSession(targetId);
+    sessions.setExpiry(targetId, resumed?.expires_at ? Date.parse(resumed.expires_at) : null);
+    log.info('Session switched', { from: previousId, to: targetId });
+
+    const target = sessions.find(conversationKey, targetId);
+    const targetName = target?.name || DEFAULT_SESSION_NAME;
+    await reply(
+      action === 'new'
+        ? `Started session ${targetName}. The previous session is saved; @claude session resume ${previousId} returns to it.`
+        : `Switched to session ${targetName}. The previous session is saved; @claude session resume ${previousId} returns to it.`
+    );
+    return c.json({ success: true });
+  }
+
+  const exportMatch = command.match(/^export(?:\s+(\S+))?$/i);
+  if (exportMatch) {
+    const requested = exportMatch[1]?.toLowerCase() || 'markdown';
+    if (requested !== 'markdown' && requested !== 'md' && requested !== 'json') {
+      await reply('Usage: @claude export [markdown|json]');
+      return c.json({ success: true });
+    }
+
+    const format = requested === 'json' ? 'json' : 'markdown';
+    const transcript = await executor.getTranscript(sessionId, format);
+    if (!transcript) {
+      await reply('There is no session history to export yet.');
+      return c.json({ success: true });
+    }
+
+    // Attached as a file when file links are available, else posted in chunks
+    const name = `transcript-${sessionId}.${format === 'json' ? 'json' : 'md'}`;
+    const url = await shareFile(name, transcript);
+    await reply(url ? `Transcript of this session: ${name}` : transcript, url ?? undefined);
+    return c.json({ success: true });
+  }
+
+  const quotaMatch = command.match(/^quota(?:\s+(\w+)(?:\s+(\w+))?(?:\s+(\S+))?(?:\s+(\S+))?)?$/i);
+  if (quotaMatch) {
+    const action = quotaMatch[1]?.toLowerCase();
+    if (!action) {
+      const status = await executor.getQuota(userId, channelId);
+      await reply(status ? quotaStatusText(status) : 'Error: Could not reach the executor.');
+      return c.json({ success: true });
+    }
+
+    // Admins lift a user's or channel's quotas for some hours (24 by default)
+    const scope = quotaMatch[2]?.toLowerCase();
+    const id = quotaMatch[3];
+    const hours = quotaMatch[4] === undefined ? undefined : Number(quotaMatch[4]);
+    const valid =
+      (action === 'lift' || action === 'restore') &&
+      (scope === 'user' || scope === 'channel') &&
+      id !== undefined &&
+      (hours === undefined || (action === 'lift' && hours > 0));
+    if (!valid) {
+      await reply('Usage: @claude quota [lift user|channel <id> [hours]|restore user|channel <id>]');
+      return c.json({ success: true });
+    }
+
+    const error = await executor.overrideQuota(scope, id, action === 'lift', userId, hours);
+    if (error) {
+      await reply(`Error: ${error}`);
+    } else if (action === 'lift') {
+      await reply(`Lifted the quotas of ${scope} ${id} for ${hours ?? 24} hours.`);
     } else {
-      await synology.sendMessage('No active session.');
+      await reply(`The quotas of ${scope} ${id} apply again.`);
     }
     return c.json({ success: true });
   }
 
   if (command.toLowerCase() === 'help') {
-    await synology.sendMessage(`Claude Code Commands:
+    await reply(`Claude Code Commands:
 @claude <message> - Chat with Claude
 @claude reset - Start a new session
 @claude status - Show session info
+@claude cancel - Stop the running request
+@claude project - List projects
+@claude project <name> - Work in a different project
+@claude mode shared|personal - Share one session with the whole channel, or not
+@claude session list - List your saved sessions
+@claude session new <name> - Park the current session and start a new one
+@claude session switch <name> - Return to a saved session
+@claude session resume <id> - Return to a saved session by id
+@claude export [json] - Get a transcript of this session
+@claude confirm - Continue with a message held at the context limit
+@claude quota - Show your usage quotas
+@claude quota lift user|channel <id> [hours] - Lift a quota for a while (admins)
+@claude quota restore user|channel <id> - Put a lifted quota back (admins)
 @claude help - Show this help`);
     return c.json({ success: true });
   }
 
-  // Get or create session
-  const session = sessions.getOrCreate(sessionId);
+  // Download attached files; ones that break the limits are reported and left out
+  const { attachments, skipped } = await attachmentFetcher.download(fileUrls);
+  if (skipped.length > 0) {
+    await reply(`Skipped attachment${skipped.length === 1 ? '' : 's'}:\n${skipped.map((s) => `- ${s}`).join('\n')}`);
+  }
+  if (!command && attachments.length === 0) {
+    return c.json({ success: true });
+  }
 
-  // Send processing indicator
-  await synology.sendMessage('Thinking...');
+  // Get or create session
+  const session = sessions.getOrCreate(sessionId, {
+    conversation_key: conversationKey,
+    thread_id: threadId,
+    channel_id: channelId,
+    dm_user_id: dmUserId,
+  });
 
-  // Execute via Claude Code
-  const result = await executor.execute({
+  const request: ExecutorRequest = {
     session_id: sessionId,
     claude_session_id: session.claude_session_id || undefined,
-    prompt: command,
+    prompt: command || 'Please take a look at the attached file.',
     user_name: userName,
-  });
+    channel_id: channelId,
+    user_id: userId,
+    thread_id: threadId,
+    shared: mode === 'shared' || undefined,
+    attachments: attachments.length > 0 ? attachments : undefined,
+    correlation_id: correlationId,
+    // Runs the message held back at the context limit (an ordinary message if none is)
+    confirm_overflow: command.toLowerCase() === 'confirm' || undefined,
+  };
+
+  // Streaming mode: relay output in the background while Claude works
+  if (STREAM_RESPONSES) {
+    const ref = trackRequest(request, 'stream', dmUserId);
+    relayStream(request, reply)
+      .catch((error) => {
+        log.error('Streaming failed', { error });
+      })
+      .finally(() => finishRequest(ref));
+    return c.json({ success: true });
+  }
 
-  if (result.success && result.result) {
-    // Update session
-    if (result.claude_session_id) {
-      sessions.update(sessionId, result.claude_session_id);
+  // Asynchronous mode: the result arrives later on /callback
+  if (CALLBACK_URL) {
+    const ref = trackRequest(request, 'callback', dmUserId);
+    const submission = await executor.submit({
+      ...request,
+      callback_url: `${CALLBACK_URL}?ref=${ref}`,
+    });
+    if (submission.accepted && submission.job_id) {
+      pendingJobs.setJobId(ref, submission.job_id);
+      await reply(queueStatusMessage(submission.queue_position));
+    } else if (submission.rejected) {
+      finishRequest(ref);
+      await deliverResult(sessionId, reply, submission.rejected);
     } else {
-      sessions.touch(sessionId);
+      pendingJobs.take(ref);
+      await reply(`Error: ${submission.error || 'Something went wrong'}`);
     }
+    return c.json({ success: true });
+  }
 
-    // Send response
-    await synology.sendMessage(result.result);
-  } else {
-    const errorMsg = result.error || 'Something went wrong';
-    await synology.sendMessage(`Error: ${errorMsg}`);
+  const ref = trackRequest(request, 'blocking', dmUserId);
+  try {
+    // Send processing indicator
+    await reply('Thinking...');
+
+    // Execute via Claude Code
+    const result = await executor.execute(request);
+    await deliverResult(sessionId, reply, result);
+  } finally {
+    finishRequest(ref);
+  }
+
+  return c.json({ success: true });
+});
+
+// Short-lived downloads of files posted to the chat (fetched by Synology)
+app.get('/files/:token/:name', (c) => {
+  const file = fileShare.get(c.req.param('token'), c.req.param('name'));
+  if (!file) {
+    return c.json({ error: 'Not found' }, 404);
   }
 
+  return new Response(Bun.file(file.path), {
+    headers: { 'Content-Disposition': `attachment; filename="${encodeURIComponent(file.name)}"` },
+  });
+});
+
+// Executor result callback (asynchronous mode)
+app.post('/callback', async (c) => {
+  const body = await c.req.text();
+
+  const valid = verifyCallbackSignature(
+    body,
+    c.req.header(TIMESTAMP_HEADER),
+    c.req.header(SIGNATURE_HEADER),
+    EXECUTOR_AUTH_TOKEN
+  );
+  if (!valid) {
+    logger.warn('Invalid callback signature received');
+    return c.json({ error: 'Invalid signature' }, 401);
+  }
+
+  let result: ExecutorResponse;
+  try {
+    result = JSON.parse(body);
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const ref = c.req.query('ref');
+  const log = logger.child({ correlation_id: result.correlation_id, job_id: result.job_id });
+  const job = ref ? finishRequest(ref) : null;
+  if (!job) {
+    log.warn('Callback for unknown job', { ref });
+    return c.json({ error: 'Unknown job' }, 404);
+  }
+
+  log.info('Callback received', { session_id: job.session_id, success: result.success });
+
+  // Reply in the background so the Executor isn't held up by rate-limited sends
+  deliverResult(job.session_id, replier(job.channel_id, job.dm_user_id, job.thread_id), result).catch((error) => {
+    log.error('Failed to deliver result', { error });
+  });
+
   return c.json({ success: true });
 });
 
+/**
+ * Rough age for listings: minutes, hours or days
+ */
+function formatAge(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} minutes`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hours`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Usage totals for status: requests, cost and tokens
+ */
+function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.input_tokens + usage.output_tokens;
+  const tokenText = tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens);
+  return `${usage.executions} request${usage.executions === 1 ? '' : 's'}, $${usage.cost_usd.toFixed(2)}, ${tokenText} tokens`;
+}
+
+/**
+ * Session mode of a channel: set with the mode command, else the channel's configured default
+ */
+function modeFor(channelId: string | undefined): SessionMode {
+  if (!channelId) return 'personal';
+  return channelModes.get(channelId) ?? channels.route(channelId)?.mode ?? 'personal';
+}
+
+/**
+ * Record a request as pending until its result has been posted
+ * @returns Reference identifying the pending request
+ */
+function trackRequest(request: ExecutorRequest, mode: PendingJobMode, dmUserId?: string): string {
+  const ref = randomUUID();
+  pendingJobs.add({
+    ref,
+    session_id: request.session_id,
+    channel_id: request.channel_id,
+    dm_user_id: dmUserId,
+    thread_id: request.thread_id,
+    user_name: request.user_name,
+    mode,
+    prompt: request.prompt,
+    created_at: Date.now(),
+  });
+  return ref;
+}
+
+/**
+ * Resolve requests left pending by the previous bridge process
+ *
+ * Asynchronous jobs the Executor is still working on keep waiting for
+ * their callback; finished ones are posted now. Everything else - blocking
+ * or streaming requests whose connection died with the old process - is
+ * reported to the user as interrupted.
+ */
+async function recoverPendingJobs(): Promise<void> {
+  const jobs = pendingJobs.list();
+  if (jobs.length === 0) return;
+
+  logger.info('Recovering pending requests after restart', { count: jobs.length });
+
+  for (const job of jobs) {
+    if (job.mode === 'callback' && job.job_id) {
+      let executorJob;
+      try {
+        executorJob = await executor.getJob(job.job_id);
+      } catch (error) {
+        logger.warn('Could not check job, still waiting for its callback', { job_id: job.job_id, error });
+        continue;
+      }
+
+      // Still queued or running - the callback will arrive as usual
+      if (executorJob && !executorJob.response) continue;
+
+      pendingJobs.take(job.ref);
+      if (executorJob?.response) {
+        await deliverResult(job.session_id, replier(job.channel_id, job.dm_user_id, job.thread_id), executorJob.response);
+        continue;
+      }
+    } else {
+      pendingJobs.take(job.ref);
+    }
+
+    await notifyInterrupted(job);
+  }
+}
+
+/**
+ * Tell a user their request was lost in a restart
+ */
+async function notifyInterrupted(job: PendingJob): Promise<void> {
+  const preview = job.prompt.length > 80 ? `${job.prompt.slice(0, 77)}...` : job.prompt;
+  logger.warn('Request interrupted by restart', { session_id: job.session_id, mode: job.mode });
+  await replier(job.channel_id, job.dm_user_id, job.thread_id)(
+    `Sorry ${job.user_name}, your request "${preview}" was interrupted by a restart. Please send it again.`
+  );
+}
+
+/**
+ * Send a message, optionally with a file attached, to one conversation
+ */
+type Reply = (text: string, fileUrl?: string) => Promise<void>;
+
+/**
+ * Send function for a conversation: the user's DM if set, otherwise the
+ * channel - inside the thread, if the conversation is one
+ */
+function replier(channelId: string | undefined, dmUserId: string | undefined, threadId?: string): Reply {
+  return dmUserId
+    ? (text, fileUrl) => synology.sendDirectMessage(text, dmUserId, { fileUrl, threadId })
+    : (text, fileUrl) => synology.sendMessage(text, channelId, { fileUrl, threadId });
+}
+
+/**
+ * Store a file for Synology to download
+ * @returns Its download URL, or null if file sharing is not configured
+ */
+async function shareFile(name: string, data: Uint8Array | string): Promise<string | null> {
+  if (!FILES_BASE_URL) return null;
+  const shared = await fileShare.add(name, data);
+  return `${FILES_BASE_URL}/files/${shared.token}/${encodeURIComponent(shared.name)}`;
+}
+
+/**
+ * Post the files Claude created during a job
+ * Failures are reported in the chat rather than thrown.
+ */
+async function deliverFiles(sessionId: string, files: ExecutorFile[] | undefined, send: Reply): Promise<void> {
+  if (!files || files.length === 0) return;
+
+  if (!FILES_BASE_URL) {
+    await send(`Files created: ${files.map((file) => file.name).join(', ')} (file sharing is not configured)`);
+    return;
+  }
+
+  for (const file of files) {
+    if (file.size > MAX_SHARED_FILE_BYTES) {
+      await send(`Could not send ${file.name}: larger than 32 MB`);
+      continue;
+    }
+
+    try {
+      const data = await executor.downloadFile(sessionId, file.name);
+      await send(file.name, (await shareFile(file.name, new Uint8Array(data)))!);
+    } catch (error) {
+      logger.error('Failed to share file', { session_id: sessionId, file: file.name, error });
+      await send(`Could not send ${file.name}.`);
+    }
+  }
+}
+
+/**
+ * Stream a prompt through the Executor, posting output as it is produced
+ */
+async function relayStream(request: ExecutorRequest, send: Reply): Promise<void> {
+  const relay = new StreamRelay(send, {
+    showToolSteps: STREAM_TOOL_STEPS,
+    sendText: (text) => sendReply(text, send),
+  });
+
+  const result = await executor.executeStream(request, (event) => relay.handle(event));
+
+  recordResult(request.session_id, result);
+  await relay.finish(result);
+  if (!result.cancelled && !result.coalesced) {
+    await deliverFiles(request.session_id, result.files, send);
+    await sendSessionNotices(result, send);
+  }
+}
+
+/**
+ * Stop tracking a finished request, recording how long it took
+ */
+function finishRequest(ref: string): PendingJob | null {
+  const job = pendingJobs.take(ref);
+  if (job) {
+    requestSeconds.observe((Date.now() - job.created_at) / 1000);
+  }
+  return job;
+}
+
+/**
+ * Update the session (and the request count) after an Executor result
+ */
+function recordResult(sessionId: string, result: ExecutorResponse): void {
+  requestsTotal.inc({ outcome: outcomeOf(result) });
+
+  // The Executor ended the old session under its policy and started a new one
+  if (result.session_ended) {
+    sessions.restart(sessionId);
+  }
+
+  if (!result.success || !result.result) return;
+
+  const expiresAt = result.session_expires_at ? Date.parse(result.session_expires_at) : undefined;
+  if (result.claude_session_id) {
+    sessions.update(sessionId, result.claude_session_id, expiresAt);
+  } else {
+    sessions.touch(sessionId, expiresAt);
+  }
+}
+
+/**
+ * Outcome label for the requests metric
+ */
+function outcomeOf(result: ExecutorResponse): string {
+  if (result.cancelled) return 'cancelled';
+  if (result.coalesced) return 'coalesced';
+  if (result.quota_exceeded) return 'quota_exceeded';
+  return result.success ? 'success' : 'error';
+}
+
+/**
+ * Tell the user if the session started over, rolled over at its context
+ * limit or is close to a limit
+ */
+async function sendSessionNotices(result: ExecutorResponse, send: Reply): Promise<void> {
+  if (result.session_ended) {
+    await send(endedNotice(result.session_ended));
+  }
+  if (result.success && result.context_overflow?.outcome === 'rolled_over') {
+    await send(overflowNotice(result.context_overflow)!);
+  }
+  if (result.session_warning) {
+    await send(limitNotice(result.session_warning));
+  }
+  if (result.context_warning) {
+    await send(contextWarningNotice(result.context_warning));
+  }
+}
+
+/**
+ * Warn conversations whose session is about to end
+ */
+async function warnExpiringSessions(): Promise<void> {
+  for (const session of sessions.expiringSoon(SESSION_WARNING_MS)) {
+    sessions.markWarned(session.id);
+    if (!session.channel_id && !session.dm_user_id) continue; // Created before warnings were tracked
+
+    const send = replier(session.channel_id ?? undefined, session.dm_user_id ?? undefined, session.thread_id ?? undefined);
+    await send(expiryNotice(session.expires_at!)); // Listed sessions have an expiry
+  }
+}
+
+/**
+ * Update the session and post an Executor result to the conversation it came from
+ */
+async function deliverResult(sessionId: string, send: Reply, result: ExecutorResponse): Promise<void> {
+  recordResult(sessionId, result);
+
+  // The cancel command already posted a confirmation, and coalesced
+  // messages are answered by the earlier message's reply
+  if (result.cancelled || result.coalesced) return;
+
+  if (result.success && result.result) {
+    await sendReply(result.result, send);
+  } else {
+    await send(errorNotice(result));
+  }
+
+  await deliverFiles(sessionId, result.files, send);
+  await sendSessionNotices(result, send);
+}
+
+/**
+ * Post a reply, as an attached .md file if it would take too many messages
+ */
+async function sendReply(text: string, send: Reply): Promise<void> {
+  const chunks = synology.countChunks(text);
+  if (LONG_REPLY_AS_FILE && chunks > LONG_REPLY_MAX_CHUNKS) {
+    const url = await shareFile('reply.md', text);
+    if (url) {
+      await send(`The reply is long (${chunks} messages), so it is attached as reply.md.`, url);
+      return;
+    }
+  }
+
+  await send(text);
+}
+
 // Periodic cleanup
 setInterval(
   () => {
     const cleaned = sessions.cleanup();
     if (cleaned > 0) {
-      console.log(`Cleaned up ${cleaned} expired sessions`);
+      logger.info('Cleaned up expired sessions', { count: cleaned });
     }
+
+    const expired = pendingJobs.cleanup();
+    if (expired > 0) {
+      logger.warn('Dropped pending requests whose result never arrived', { count: expired });
+    }
+
+    fileShare.cleanup().catch((error) => {
+      logger.error('Failed to remove expired shared files', { error });
+    });
   },
   10 * 60 * 1000
 ); // Every 10 minutes
 
+if (SESSION_WARNING_MS > 0) {
+  setInterval(() => {
+    warnExpiringSessions().catch((error) => {
+      logger.error('Failed to post session expiry warnings', { error });
+    });
+  }, 60 * 1000); // Every minute
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('Shutting down...');
+  logger.info('Shutting down');
   sessions.close();
+  pendingJobs.close();
+  channelModes.close();
   process.exit(0);
 });
 
@@ -198,4 +946,8 @@ const server = Bun.serve({
   fetch: app.fetch,
 });
 
-console.log(`Synology Chat Bridge listening on port ${server.port}`);
+logger.info('Synology Chat Bridge listening', { port: server.port });
+
+recoverPendingJobs().catch((error) => {
+  logger.error('Failed to recover pending requests', { error });
+});
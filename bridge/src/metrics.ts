@@ -0,0 +1,147 @@
+/**
+ * Metrics - Prometheus counters, gauges and histograms for GET /metrics
+ *
+ * Same minimal registry as the Executor's (the bridge is deployed on its
+ * own), rendering the Prometheus text exposition format.
+ */
+
+type Labels = Record<string, string>;
+
+// Seconds; a request spans Claude's run, from seconds to several minutes
+export const DURATION_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * Render a label set as `{name="value",...}` (empty for no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [labels, value] of this.values) {
+      lines.push(`${this.name}${labels} ${value}`);
+    }
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private help: string,
+    private collect: () => number
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export class Histogram implements Metric {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets: number[] = DURATION_BUCKETS
+  ) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.buckets.forEach((bound, i) => {
+      lines.push(`${this.name}_bucket{le="${bound}"} ${this.counts[i]}`);
+    });
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${this.name}_sum ${this.sum}`);
+    lines.push(`${this.name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return this.metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const requestsTotal = metrics.counter(
+  'bridge_requests_total',
+  'Chat requests answered by the Executor, by outcome (success, error, cancelled, coalesced, quota_exceeded)'
+);
+export const requestSeconds = metrics.histogram(
+  'bridge_request_duration_seconds',
+  'Time from forwarding a chat message to the Executor until its result arrived'
+);
+export const synologySendFailuresTotal = metrics.counter(
+  'bridge_synology_send_failures_total',
+  'Messages Synology did not accept, by reason (api: error response, network: request failed)'
+);
+export const synologySendRetriesTotal = metrics.counter(
+  'bridge_synology_send_retries_total',
+  'Messages queued again after a network failure'
+);
+export const rateLimitedTotal = metrics.counter(
+  'bridge_rate_limited_total',
+  'Webhooks rejected by the rate limiter, by scope (global, user)'
+);
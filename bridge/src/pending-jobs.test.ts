@@ -0,0 +1,75 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PendingJobs } from './pending-jobs';
+import type { PendingJob } from './types';
+
+const job = (ref: string, overrides: Partial<PendingJob> = {}): PendingJob => ({
+  ref,
+  session_id: '7_42',
+  user_name: 'alice',
+  mode: 'callback',
+  prompt: 'Hello',
+  created_at: Date.now(),
+  ...overrides,
+});
+
+describe('PendingJobs', () => {
+  let dir: string;
+  let jobs: PendingJobs;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pending-'));
+    jobs = new PendingJobs(join(dir, 'bridge.sqlite'));
+  });
+
+  afterEach(() => {
+    jobs.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('takes a job only once', () => {
+    jobs.add(job('r1'));
+
+    expect(jobs.take('r1')).toMatchObject({ ref: 'r1', session_id: '7_42', mode: 'callback' });
+    expect(jobs.take('r1')).toBeNull();
+    expect(jobs.count()).toBe(0);
+  });
+
+  test('records the Executor job id', () => {
+    jobs.add(job('r1'));
+    expect(jobs.list()[0].job_id).toBeUndefined();
+
+    jobs.setJobId('r1', 'job-1');
+    expect(jobs.take('r1')?.job_id).toBe('job-1');
+  });
+
+  test('keeps where the reply goes', () => {
+    jobs.add(job('r1', { channel_id: '7', thread_id: '1234' }));
+    jobs.add(job('r2', { dm_user_id: '5' }));
+
+    expect(jobs.take('r1')).toMatchObject({ channel_id: '7', thread_id: '1234', dm_user_id: undefined });
+    expect(jobs.take('r2')).toMatchObject({ dm_user_id: '5', thread_id: undefined });
+  });
+
+  test('survives reopening the database', () => {
+    jobs.add(job('r1', { mode: 'blocking', created_at: 1 }));
+    jobs.add(job('r2', { mode: 'stream', created_at: 2 }));
+    jobs.close();
+
+    jobs = new PendingJobs(join(dir, 'bridge.sqlite'));
+    expect(jobs.list().map((j) => [j.ref, j.mode])).toEqual([
+      ['r1', 'blocking'],
+      ['r2', 'stream'],
+    ]);
+  });
+
+  test('cleanup drops expired jobs', () => {
+    jobs.add(job('old', { created_at: Date.now() - 2 * 60 * 60 * 1000 }));
+    jobs.add(job('new'));
+
+    expect(jobs.cleanup()).toBe(1);
+    expect(jobs.list().map((j) => j.ref)).toEqual(['new']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Pending Jobs - Tracks webhook requests the Executor is still working on
+ *
+ * Jobs are keyed by a bridge-generated reference that is embedded in the
+ * callback URL, so a result arriving before the submit response is processed
+ * can still be matched.
+ *
+ * Stored in SQLite so a container restart does not forget them: on startup
+ * the bridge picks up asynchronous jobs where it left off and tells users
+ * whose blocking or streaming request was cut off.
+ */
+
+import { Database } from 'bun:sqlite';
+import { join } from 'path';
+import { DATA_DIR } from './session-manager';
+import type { PendingJob } from './types';
+
+const PENDING_JOB_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export class PendingJobs {
+  private db: Database;
+
+  constructor(dbPath?: string) {
+    const path = dbPath || join(DATA_DIR, 'sessions.sqlite');
+    this.db = new Database(path);
+    this.init();
+  }
+
+  private init(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_requests (
+        ref TEXT PRIMARY KEY,
+        job_id TEXT,
+        session_id TEXT NOT NULL,
+        channel_id TEXT,
+        dm_user_id TEXT,
+        thread_id TEXT,
+        user_name TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        prompt TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Databases created before replies were routed per channel / per DM / per thread
+    const columns = this.db.prepare('PRAGMA table_info(pending_requests)').all() as { name: string }[];
+    for (const column of ['channel_id', 'dm_user_id', 'thread_id']) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.exec(`ALTER TABLE pending_requests ADD COLUMN ${column} TEXT`);
+      }
+    }
+  }
+
+  add(job: PendingJob): void {
+    this.db
+      .prepare(
+        `INSERT INTO pending_requests (ref, job_id, session_id, channel_id, dm_user_id, thread_id, user_name, mode, prompt, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        job.ref,
+        job.job_id ?? null,
+        job.session_id,
+        job.channel_id ?? null,
+        job.dm_user_id ?? null,
+        job.thread_id ?? null,
+        job.user_name,
+        job.mode,
+        job.prompt,
+        job.created_at
+      );
+  }
+
+  /**
+   * Record the Executor's job id once the job is accepted
+   */
+  setJobId(ref: string, jobId: string): void {
+    this.db.prepare('UPDATE pending_requests SET job_id = ? WHERE ref = ?').run(jobId, ref);
+  }
+
+  /**
+   * Remove and return a pending job
+   */
+  take(ref: string): PendingJob | null {
+    const job = this.db.prepare('SELECT * FROM pending_requests WHERE ref = ?').get(ref) as PendingJob | null;
+    if (!job) return null;
+
+    this.db.prepare('DELETE FROM pending_requests WHERE ref = ?').run(ref);
+    return this.fromRow(job);
+  }
+
+  /**
+   * All pending jobs, oldest first
+   */
+  list(): PendingJob[] {
+    const rows = this.db.prepare('SELECT * FROM pending_requests ORDER BY created_at').all() as PendingJob[];
+    return rows.map((row) => this.fromRow(row));
+  }
+
+  count(): number {
+    const row = this.db.prepare('SELECT COUNT(*) as count FROM pending_requests').get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Drop jobs whose result never arrived
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - PENDING_JOB_TTL_MS;
+    const result = this.db.prepare('DELETE FROM pending_requests WHERE created_at < ?').run(cutoff);
+    return result.changes;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private fromRow(row: PendingJob): PendingJob {
+    // SQLite returns NULL for optional fields that were never set
+    return {
+      ...row,
+      job_id: row.job_id ?? undefined,
+      channel_id: row.channel_id ?? undefined,
+      dm_user_id: row.dm_user_id ?? undefined,
+      thread_id: row.thread_id ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, test, expect } from 'bun:test';
+import { quotaNotice, quotaStatusText } from './quota-notices';
+import type { QuotaUsage } from './types';
+
+const NOW = Date.parse('2026-03-10T19:00:00Z');
+
+function quota(overrides: Partial<QuotaUsage> = {}): QuotaUsage {
+  return {
+    scope: 'user',
+    id: '42',
+    period: 'daily',
+    metric: 'executions',
+    used: 50,
+    limit: 50,
+    resets_at: '2026-03-11T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('quota notices', () => {
+  test('explains which limit was reached and when it resets', () => {
+    expect(quotaNotice(quota(), NOW)).toBe(
+      'You have reached the daily limit of 50 requests, so this message was not run. The limit resets in 5 hours.'
+    );
+    expect(
+      quotaNotice(quota({ scope: 'channel', period: 'monthly', metric: 'cost_usd', limit: 20, resets_at: '2026-04-01T00:00:00.000Z' }), NOW)
+    ).toBe('This channel has reached the monthly limit of $20.00, so this message was not run. The limit resets in 21 days.');
+    expect(quotaNotice(quota({ metric: 'seconds', limit: 7200 }), NOW)).toContain('2 hours of run time');
+    expect(quotaNotice(quota({ metric: 'seconds', limit: 600 }), NOW)).toContain('10 minutes of run time');
+  });
+
+  test('lists every quota with its use', () => {
+    const text = quotaStatusText(
+      {
+        quotas: [quota({ used: 12 }), quota({ scope: 'channel', id: '7', metric: 'cost_usd', used: 3, limit: 2 })],
+        overrides: [{ scope: 'channel', id: '7', until: '2026-03-11T19:00:00.000Z' }],
+      },
+      NOW
+    );
+    expect(text).toBe(
+      [
+        'Quotas:',
+        '- You, daily: 12 requests of 50 requests, resets in 5 hours',
+        '- Channel, daily: $3.00 of $2.00 (lifted), resets in 5 hours',
+      ].join('\n')
+    );
+    expect(quotaStatusText({ quotas: [], overrides: [] })).toBe('No quotas apply to you or this channel.');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Quota Notices - Chat messages about usage quotas
+ *
+ * The Executor turns away requests from a user or channel that has used up
+ * a quota and reports which one; these turn the report, and the quota
+ * status shown by @claude quota, into text for the chat.
+ */
+
+import type { QuotaStatus, QuotaUsage } from './types';
+
+/**
+ * Amount of a quota metric, e.g. "50 requests", "2 hours of run time" or "$5.00"
+ */
+function formatAmount(metric: QuotaUsage['metric'], value: number): string {
+  switch (metric) {
+    case 'executions':
+      return `${value} request${value === 1 ? '' : 's'}`;
+    case 'seconds': {
+      if (value >= 3600) {
+        const hours = +(value / 3600).toFixed(1);
+        return `${hours} hour${hours === 1 ? '' : 's'} of run time`;
+      }
+      const minutes = Math.ceil(value / 60);
+      return `${minutes} minute${minutes === 1 ? '' : 's'} of run time`;
+    }
+    case 'cost_usd':
+      return `$${value.toFixed(2)}`;
+  }
+}
+
+/**
+ * Time until a quota resets, e.g. "5 hours" or "3 days"
+ */
+function formatUntil(resetsAt: string, now: number): string {
+  const minutes = Math.max(1, Math.round((Date.parse(resetsAt) - now) / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Notice that a message was not run because a quota is used up
+ */
+export function quotaNotice(quota: QuotaUsage, now: number = Date.now()): string {
+  const owner = quota.scope === 'user' ? 'You have' : 'This channel has';
+  return (
+    `${owner} reached the ${quota.period} limit of ${formatAmount(quota.metric, quota.limit)}, ` +
+    `so this message was not run. The limit resets in ${formatUntil(quota.resets_at, now)}.`
+  );
+}
+
+/**
+ * Quota status for @claude quota, one line per quota
+ */
+export function quotaStatusText(status: QuotaStatus, now: number = Date.now()): string {
+  if (status.quotas.length === 0) return 'No quotas apply to you or this channel.';
+
+  const lifted = new Set(status.overrides.map((o) => `${o.scope}:${o.id}`));
+  const lines = status.quotas.map((q) => {
+    const owner = q.scope === 'user' ? 'You' : 'Channel';
+    const used = `${formatAmount(q.metric, q.used)} of ${formatAmount(q.metric, q.limit)}`;
+    const note = lifted.has(`${q.scope}:${q.id}`) ? ' (lifted)' : q.used >= q.limit ? ' (used up)' : '';
+    return `- ${owner}, ${q.period}: ${used}${note}, resets in ${formatUntil(q.resets_at, now)}`;
+  });
+  return ['Quotas:', ...lines].join('\n');
+}
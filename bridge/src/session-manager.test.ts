@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BridgeSessionManager } from './session-manager';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('BridgeSessionManager', () => {
+  let dir: string;
+  let dbPath: string;
+  let sessions: BridgeSessionManager;
+
+  /** Move a session's last activity into the past */
+  function age(sessionId: string, ms: number): void {
+    const db = new Database(dbPath);
+    db.prepare('UPDATE sessions SET last_activity = ? WHERE id = ?').run(Date.now() - ms, sessionId);
+    db.close();
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bridge-sessions-'));
+    dbPath = join(dir, 'sessions.db');
+    sessions = new BridgeSessionManager(dbPath);
+  });
+
+  afterEach(() => {
+    sessions.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('a conversation uses its own key until it switches', () => {
+    expect(sessions.currentId('7_42')).toBe('7_42');
+  });
+
+  test('named sessions get their name from the id', () => {
+    const id = sessions.namedId('7_42', 'Refactor');
+    expect(id).toBe('7_42__refactor');
+    expect(sessions.namedId('7_42', 'default')).toBe('7_42');
+
+    const session = sessions.getOrCreate(id, { conversation_key: '7_42' });
+    expect(session.name).toBe('refactor');
+    expect(sessions.getOrCreate('7_42').name).toBeNull();
+  });
+
+  test('switching parks the previous session and points the conversation at the new one', () => {
+    sessions.getOrCreate('7_42');
+    sessions.getOrCreate('7_42__refactor', { conversation_key: '7_42' });
+
+    expect(sessions.switchTo('7_42', '7_42__refactor')).toBe('7_42');
+    expect(sessions.currentId('7_42')).toBe('7_42__refactor');
+    expect(sessions.get('7_42')?.status).toBe('archived');
+    expect(sessions.get('7_42__refactor')?.status).toBe('active');
+
+    expect(sessions.switchTo('7_42', '7_42__refactor')).toBeNull();
+    expect(sessions.switchTo('7_42', '7_42')).toBe('7_42__refactor');
+    expect(sessions.currentId('7_42')).toBe('7_42');
+    expect(sessions.get('7_42')?.status).toBe('active');
+  });
+
+  test('archived sessions outlive the inactivity timeout', () => {
+    sessions.getOrCreate('7_42');
+    sessions.getOrCreate('7_42__refactor', { conversation_key: '7_42' });
+    sessions.update('7_42', 'claude-1', Date.now() - 1000);
+    sessions.switchTo('7_42', '7_42__refactor');
+    sessions.setExpiry('7_42__refactor', Date.now() - 1000);
+    age('7_42', 3 * 24 * HOUR_MS);
+    age('7_42__refactor', 3 * 24 * HOUR_MS);
+
+    sessions.cleanup();
+
+    expect(sessions.get('7_42')?.status).toBe('archived');
+    expect(sessions.get('7_42__refactor')).toBeNull();
+
+    // Resuming restarts the inactivity clock
+    sessions.switchTo('7_42', '7_42');
+    expect(sessions.get('7_42')?.status).toBe('active');
+  });
+
+  test('lists and finds only the conversation\'s own sessions', () => {
+    sessions.getOrCreate('7_42');
+    sessions.getOrCreate('7_42__refactor', { conversation_key: '7_42' });
+    sessions.getOrCreate('7_43');
+
+    expect(sessions.list('7_42').map((s) => s.id).sort()).toEqual(['7_42', '7_42__refactor']);
+    expect(sessions.find('7_42', '7_42__refactor')?.name).toBe('refactor');
+    expect(sessions.find('7_42', '7_43')).toBeNull();
+    expect(sessions.find('7_42', 'missing')).toBeNull();
+  });
+
+  test('expires sessions when the Executor says so', () => {
+    sessions.getOrCreate('7_42');
+    sessions.update('7_42', 'claude-1', Date.now() + 2 * HOUR_MS);
+    age('7_42', HOUR_MS);
+    expect(sessions.get('7_42')?.claude_session_id).toBe('claude-1');
+
+    sessions.update('7_42', 'claude-1', Date.now() - 1000);
+    expect(sessions.get('7_42')).toBeNull();
+  });
+
+  test('keeps sessions the Executor reports no expiry for', () => {
+    sessions.getOrCreate('7_42', { channel_id: '7' });
+    sessions.update('7_42', 'claude-1');
+    age('7_42', 3 * 24 * HOUR_MS);
+
+    expect(sessions.expiringSoon(HOUR_MS)).toEqual([]);
+    sessions.cleanup();
+    expect(sessions.get('7_42')?.claude_session_id).toBe('claude-1');
+  });
+
+  test('lists sessions about to expire until they are warned', () => {
+    sessions.getOrCreate('7_42', { channel_id: '7' });
+    sessions.getOrCreate('7_43', { channel_id: '7' });
+    sessions.touch('7_42', Date.now() + 3 * 60 * 1000);
+    sessions.touch('7_43', Date.now() + 20 * 60 * 1000);
+
+    expect(sessions.expiringSoon(5 * 60 * 1000).map((s) => s.id)).toEqual(['7_42']);
+    sessions.markWarned('7_42');
+    expect(sessions.expiringSoon(5 * 60 * 1000)).toEqual([]);
+
+    // New activity resets the warning
+    sessions.touch('7_42', Date.now() + 3 * 60 * 1000);
+    expect(sessions.expiringSoon(5 * 60 * 1000).map((s) => s.channel_id)).toEqual(['7']);
+  });
+
+  test('keeps the current session across restarts', () => {
+    sessions.getOrCreate('dm_5__notes', { conversation_key: 'dm_5' });
+    sessions.switchTo('dm_5', 'dm_5__notes');
+    sessions.close();
+
+    sessions = new BridgeSessionManager(dbPath);
+    expect(sessions.currentId('dm_5')).toBe('dm_5__notes');
+  });
+});
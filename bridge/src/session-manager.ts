@@ -1,14 +1,33 @@
 /**
  * Bridge Session Manager - SQLite-backed session storage
  * Uses Bun's built-in SQLite (no native compilation needed)
+ *
+ * Each conversation (a user in a channel, a DM, a thread, a shared channel)
+ * has a key; its default session uses the key as id. Named sessions
+ * (`@claude session new <name>`) get `<key>__<name>`, and `current_sessions`
+ * points each key at the session its messages go to. Sessions switched away
+ * from are `archived` and kept until resumed, instead of expiring.
+ *
+ * The Executor decides when a session ends (its session policy); each result
+ * carries the expiry, stored in `expires_at`, so both sides expire together.
+ * A session without one (no time limit, or no result yet) does not expire here.
  */
 
 import { Database } from 'bun:sqlite';
 import { join } from 'path';
 import type { BridgeSession } from './types';
 
-const DATA_DIR = process.env.DATA_DIR || '/app/data';
-const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+export const DATA_DIR = process.env.DATA_DIR || '/app/data';
+
+export const SESSION_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+export const DEFAULT_SESSION_NAME = 'default';
+
+export interface SessionDetails {
+  conversation_key?: string; // default: the session id
+  thread_id?: string;
+  channel_id?: string; // Where expiry warnings go
+  dm_user_id?: string;
+}
 
 export class BridgeSessionManager {
   private db: Database;
@@ -26,7 +45,38 @@ export class BridgeSessionManager {
         claude_session_id TEXT,
         last_activity INTEGER NOT NULL,
         message_count INTEGER DEFAULT 0,
-        status TEXT DEFAULT 'active'
+        status TEXT DEFAULT 'active',
+        thread_id TEXT,
+        conversation_key TEXT,
+        name TEXT,
+        channel_id TEXT,
+        dm_user_id TEXT,
+        expires_at INTEGER,
+        warned_at INTEGER
+      )
+    `);
+
+    // Databases created before sessions were kept per thread / could be named / had policies
+    const columns = this.db.prepare('PRAGMA table_info(sessions)').all() as { name: string }[];
+    const added: Array<[string, string]> = [
+      ['thread_id', 'TEXT'],
+      ['conversation_key', 'TEXT'],
+      ['name', 'TEXT'],
+      ['channel_id', 'TEXT'],
+      ['dm_user_id', 'TEXT'],
+      ['expires_at', 'INTEGER'],
+      ['warned_at', 'INTEGER'],
+    ];
+    for (const [column, type] of added) {
+      if (!columns.some((existing) => existing.name === column)) {
+        this.db.exec(`ALTER TABLE sessions ADD COLUMN ${column} ${type}`);
+      }
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS current_sessions (
+        conversation_key TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL
       )
     `);
 
@@ -43,8 +93,8 @@ export class BridgeSessionManager {
 
     if (!row) return null;
 
-    // Check if expired
-    if (Date.now() - row.last_activity > SESSION_TIMEOUT_MS) {
+    // Check if expired (parked sessions wait until they are resumed)
+    if (row.status !== 'archived' && row.expires_at !== null && Date.now() > row.expires_at) {
       this.updateStatus(sessionId, 'stale');
       return null;
     }
@@ -52,48 +102,183 @@ export class BridgeSessionManager {
     return row;
   }
 
-  getOrCreate(sessionId: string): BridgeSession {
+  /**
+   * @param details - Conversation (and thread) the session belongs to
+   */
+  getOrCreate(sessionId: string, details: SessionDetails = {}): BridgeSession {
     const existing = this.get(sessionId);
     if (existing) return existing;
 
     const now = Date.now();
+    const conversationKey = details.conversation_key ?? sessionId;
+    const prefix = `${conversationKey}__`;
+    const name = sessionId.startsWith(prefix) ? sessionId.slice(prefix.length) : null;
     // Use ON CONFLICT to handle stale sessions that still exist in DB
     this.db
       .prepare(
-        `INSERT INTO sessions (id, claude_session_id, last_activity, message_count, status)
-         VALUES (?, NULL, ?, 0, 'active')
+        `INSERT INTO sessions (id, claude_session_id, last_activity, message_count, status, thread_id, conversation_key, name, channel_id, dm_user_id)
+         VALUES (?, NULL, ?, 0, 'active', ?, ?, ?, ?, ?)
          ON CONFLICT(id) DO UPDATE SET
            claude_session_id = NULL,
            last_activity = excluded.last_activity,
            message_count = 0,
-           status = 'active'`
+           status = 'active',
+           thread_id = excluded.thread_id,
+           conversation_key = excluded.conversation_key,
+           name = excluded.name,
+           channel_id = excluded.channel_id,
+           dm_user_id = excluded.dm_user_id,
+           expires_at = NULL,
+           warned_at = NULL`
       )
-      .run(sessionId, now);
+      .run(
+        sessionId,
+        now,
+        details.thread_id ?? null,
+        conversationKey,
+        name,
+        details.channel_id ?? null,
+        details.dm_user_id ?? null
+      );
 
     return {
       id: sessionId,
       claude_session_id: null,
+      thread_id: details.thread_id ?? null,
+      conversation_key: conversationKey,
+      name,
+      channel_id: details.channel_id ?? null,
+      dm_user_id: details.dm_user_id ?? null,
+      expires_at: null,
+      warned_at: null,
       last_activity: now,
       message_count: 0,
       status: 'active',
     };
   }
 
-  update(sessionId: string, claudeSessionId: string): void {
+  /**
+   * Session a conversation's messages currently go to
+   */
+  currentId(conversationKey: string): string {
+    const row = this.db
+      .prepare('SELECT session_id FROM current_sessions WHERE conversation_key = ?')
+      .get(conversationKey) as { session_id: string } | null;
+    return row?.session_id ?? conversationKey;
+  }
+
+  /**
+   * Id of a named session in a conversation ("default" is the unnamed one)
+   */
+  namedId(conversationKey: string, name: string): string {
+    return name.toLowerCase() === DEFAULT_SESSION_NAME ? conversationKey : `${conversationKey}__${name.toLowerCase()}`;
+  }
+
+  /**
+   * Look up a session of a conversation, whatever its status
+   * @returns null if it does not exist or belongs to another conversation
+   */
+  find(conversationKey: string, sessionId: string): BridgeSession | null {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as BridgeSession | null;
+    if (!row || (row.conversation_key ?? row.id) !== conversationKey) return null;
+    return row;
+  }
+
+  /**
+   * Sessions of a conversation that can be switched to, most recent first
+   */
+  list(conversationKey: string): BridgeSession[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM sessions
+         WHERE (conversation_key = ? OR id = ?) AND status != 'stale'
+         ORDER BY last_activity DESC`
+      )
+      .all(conversationKey, conversationKey) as BridgeSession[];
+  }
+
+  /**
+   * Make a session the conversation's current one, parking the previous one
+   * The target must exist (see getOrCreate); it becomes active again.
+   *
+   * @returns Id of the parked session, or null if it already was current
+   */
+  switchTo(conversationKey: string, sessionId: string): string | null {
+    const previous = this.currentId(conversationKey);
+    if (previous === sessionId) return null;
+
+    this.db.transaction(() => {
+      this.updateStatus(previous, 'archived');
+      // The old expiry no longer applies; see setExpiry
+      this.db
+        .prepare("UPDATE sessions SET status = 'active', last_activity = ?, expires_at = NULL, warned_at = NULL WHERE id = ?")
+        .run(Date.now(), sessionId);
+      this.db
+        .prepare(
+          `INSERT INTO current_sessions (conversation_key, session_id) VALUES (?, ?)
+           ON CONFLICT(conversation_key) DO UPDATE SET session_id = excluded.session_id`
+        )
+        .run(conversationKey, sessionId);
+    })();
+
+    return previous;
+  }
+
+  /**
+   * @param expiresAt - Expiry reported by the Executor (Unix ms)
+   */
+  update(sessionId: string, claudeSessionId: string, expiresAt?: number): void {
     const now = Date.now();
     this.db
       .prepare(
         `UPDATE sessions
-         SET claude_session_id = ?, last_activity = ?, message_count = message_count + 1, status = 'active'
+         SET claude_session_id = ?, last_activity = ?, message_count = message_count + 1, status = 'active',
+           expires_at = ?, warned_at = NULL
          WHERE id = ?`
       )
-      .run(claudeSessionId, now, sessionId);
+      .run(claudeSessionId, now, expiresAt ?? null, sessionId);
   }
 
-  touch(sessionId: string): void {
+  /**
+   * @param expiresAt - Expiry reported by the Executor (Unix ms)
+   */
+  touch(sessionId: string, expiresAt?: number): void {
     this.db
-      .prepare('UPDATE sessions SET last_activity = ? WHERE id = ?')
-      .run(Date.now(), sessionId);
+      .prepare('UPDATE sessions SET last_activity = ?, expires_at = ?, warned_at = NULL WHERE id = ?')
+      .run(Date.now(), expiresAt ?? null, sessionId);
+  }
+
+  /**
+   * Start the session's record over after the Executor ended it under its policy
+   */
+  restart(sessionId: string): void {
+    this.db
+      .prepare('UPDATE sessions SET claude_session_id = NULL, message_count = 0 WHERE id = ?')
+      .run(sessionId);
+  }
+
+  /**
+   * Store the expiry the Executor reports for a session (null: none)
+   */
+  setExpiry(sessionId: string, expiresAt: number | null): void {
+    this.db.prepare('UPDATE sessions SET expires_at = ? WHERE id = ?').run(expiresAt, sessionId);
+  }
+
+  /**
+   * Active sessions ending within a window that have not been warned yet
+   */
+  expiringSoon(windowMs: number): BridgeSession[] {
+    const now = Date.now();
+    return this.db
+      .prepare(
+        `SELECT * FROM sessions
+         WHERE status = 'active' AND warned_at IS NULL AND expires_at BETWEEN ? AND ?`
+      )
+      .all(now, now + windowMs) as BridgeSession[];
+  }
+
+  markWarned(sessionId: string): void {
+    this.db.prepare('UPDATE sessions SET warned_at = ? WHERE id = ?').run(Date.now(), sessionId);
   }
 
   updateStatus(sessionId: string, status: 'active' | 'stale' | 'archived'): void {
@@ -112,10 +297,8 @@ export class BridgeSessionManager {
   }
 
   cleanup(): number {
-    const cutoff = Date.now() - SESSION_TIMEOUT_MS;
-
     // First mark as stale
-    this.db.prepare("UPDATE sessions SET status = 'stale' WHERE last_activity < ? AND status = 'active'").run(cutoff);
+    this.db.prepare("UPDATE sessions SET status = 'stale' WHERE expires_at < ? AND status = 'active'").run(Date.now());
 
     // Delete sessions stale for more than 24 hours
     const archiveCutoff = Date.now() - 24 * 60 * 60 * 1000;
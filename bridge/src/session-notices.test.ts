@@ -0,0 +1,37 @@
+import { describe, test, expect } from 'bun:test';
+import { endedNotice, limitNotice, expiryNotice, overflowNotice, contextWarningNotice } from './session-notices';
+
+describe('session notices', () => {
+  test('explains why the previous session ended', () => {
+    expect(endedNotice('idle')).toBe(
+      'Your previous session ended because it was inactive for too long, so this message started a new one.'
+    );
+    expect(endedNotice('max_messages')).toContain('message limit');
+  });
+
+  test('warns about the message limit', () => {
+    expect(limitNotice({ reason: 'max_messages', remaining: 1 })).toContain('one more message');
+    expect(limitNotice({ reason: 'max_messages', remaining: 0 })).toContain('next message starts a new session');
+    expect(limitNotice({ reason: 'max_tokens', remaining: 500 })).toContain('context limit');
+  });
+
+  test('rounds the time left to whole minutes', () => {
+    const now = Date.now();
+    expect(expiryNotice(now + 5 * 60 * 1000, now)).toStartWith('This session ends in about 5 minutes;');
+    expect(expiryNotice(now + 10 * 1000, now)).toStartWith('This session ends in about 1 minute;');
+  });
+
+  test('says what happens when the context fills up', () => {
+    expect(contextWarningNotice({ percent: 82, policy: 'summarize' })).toBe(
+      'This conversation is using 82% of its context limit. When it is full, the conversation so far will be summarized and continued in a fresh session.'
+    );
+    expect(contextWarningNotice({ percent: 90, policy: 'reject' })).toContain('@claude reset');
+  });
+
+  test('explains what was done with a message past the context limit', () => {
+    const overflow = { policy: 'confirm' as const, tokens: 181_000, limit: 180_000 };
+    expect(overflowNotice({ ...overflow, outcome: 'awaiting_confirmation' })).toContain('Reply @claude confirm');
+    expect(overflowNotice({ ...overflow, outcome: 'rolled_over' })).toContain('summarized and continued in a fresh session');
+    expect(overflowNotice({ ...overflow, outcome: 'failed' })).toBeNull();
+  });
+});
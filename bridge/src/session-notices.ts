@@ -0,0 +1,73 @@
+/**
+ * Session Notices - Chat messages about a session ending or filling up
+ *
+ * The Executor reports why a session ended, when one is close to its
+ * message or context limit, and what it did with a message that would have
+ * overflowed the context; these turn the reports into text for the chat.
+ */
+
+import type { ContextOverflow, ContextOverflowPolicy, ContextWarning, SessionEndReason, SessionWarning } from './types';
+
+const AT_CONTEXT_LIMIT: Record<ContextOverflowPolicy, string> = {
+  summarize: 'the conversation so far will be summarized and continued in a fresh session',
+  reject: 'longer messages will be turned away until you start a new session with @claude reset',
+  confirm: 'you will be asked before the conversation is summarized and continued in a fresh session',
+};
+
+const END_REASONS: Record<SessionEndReason, string> = {
+  idle: 'it was inactive for too long',
+  max_age: 'it reached its maximum age',
+  max_messages: 'it reached its message limit',
+  max_tokens: 'its conversation grew too long',
+};
+
+/**
+ * Notice that the previous session ended and this message started a new one
+ */
+export function endedNotice(reason: SessionEndReason): string {
+  return `Your previous session ended because ${END_REASONS[reason] ?? 'of the session policy'}, so this message started a new one.`;
+}
+
+/**
+ * Notice that the session is close to its message or context limit
+ */
+export function limitNotice(warning: SessionWarning): string {
+  if (warning.reason === 'max_messages') {
+    return warning.remaining === 0
+      ? 'This session has reached its message limit. Your next message starts a new session.'
+      : 'This session can take one more message before a new one starts.';
+  }
+  return 'This session is close to its context limit and will start over soon.';
+}
+
+/**
+ * Notice that the context has crossed the warning threshold
+ */
+export function contextWarningNotice(warning: ContextWarning): string {
+  return `This conversation is using ${warning.percent}% of its context limit. When it is full, ${AT_CONTEXT_LIMIT[warning.policy]}.`;
+}
+
+/**
+ * Notice for a message that would have taken the context past its limit
+ * @returns null if there is nothing to tell beyond the reply (the message failed)
+ */
+export function overflowNotice(overflow: ContextOverflow): string | null {
+  switch (overflow.outcome) {
+    case 'rolled_over':
+      return 'This conversation reached its context limit, so it was summarized and continued in a fresh session.';
+    case 'rejected':
+      return 'This message would take the conversation past its context limit, so it was not sent. Use @claude reset to start a new session, or send a shorter message.';
+    case 'awaiting_confirmation':
+      return 'This message would take the conversation past its context limit. Reply @claude confirm to summarize the conversation so far and continue with your message in a fresh session, or @claude reset to start over.';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Notice that a session is about to end (idle timeout or maximum age)
+ */
+export function expiryNotice(expiresAt: number, now: number = Date.now()): string {
+  const minutes = Math.max(1, Math.round((expiresAt - now) / 60000));
+  return `This session ends in about ${minutes} minute${minutes === 1 ? '' : 's'}; messages after that start a new one.`;
+}
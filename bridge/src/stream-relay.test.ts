@@ -0,0 +1,152 @@
+import { describe, test, expect } from 'bun:test';
+import { StreamRelay } from './stream-relay';
+
+function createRelay(showToolSteps = true): { relay: StreamRelay; sent: string[] } {
+  const sent: string[] = [];
+  const relay = new StreamRelay(async (text) => {
+    sent.push(text);
+  }, { showToolSteps });
+  return { relay, sent };
+}
+
+const ok = (result: string) => ({ success: true, session_id: '1_2', result });
+
+describe('StreamRelay', () => {
+  test('posts text blocks and tool steps in order', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Let me check the logs.' });
+    relay.handle({ type: 'tool', name: 'Grep' });
+    relay.handle({ type: 'text', text: 'Found 3 errors.' });
+    await relay.finish(ok('Found 3 errors.'));
+
+    expect(sent).toEqual(['Let me check the logs.', '[Using Grep]', 'Found 3 errors.']);
+  });
+
+  test('posts queue position before output', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'queued', position: 3 });
+    relay.handle({ type: 'text', text: 'Answer' });
+    await relay.finish(ok('Answer'));
+
+    expect(sent).toEqual(['You are #3 in line.', 'Answer']);
+  });
+
+  test('posts thinking indicator when started immediately', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'queued', position: 0 });
+    await relay.finish(ok('Answer'));
+
+    expect(sent).toEqual(['Thinking...', 'Answer']);
+  });
+
+  test('hides tool steps when disabled', async () => {
+    const { relay, sent } = createRelay(false);
+    relay.handle({ type: 'tool', name: 'Read' });
+    relay.handle({ type: 'text', text: 'Done.' });
+    await relay.finish(ok('Done.'));
+
+    expect(sent).toEqual(['Done.']);
+  });
+
+  test('posts full result when nothing was streamed', async () => {
+    const { relay, sent } = createRelay();
+    await relay.finish(ok('Complete answer'));
+
+    expect(sent).toEqual(['Complete answer']);
+  });
+
+  test('posts only the unstreamed suffix of the result', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Part one' });
+    await relay.finish(ok('Part one\n\nPart two'));
+
+    expect(sent).toEqual(['Part one', 'Part two']);
+  });
+
+  test('does not repost multi-chunk results already streamed', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Chunk one reply' });
+    relay.handle({ type: 'text', text: 'Chunk two reply' });
+    await relay.finish(ok('Chunk one reply\n---\nChunk two reply'));
+
+    expect(sent).toEqual(['Chunk one reply', 'Chunk two reply']);
+  });
+
+  test('keeps horizontal rules Claude wrote in the remainder', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Chunk one reply' });
+    await relay.finish(ok('Chunk one reply\n---\nPart A\n---\nPart B'));
+
+    expect(sent).toEqual(['Chunk one reply', 'Part A\n---\nPart B']);
+  });
+
+  test('posts Claude\'s text through sendText and status messages through send', async () => {
+    const sent: string[] = [];
+    const texts: string[] = [];
+    const relay = new StreamRelay(async (text) => {
+      sent.push(text);
+    }, {
+      sendText: async (text) => {
+        texts.push(text);
+      },
+    });
+    relay.handle({ type: 'queued', position: 0 });
+    relay.handle({ type: 'text', text: 'First block' });
+    relay.handle({ type: 'tool', name: 'Grep' });
+    await relay.finish(ok('First block\n\nAnd the rest'));
+
+    expect(sent).toEqual(['Thinking...', '[Using Grep]']);
+    expect(texts).toEqual(['First block', 'And the rest']);
+  });
+
+  test('posts errors after streamed text', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Starting' });
+    await relay.finish({ success: false, session_id: '1_2', error: 'Execution timeout (5 minutes)' });
+
+    expect(sent).toEqual(['Starting', 'Error: Execution timeout (5 minutes)']);
+  });
+
+  test('explains results turned away by a quota or the context limit', async () => {
+    const { relay, sent } = createRelay();
+    await relay.finish({
+      success: false,
+      session_id: '1_2',
+      error: 'Context limit reached',
+      context_overflow: { policy: 'reject', outcome: 'rejected', tokens: 185_000, limit: 180_000 },
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toStartWith('This message would take the conversation past its context limit, so it was not sent.');
+  });
+
+  test('posts nothing more for cancelled results', async () => {
+    const { relay, sent } = createRelay();
+    relay.handle({ type: 'text', text: 'Starting' });
+    await relay.finish({ success: false, session_id: '1_2', error: 'Cancelled by user', cancelled: true });
+
+    expect(sent).toEqual(['Starting']);
+  });
+
+  test('posts nothing for coalesced results', async () => {
+    const { relay, sent } = createRelay();
+    await relay.finish({ ...ok('Answer to both'), coalesced: true });
+
+    expect(sent).toEqual([]);
+  });
+
+  test('keeps relaying after a send failure', async () => {
+    const sent: string[] = [];
+    let calls = 0;
+    const relay = new StreamRelay(async (text) => {
+      calls++;
+      if (calls === 1) throw new Error('network down');
+      sent.push(text);
+    });
+    relay.handle({ type: 'text', text: 'first' });
+    relay.handle({ type: 'text', text: 'second' });
+    await relay.finish(ok('second'));
+
+    expect(sent).toEqual(['second']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Stream Relay - Posts streamed Claude output to Synology Chat as it arrives
+ *
+ * Each completed text block is posted immediately (and optionally a short
+ * note for each tool step). When the final result arrives, only the part
+ * that was not already posted is sent, so nothing is duplicated or lost.
+ */
+
+import { logger } from './logger';
+import { quotaNotice } from './quota-notices';
+import { overflowNotice } from './session-notices';
+import type { ExecutorResponse, ExecutorStreamEvent } from './types';
+
+/**
+ * Message for a result that failed or was turned away
+ */
+export function errorNotice(result: ExecutorResponse): string {
+  if (result.quota_exceeded) return quotaNotice(result.quota_exceeded);
+  const overflow = result.context_overflow && overflowNotice(result.context_overflow);
+  return overflow || `Error: ${result.error || 'Something went wrong'}`;
+}
+
+/**
+ * Processing indicator for a job's place in the Executor queue
+ */
+export function queueStatusMessage(position: number | undefined): string {
+  return position && position > 0 ? `You are #${position} in line.` : 'Thinking...';
+}
+
+// The Executor joins the replies to a chunked prompt with "\n---\n"
+const SEPARATOR_AFTER = /^\s*\n---\n/;
+const SEPARATOR_BEFORE = /\n---\n\s*$/;
+
+export interface StreamRelayOptions {
+  showToolSteps?: boolean; // default: true
+  sendText?: (text: string) => Promise<void>; // Posts Claude's text, e.g. long replies as a file (default: send)
+}
+
+export class StreamRelay {
+  private posted: string[] = [];
+  private sending: Promise<void> = Promise.resolve();
+  private showToolSteps: boolean;
+  private sendText: (text: string) => Promise<void>;
+
+  constructor(
+    private send: (text: string) => Promise<void>,
+    options: StreamRelayOptions = {}
+  ) {
+    this.showToolSteps = options.showToolSteps ?? true;
+    this.sendText = options.sendText ?? send;
+  }
+
+  /**
+   * Handle a progress event from the Executor
+   */
+  handle(event: ExecutorStreamEvent): void {
+    if (event.type === 'queued') {
+      this.enqueue(queueStatusMessage(event.position));
+    } else if (event.type === 'text') {
+      const text = event.text.trim();
+      if (!text) return;
+      this.posted.push(text);
+      this.enqueue(text, this.sendText);
+    } else if (event.type === 'tool' && this.showToolSteps) {
+      this.enqueue(`[Using ${event.name}]`);
+    }
+  }
+
+  /**
+   * Reconcile the final result with what was streamed and post the remainder
+   */
+  async finish(result: ExecutorResponse): Promise<void> {
+    // A cancel command already posted its own confirmation, and a coalesced
+    // message's answer is posted by the request it was folded into
+    if (result.cancelled || result.coalesced) {
+      await this.sending;
+      return;
+    }
+
+    if (result.success) {
+      const remainder = this.remainder(result.result || '');
+      if (remainder) this.enqueue(remainder, this.sendText);
+    } else {
+      this.enqueue(errorNotice(result));
+    }
+
+    await this.sending;
+  }
+
+  /**
+   * Number of text blocks posted so far
+   */
+  get postedCount(): number {
+    return this.posted.length;
+  }
+
+  /**
+   * Work out which part of the final text has not been posted yet
+   */
+  remainder(finalText: string): string {
+    const final = finalText.trim();
+    if (!final) return '';
+
+    const streamed = this.posted.join('\n\n');
+    if (!streamed) return final;
+
+    // Usual case: the result repeats the last text block
+    if (streamed.includes(final)) return '';
+
+    // Result extends what was streamed
+    if (final.startsWith(streamed)) {
+      return final.slice(streamed.length).replace(SEPARATOR_AFTER, '').trim();
+    }
+
+    // Otherwise drop every block already posted verbatim, along with the
+    // chunk separator next to it; a --- line Claude wrote itself is kept
+    let rest = final;
+    for (const block of this.posted) {
+      const at = rest.indexOf(block);
+      if (at === -1) continue;
+
+      let start = at;
+      let end = at + block.length;
+      const after = rest.slice(end).match(SEPARATOR_AFTER);
+      const before = rest.slice(0, start).match(SEPARATOR_BEFORE);
+      if (after) end += after[0].length;
+      else if (before) start -= before[0].length;
+      rest = rest.slice(0, start) + rest.slice(end);
+    }
+
+    return rest.replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  private enqueue(text: string, send = this.send): void {
+    this.sending = this.sending
+      .then(() => send(text))
+      .catch((error) => {
+        logger.error('Failed to relay streamed message', { error });
+      });
+  }
+}
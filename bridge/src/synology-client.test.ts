@@ -1,5 +1,7 @@
 import { describe, test, expect } from 'bun:test';
 import { SynologyClient } from './synology-client';
+import { ChannelRegistry } from './channel-registry';
+import { synologySendFailuresTotal } from './metrics';
 
 // Test helper to access private chunkMessage method
 function chunkMessage(client: SynologyClient, text: string): string[] {
@@ -301,4 +303,155 @@ describe('SynologyClient', () => {
       });
     });
   });
+
+  describe('sendMessage - channel routing', () => {
+    test('posts each reply to its channel and queues channels separately', async () => {
+      const received: string[] = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const form = await req.formData();
+          const { text } = JSON.parse(String(form.get('payload')));
+          received.push(`${new URL(req.url).pathname}:${text}`);
+          return Response.json({ success: true });
+        },
+      });
+
+      try {
+        const base = `http://127.0.0.1:${server.port}`;
+        const registry = new ChannelRegistry({ webhook_url: `${base}/default` });
+        registry.configure({
+          channels: {
+            '7': { webhook_url: `${base}/ops` },
+            '12': { webhook_url: `${base}/dev` },
+          },
+        });
+        const client = new SynologyClient(registry);
+
+        await Promise.all([
+          client.sendMessage('ops one', '7').then(() => client.sendMessage('ops two', '7')),
+          client.sendMessage('dev one', '12'),
+          client.sendMessage('other', '99'),
+        ]);
+
+        expect(received).toHaveLength(4);
+        // The second ops message waits on the ops rate limit, not on other channels
+        expect(received[received.length - 1]).toBe('/ops:ops two');
+        expect(received).toContain('/dev:dev one');
+        expect(received).toContain('/default:other');
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  describe('send failures', () => {
+    test('counts messages Synology rejects without retrying them', async () => {
+      let requests = 0;
+      const server = Bun.serve({
+        port: 0,
+        fetch() {
+          requests++;
+          return new Response('busy', { status: 503 });
+        },
+      });
+
+      try {
+        const before = synologySendFailuresTotal.get({ reason: 'api' });
+        const client = new SynologyClient(`http://127.0.0.1:${server.port}/webhook`);
+        await client.sendMessage('lost');
+
+        expect(requests).toBe(1);
+        expect(synologySendFailuresTotal.get({ reason: 'api' })).toBe(before + 1);
+      } finally {
+        server.stop(true);
+      }
+    });
+  });
+
+  describe('sendDirectMessage - chatbot', () => {
+    test('addresses the reply to the user through the bot URL', async () => {
+      const received: Array<{ path: string; payload: { text: string; user_ids?: number[] } }> = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const form = await req.formData();
+          received.push({ path: new URL(req.url).pathname, payload: JSON.parse(String(form.get('payload'))) });
+          return Response.json({ success: true });
+        },
+      });
+
+      try {
+        const base = `http://127.0.0.1:${server.port}`;
+        const client = new SynologyClient(`${base}/webhook`, `${base}/bot`);
+
+        await client.sendDirectMessage('hello there', '5');
+
+        expect(received).toEqual([{ path: '/bot', payload: { text: 'hello there', user_ids: [5] } }]);
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test('attaches a file URL without chunking the caption', async () => {
+      const received: Array<Record<string, unknown>> = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const form = await req.formData();
+          received.push(JSON.parse(String(form.get('payload'))));
+          return Response.json({ success: true });
+        },
+      });
+
+      try {
+        const base = `http://127.0.0.1:${server.port}`;
+        const client = new SynologyClient(`${base}/webhook`, `${base}/bot`);
+
+        await client.sendDirectMessage('report.md', '5', { fileUrl: 'https://bridge/files/abc/report.md' });
+        await client.sendMessage('chart.png', undefined, { fileUrl: 'https://bridge/files/def/chart.png' });
+
+        expect(received).toEqual([
+          { text: 'report.md', file_url: 'https://bridge/files/abc/report.md', user_ids: [5] },
+          { text: 'chart.png', file_url: 'https://bridge/files/def/chart.png' },
+        ]);
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test('replies into a thread', async () => {
+      const received: Array<Record<string, unknown>> = [];
+      const server = Bun.serve({
+        port: 0,
+        async fetch(req) {
+          const form = await req.formData();
+          received.push(JSON.parse(String(form.get('payload'))));
+          return Response.json({ success: true });
+        },
+      });
+
+      try {
+        const base = `http://127.0.0.1:${server.port}`;
+        const client = new SynologyClient(`${base}/webhook`, `${base}/bot`);
+
+        await client.sendMessage('in thread', '7', { threadId: '1234' });
+        await client.sendDirectMessage('dm thread', '5', { threadId: '99' });
+
+        expect(received).toEqual([
+          { text: 'in thread', thread_id: 1234 },
+          { text: 'dm thread', thread_id: 99, user_ids: [5] },
+        ]);
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test('drops direct messages when no bot is configured', async () => {
+      const client = new SynologyClient(mockWebhookUrl);
+
+      expect(client.hasBot).toBe(false);
+      await client.sendDirectMessage('nobody listens', '5'); // Must not throw
+    });
+  });
 });
@@ -1,66 +1,156 @@
 /**
- * Synology Client - Send messages via Incoming Webhook
+ * Synology Client - Send messages via Incoming Webhook or Chatbot API
+ *
+ * Channel replies are routed to the originating channel's incoming webhook;
+ * direct messages go through the chatbot API addressed with `user_ids`.
+ * Files are posted as a `file_url` Synology downloads itself, and replies to
+ * a thread carry its `thread_id`.
+ * Each destination has its own outgoing queue and rate limit, so a long
+ * reply to one channel or user does not hold up the others.
  */
 
 import { rateLimiter } from './rate-limiter';
+import { ChannelRegistry } from './channel-registry';
+import { synologySendFailuresTotal, synologySendRetriesTotal } from './metrics';
+import { logger } from './logger';
 
 const MAX_MESSAGE_LENGTH = 3500;
 
+interface Destination {
+  url: string;
+  userId?: number; // Chatbot API recipient
+}
+
+export interface SendOptions {
+  fileUrl?: string; // File for Synology to fetch and attach (text is sent unchunked as its caption)
+  threadId?: string; // Reply inside this thread
+}
+
+interface OutgoingMessage extends SendOptions {
+  text: string;
+}
+
+interface OutgoingQueue {
+  destination: Destination;
+  messages: OutgoingMessage[];
+  processing: boolean;
+}
+
 export class SynologyClient {
-  private webhookUrl: string;
-  private messageQueue: string[] = [];
-  private processing = false;
+  private channels: ChannelRegistry;
+  private queues: Map<string, OutgoingQueue> = new Map();
 
-  constructor(webhookUrl: string) {
-    this.webhookUrl = webhookUrl;
+  /**
+   * @param target - Channel registry, or a single webhook URL used for every channel
+   * @param botUrl - Chatbot API URL (with the bot token) for direct messages
+   */
+  constructor(
+    target: string | ChannelRegistry,
+    private botUrl?: string
+  ) {
+    this.channels = typeof target === 'string' ? new ChannelRegistry({ webhook_url: target }) : target;
   }
 
   /**
    * Send a message to Synology Chat
    * Handles chunking and rate limiting automatically
+   *
+   * @param channelId - Channel to reply in (default: the fallback webhook)
+   */
+  async sendMessage(text: string, channelId?: string, options: SendOptions = {}): Promise<void> {
+    const route = this.channels.route(channelId);
+    if (!route) {
+      logger.error('No webhook configured for channel, dropping message', { channel_id: channelId });
+      return;
+    }
+
+    await this.enqueue({ url: route.webhook_url }, text, options);
+  }
+
+  /**
+   * Send a direct message to a user through the chatbot
    */
-  async sendMessage(text: string): Promise<void> {
-    const chunks = this.chunkMessage(text);
+  async sendDirectMessage(text: string, userId: string, options: SendOptions = {}): Promise<void> {
+    if (!this.botUrl) {
+      logger.error('No bot configured, dropping direct message', { user_id: userId });
+      return;
+    }
+
+    await this.enqueue({ url: this.botUrl, userId: Number(userId) }, text, options);
+  }
 
-    for (const chunk of chunks) {
-      this.messageQueue.push(chunk);
+  get hasBot(): boolean {
+    return !!this.botUrl;
+  }
+
+  /**
+   * Number of messages a reply would be split into
+   */
+  countChunks(text: string): number {
+    return this.chunkMessage(text).length;
+  }
+
+  private async enqueue(destination: Destination, text: string, options: SendOptions): Promise<void> {
+    const key = destination.userId === undefined ? destination.url : `${destination.url}#${destination.userId}`;
+
+    let queue = this.queues.get(key);
+    if (!queue) {
+      queue = { destination, messages: [], processing: false };
+      this.queues.set(key, queue);
     }
 
-    if (!this.processing) {
-      await this.processQueue();
+    if (options.fileUrl) {
+      queue.messages.push({ ...options, text });
+    } else {
+      for (const chunk of this.chunkMessage(text)) {
+        queue.messages.push({ ...options, text: chunk });
+      }
+    }
+
+    if (!queue.processing) {
+      await this.processQueue(key, queue);
     }
   }
 
-  private async processQueue(): Promise<void> {
-    this.processing = true;
+  private async processQueue(key: string, queue: OutgoingQueue): Promise<void> {
+    queue.processing = true;
+    const { url, userId } = queue.destination;
 
-    while (this.messageQueue.length > 0) {
-      const message = this.messageQueue.shift()!;
+    while (queue.messages.length > 0) {
+      const message = queue.messages.shift()!;
 
       // Rate limit: 0.5s between messages
-      await rateLimiter.throttle('synology_outgoing', 600); // 600ms to be safe
+      await rateLimiter.throttle(`synology_outgoing:${key}`, 600); // 600ms to be safe
+
+      const payload: Record<string, unknown> = { text: message.text };
+      if (message.fileUrl) payload.file_url = message.fileUrl;
+      if (message.threadId) payload.thread_id = Number(message.threadId);
+      if (userId !== undefined) payload.user_ids = [userId];
 
       try {
-        const response = await fetch(this.webhookUrl, {
+        const response = await fetch(url, {
           method: 'POST',
           headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-          body: `payload=${encodeURIComponent(JSON.stringify({ text: message }))}`,
+          body: `payload=${encodeURIComponent(JSON.stringify(payload))}`,
         });
 
         if (!response.ok) {
           const errorText = await response.text();
-          console.error(`Synology API error: ${response.status} - ${errorText}`);
+          logger.error('Synology API error', { status: response.status, response: errorText });
+          synologySendFailuresTotal.inc({ reason: 'api' });
           // Don't re-queue on API errors, just log
         }
       } catch (error) {
-        console.error('Failed to send message:', error);
+        logger.error('Failed to send message', { error });
+        synologySendFailuresTotal.inc({ reason: 'network' });
         // Re-queue on network failure
-        this.messageQueue.unshift(message);
+        queue.messages.unshift(message);
+        synologySendRetriesTotal.inc();
         await new Promise((r) => setTimeout(r, 2000)); // Wait 2s before retry
       }
     }
 
-    this.processing = false;
+    queue.processing = false;
   }
 
   /**
@@ -83,9 +173,10 @@ export class SynologyClient {
         const codeBlock = codeBlocks[parseInt(idx)];
         // Warn if code block is large but keep it intact
         if (codeBlock.length > MAX_MESSAGE_LENGTH) {
-          console.warn(
-            `Code block ${idx} is ${codeBlock.length} chars (exceeds ${MAX_MESSAGE_LENGTH} limit but kept intact)`
-          );
+          logger.warn('Code block exceeds the message limit, keeping it intact', {
+            chars: codeBlock.length,
+            max_message_length: MAX_MESSAGE_LENGTH,
+          });
         }
         return codeBlock;
       });
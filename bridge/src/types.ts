@@ -9,17 +9,54 @@ export interface SynologyWebhookPayload {
   user_name: string;
   channel_id: string | number;
   channel_name?: string;
+  post_id?: string | number;
+  thread_id?: string | number; // Parent post when the message is a thread reply
   timestamp?: number;
   token?: string;
+  file_url?: string; // Attachment posted with the message
 }
 
+// Synology Chat Chatbot Payload (direct message to the bot)
+export interface SynologyBotPayload {
+  text: string;
+  user_id: string | number;
+  username: string;
+  post_id?: string | number;
+  thread_id?: string | number;
+  timestamp?: number;
+  token?: string;
+  file_url?: string;
+}
+
+// Webhook or bot message, normalized
+export interface IncomingMessage {
+  source: 'channel' | 'bot';
+  user_id: string;
+  user_name: string;
+  channel_id?: string; // Channel messages only
+  thread_id?: string; // Set when the message is a reply in a thread
+  text: string;
+  token?: string;
+  file_urls: string[]; // Attachments posted with the message
+}
+
+// personal: one session per user in a channel; shared: one session per channel
+export type SessionMode = 'personal' | 'shared';
+
 // Session stored in SQLite
 export interface BridgeSession {
-  id: string; // channel_id + "_" + user_id
+  id: string; // channel_id + "_" + user_id (or "_shared"), or "dm_" + user_id for bot direct messages; + "_t" + thread_id in a thread
   claude_session_id: string | null;
+  thread_id: string | null;
+  conversation_key: string | null; // Conversation the session belongs to (null: its own id, for older rows)
+  name: string | null; // Set for named sessions
+  channel_id: string | null; // Reply target for expiry warnings (dm_user_id for direct messages)
+  dm_user_id: string | null;
+  expires_at: number | null; // Unix ms, as reported by the Executor (null: no expiry)
+  warned_at: number | null; // When the expiry warning was posted
   last_activity: number; // Unix timestamp ms
   message_count: number;
-  status: 'active' | 'stale' | 'archived';
+  status: 'active' | 'stale' | 'archived'; // archived: parked by a session switch, never expires
 }
 
 // Request to Executor
@@ -28,6 +65,21 @@ export interface ExecutorRequest {
   claude_session_id?: string;
   prompt: string;
   user_name: string;
+  callback_url?: string;
+  channel_id?: string; // Used by the Executor to pick a permission profile
+  user_id?: string;
+  thread_id?: string;
+  shared?: boolean; // Channel-wide session; the Executor prefixes the prompt with the speaker's name
+  attachments?: ExecutorAttachment[];
+  correlation_id?: string; // Sent as the X-Correlation-Id header; ties log lines for one chat message together
+  confirm_overflow?: boolean; // @claude confirm: run the message held back at the context limit
+}
+
+// File forwarded to the Executor
+export interface ExecutorAttachment {
+  name: string;
+  content_type?: string;
+  data: string; // base64
 }
 
 // Response from Executor
@@ -37,4 +89,151 @@ export interface ExecutorResponse {
   claude_session_id?: string;
   result?: string;
   error?: string;
+  job_id?: string;
+  cancelled?: boolean; // Stopped via @claude cancel
+  coalesced?: boolean; // Answered together with an earlier message
+  files?: ExecutorFile[]; // Files Claude created for the user
+  session_ended?: SessionEndReason; // The previous session had ended; a new one was started
+  session_warning?: SessionWarning; // Close to the session's message or context limit
+  session_expires_at?: string; // When the Executor ends the session unless it is used again (absent: no time limit)
+  correlation_id?: string; // Echoed from the request
+  quota_exceeded?: QuotaUsage; // Turned away: the user or channel used up this quota
+  context_overflow?: ContextOverflow; // The message would have overflowed the context; what was done
+  context_warning?: ContextWarning; // The context just crossed the warning threshold
+}
+
+export type ContextOverflowPolicy = 'summarize' | 'reject' | 'confirm';
+
+export interface ContextOverflow {
+  policy: ContextOverflowPolicy;
+  outcome: 'rolled_over' | 'rejected' | 'awaiting_confirmation' | 'declined' | 'failed';
+  tokens: number; // Estimated context including the message
+  limit: number;
+}
+
+export interface ContextWarning {
+  percent: number; // Share of the context limit in use
+  policy: ContextOverflowPolicy; // What happens when the limit is reached
+}
+
+export type SessionEndReason = 'idle' | 'max_age' | 'max_messages' | 'max_tokens';
+
+export interface SessionWarning {
+  reason: 'max_messages' | 'max_tokens';
+  remaining: number; // Messages, or estimated tokens, left
+}
+
+// File in a session's output directory on the Executor
+export interface ExecutorFile {
+  name: string;
+  size: number;
+}
+
+// Jobs stopped by a cancel request
+export interface CancelResult {
+  pending: number;
+  running: number;
+}
+
+// Session state held by the Executor (subset used by the bridge)
+export interface ExecutorSession {
+  session_id: string;
+  message_count: number;
+  project?: string;
+  expires_at?: string; // When the session ends unless used again
+  context_state?: { estimated_tokens: number; token_source?: 'reported' | 'estimated' };
+  context_usage_percent?: number; // Share of the context hard limit in use
+}
+
+// Usage totals from the Executor's GET /usage (only the overall totals are used)
+export interface UsageTotals {
+  executions: number;
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+  duration_ms: number;
+}
+
+export interface UsageQuery {
+  from?: string; // YYYY-MM-DD
+  user_id?: string;
+  channel_id?: string;
+  session_id?: string;
+}
+
+// Quota from the Executor's GET /quota and how much of it is used
+export interface QuotaUsage {
+  scope: 'user' | 'channel';
+  id: string;
+  period: 'daily' | 'monthly';
+  metric: 'executions' | 'seconds' | 'cost_usd';
+  used: number;
+  limit: number;
+  resets_at: string; // ISO timestamp
+}
+
+// Quotas lifted by an admin
+export interface QuotaOverride {
+  scope: 'user' | 'channel';
+  id: string;
+  until: string; // ISO timestamp
+  by?: string;
+}
+
+export interface QuotaStatus {
+  quotas: QuotaUsage[];
+  overrides: QuotaOverride[];
+}
+
+// Project available on the Executor
+export interface ProjectInfo {
+  name: string;
+  path: string;
+  description?: string;
+}
+
+export interface ProjectList {
+  projects: ProjectInfo[];
+  channel_default: string | null;
+}
+
+// Progress event streamed by the Executor while Claude runs
+export type ExecutorStreamEvent =
+  | { type: 'queued'; position: number } // 0 = running now, n = nth in line
+  | { type: 'text'; text: string }
+  | { type: 'tool'; name: string; input?: unknown };
+
+// Result of submitting an asynchronous job to the Executor
+export interface ExecutorSubmission {
+  accepted: boolean;
+  job_id?: string;
+  queue_position?: number;
+  error?: string;
+  rejected?: ExecutorResponse; // Turned away by a quota (429); no callback follows
+}
+
+// How the bridge waits for an Executor result
+export type PendingJobMode = 'blocking' | 'stream' | 'callback';
+
+// Bridge-side record of a request awaiting its result
+export interface PendingJob {
+  ref: string; // Bridge-generated reference (carried in the callback URL in callback mode)
+  job_id?: string; // Executor job id, known once the job is accepted
+  session_id: string;
+  channel_id?: string; // Channel the reply goes to
+  dm_user_id?: string; // Set for bot direct messages; the reply goes to this user
+  thread_id?: string; // Thread the reply goes into
+  user_name: string;
+  mode: PendingJobMode;
+  prompt: string; // Quoted back to the user if the request is interrupted
+  created_at: number; // Unix timestamp ms
+}
+
+// Executor's record of a job (GET /jobs/:id)
+export interface ExecutorJob {
+  id: string;
+  session_id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  response?: ExecutorResponse; // Set once the job has finished
+  queue_position: number; // 0 = running, n = nth in line, -1 = not in the queue
 }
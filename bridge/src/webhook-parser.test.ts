@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'bun:test';
+import { normalizePayload, parseWebhook, sessionIdFor } from './webhook-parser';
+
+describe('normalizePayload', () => {
+  test('recognizes a channel outgoing webhook', () => {
+    const message = normalizePayload({
+      user_id: 42,
+      channel_id: 7,
+      user_name: 'alice',
+      text: ' @claude hi ',
+      token: 'abc',
+    });
+
+    expect(message).toEqual({
+      source: 'channel',
+      user_id: '42',
+      channel_id: '7',
+      user_name: 'alice',
+      text: '@claude hi',
+      token: 'abc',
+      file_urls: [],
+    });
+  });
+
+  test('recognizes a chatbot direct message', () => {
+    const message = normalizePayload({ user_id: 5, username: 'bob', text: 'hello', token: 'bot-token' });
+
+    expect(message).toEqual({
+      source: 'bot',
+      user_id: '5',
+      user_name: 'bob',
+      text: 'hello',
+      token: 'bot-token',
+      file_urls: [],
+    });
+  });
+
+  test('collects an attached file URL', () => {
+    const message = normalizePayload({ user_id: 5, username: 'bob', text: '', file_url: 'https://nas/file/1' });
+
+    expect(message?.file_urls).toEqual(['https://nas/file/1']);
+  });
+
+  test('keeps the thread of a thread reply', () => {
+    expect(normalizePayload({ user_id: 42, channel_id: 7, text: 'hi', thread_id: 1234 })?.thread_id).toBe('1234');
+    expect(normalizePayload({ user_id: 42, channel_id: 7, text: 'hi', thread_id: 0 })?.thread_id).toBeUndefined();
+  });
+
+  test('returns null without a user', () => {
+    expect(normalizePayload({ text: 'hello' })).toBeNull();
+  });
+});
+
+describe('sessionIdFor', () => {
+  test('keys sessions by channel and user, DM user, and thread', () => {
+    const channel = normalizePayload({ user_id: 42, channel_id: 7, text: 'hi' })!;
+    const dm = normalizePayload({ user_id: 5, username: 'bob', text: 'hi' })!;
+
+    expect(sessionIdFor(channel)).toBe('7_42');
+    expect(sessionIdFor(dm)).toBe('dm_5');
+    expect(sessionIdFor({ ...channel, thread_id: '1234' })).toBe('7_42_t1234');
+    expect(sessionIdFor({ ...dm, thread_id: '99' })).toBe('dm_5_t99');
+  });
+
+  test('shares one session per channel in shared mode', () => {
+    const channel = normalizePayload({ user_id: 42, channel_id: 7, text: 'hi' })!;
+    const dm = normalizePayload({ user_id: 5, username: 'bob', text: 'hi' })!;
+
+    expect(sessionIdFor(channel, 'shared')).toBe('7_shared');
+    expect(sessionIdFor({ ...channel, thread_id: '1234' }, 'shared')).toBe('7_shared_t1234');
+    expect(sessionIdFor(dm, 'shared')).toBe('dm_5'); // DMs are always personal
+  });
+});
+
+describe('parseWebhook', () => {
+  test('parses form fields', async () => {
+    const req = new Request('http://bridge/webhook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ user_id: '5', username: 'bob', text: 'hi', token: 't' }).toString(),
+    });
+
+    expect(await parseWebhook(req)).toMatchObject({ source: 'bot', user_id: '5', user_name: 'bob', text: 'hi' });
+  });
+
+  test('unwraps a payload form field', async () => {
+    const payload = JSON.stringify({ user_id: 42, channel_id: 7, user_name: 'alice', text: 'hi' });
+    const req = new Request('http://bridge/webhook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `payload=${encodeURIComponent(payload)}`,
+    });
+
+    expect(await parseWebhook(req)).toMatchObject({ source: 'channel', channel_id: '7', user_name: 'alice' });
+  });
+
+  test('rejects a payload without a user', async () => {
+    const req = new Request('http://bridge/webhook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: 'hi' }),
+    });
+
+    await expect(parseWebhook(req)).rejects.toThrow('no user_id');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Webhook Parser - Normalizes incoming Synology Chat requests
+ *
+ * Two shapes arrive on /webhook:
+ * - Channel outgoing webhooks carry `channel_id` and `user_name`
+ * - Chatbot messages (direct messages to the bot) carry `username`
+ *   and no channel
+ *
+ * Either may be form-urlencoded (optionally wrapped in a `payload` JSON
+ * field) or a JSON body, depending on the Synology configuration.
+ * Replies inside a thread carry the parent post's `thread_id`.
+ */
+
+import type { IncomingMessage, SessionMode, SynologyWebhookPayload, SynologyBotPayload } from './types';
+
+type RawPayload = Partial<SynologyWebhookPayload> & Partial<SynologyBotPayload>;
+
+/**
+ * Read the raw payload from a webhook request
+ * @throws If the body cannot be parsed
+ */
+async function readPayload(req: Request): Promise<RawPayload> {
+  const contentType = req.headers.get('content-type') || '';
+
+  if (contentType.includes('application/x-www-form-urlencoded') || contentType.includes('multipart/form-data')) {
+    const form = await req.formData();
+    const wrapped = form.get('payload');
+    if (typeof wrapped === 'string') {
+      return JSON.parse(wrapped);
+    }
+
+    const fields: Record<string, string> = {};
+    form.forEach((value, key) => {
+      if (typeof value === 'string') fields[key] = value;
+    });
+    return fields as RawPayload;
+  }
+
+  return (await req.json()) as RawPayload;
+}
+
+/**
+ * Recognize the payload shape and map it to an IncomingMessage
+ * @returns null if the payload has no user to reply to
+ */
+export function normalizePayload(payload: RawPayload): IncomingMessage | null {
+  if (payload.user_id === undefined || payload.user_id === null || payload.user_id === '') {
+    return null;
+  }
+
+  // Synology sends 0 for messages outside a thread
+  const threadId = payload.thread_id ? String(payload.thread_id) : undefined;
+
+  const base = {
+    user_id: String(payload.user_id),
+    thread_id: threadId && threadId !== '0' ? threadId : undefined,
+    text: (payload.text || '').trim(),
+    token: payload.token,
+    file_urls: payload.file_url ? [payload.file_url] : [],
+  };
+
+  if (payload.channel_id !== undefined && payload.channel_id !== '') {
+    return {
+      ...base,
+      source: 'channel',
+      channel_id: String(payload.channel_id),
+      user_name: payload.user_name || 'Unknown',
+    };
+  }
+
+  return {
+    ...base,
+    source: 'bot',
+    user_name: payload.username || payload.user_name || 'Unknown',
+  };
+}
+
+/**
+ * Session a message belongs to
+ * One per user per channel (or one per channel in shared mode), or per user
+ * for direct messages; each thread gets its own session so parallel topics
+ * stay apart.
+ */
+export function sessionIdFor(message: IncomingMessage, mode: SessionMode = 'personal'): string {
+  let base: string;
+  if (message.source === 'bot') {
+    base = `dm_${message.user_id}`;
+  } else {
+    base = mode === 'shared' ? `${message.channel_id}_shared` : `${message.channel_id}_${message.user_id}`;
+  }
+  return message.thread_id ? `${base}_t${message.thread_id}` : base;
+}
+
+/**
+ * Parse and normalize a webhook request
+ * @throws If the body is malformed or has no user
+ */
+export async function parseWebhook(req: Request): Promise<IncomingMessage> {
+  const message = normalizePayload(await readPayload(req));
+  if (!message) {
+    throw new Error('Payload has no user_id');
+  }
+  return message;
+}
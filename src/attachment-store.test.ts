@@ -0,0 +1,115 @@
+/**
+ * Tests for Attachment Store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, readFile, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, basename } from 'path';
+import { AttachmentStore, sanitizeFileName, sessionDirName, describeAttachments } from './attachment-store';
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+describe('AttachmentStore', () => {
+  let dir: string;
+  let store: AttachmentStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'scratch-'));
+    store = new AttachmentStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('writes attachments to the session scratch directory', async () => {
+    const [path] = await store.stage('7_42', [{ name: 'app.log', data: base64('line 1\nline 2') }]);
+
+    expect(path).toBe(join(dir, '7_42', 'attachments', 'app.log'));
+    expect(await readFile(path, 'utf-8')).toBe('line 1\nline 2');
+    expect(await store.existingDir('7_42')).toBe(join(dir, '7_42'));
+  });
+
+  test('keeps earlier files with the same name', async () => {
+    await store.stage('s1', [{ name: 'shot.png', data: base64('first') }]);
+    const paths = await store.stage('s1', [
+      { name: 'shot.png', data: base64('second') },
+      { name: 'shot.png', data: base64('third') },
+    ]);
+
+    expect(paths.map((path) => basename(path))).toEqual(['shot-2.png', 'shot-3.png']);
+  });
+
+  test('lists output files written or changed since a snapshot', async () => {
+    const output = await store.prepareOutput('s1');
+    await writeFile(join(output, 'old.txt'), 'old');
+    await writeFile(join(output, 'chart.csv'), 'a,b');
+    const before = await store.snapshotOutputs('s1');
+
+    await writeFile(join(output, 'report.md'), '# Report');
+    await writeFile(join(output, 'chart.csv'), 'a,b\n1,2');
+
+    expect(await store.listOutputs('s1', before)).toEqual([
+      { name: 'chart.csv', size: 7 },
+      { name: 'report.md', size: 8 },
+    ]);
+    expect(await store.listOutputs('missing')).toEqual([]);
+  });
+
+  test('outputPath refuses names that leave the output directory', () => {
+    expect(store.outputPath('s1', 'report.md')).toBe(join(dir, 's1', 'output', 'report.md'));
+    expect(store.outputPath('s1', '../attachments/secret.txt')).toBeNull();
+    expect(store.outputPath('s1', '..')).toBeNull();
+  });
+
+  test('delete removes the scratch directory', async () => {
+    await store.stage('s1', [{ name: 'a.txt', data: base64('a') }]);
+    await store.delete('s1');
+
+    expect(await store.existingDir('s1')).toBeUndefined();
+  });
+
+  test('sessions whose ids differ never share a directory', async () => {
+    await store.stage('7/42', [{ name: 'a.txt', data: base64('a') }]);
+    await store.stage('7_42', [{ name: 'b.txt', data: base64('b') }]);
+    await store.delete('7/42');
+
+    expect(store.sessionDir('7/42')).not.toBe(store.sessionDir('7_42'));
+    expect(await store.existingDir('7_42')).toBe(join(dir, '7_42'));
+    expect(store.sessionDir('..')).toBe(join(dir, '%2E%2E'));
+  });
+
+  test('validate rejects malformed attachments', () => {
+    expect(store.validate(undefined)).toBeNull();
+    expect(store.validate([{ name: 'a.txt', data: base64('a') }])).toBeNull();
+    expect(store.validate('a.txt')).toContain('array');
+    expect(store.validate([{ name: 'a.txt' }])).toContain('base64');
+  });
+});
+
+describe('sessionDirName', () => {
+  test('keeps plain ids and encodes everything else', () => {
+    expect(sessionDirName('7_42')).toBe('7_42');
+    expect(sessionDirName('7/42')).toBe('7%2F42');
+    expect(sessionDirName('7 42:work')).toBe('7%2042%3Awork');
+    expect(sessionDirName('.')).toBe('%2E');
+    expect(sessionDirName('a%2Eb')).not.toBe(sessionDirName('a.b'));
+  });
+});
+
+describe('sanitizeFileName', () => {
+  test('strips directories and unsafe characters', () => {
+    expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+    expect(sanitizeFileName('C:\\Users\\bob\\report (1).pdf')).toBe('report _1_.pdf');
+    expect(sanitizeFileName('.hidden')).toBe('hidden');
+    expect(sanitizeFileName('..')).toBe('attachment');
+  });
+});
+
+describe('describeAttachments', () => {
+  test('lists the staged paths', () => {
+    expect(describeAttachments(['/tmp/a.txt'])).toBe('[The user attached a file:\n- /tmp/a.txt]');
+    expect(describeAttachments([])).toBe('');
+  });
+});
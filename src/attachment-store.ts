@@ -0,0 +1,196 @@
+/**
+ * Attachment Store - Per-session scratch directories for chat attachments
+ *
+ * Files users post in chat arrive base64-encoded on the execute request and
+ * are written to `scratch/<session_id>/attachments/`. Files Claude writes to
+ * `scratch/<session_id>/output/` are reported back so the bridge can post
+ * them. The session's scratch directory is handed to Claude with
+ * `--add-dir`, so the files stay readable for follow-up messages, and is
+ * removed together with the session.
+ */
+
+import { join, extname, basename } from 'path';
+import { mkdir, writeFile, rm, stat, readdir } from 'fs/promises';
+import { SCRATCH_DIR } from './paths';
+import type { Attachment, OutputFile } from './types';
+
+// Output file name -> size and modification time
+export type OutputSnapshot = Map<string, { size: number; mtimeMs: number }>;
+
+const MAX_ATTACHMENTS = 10;
+const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024; // 25 MB decoded
+
+/**
+ * Reduce a user-supplied file name to a safe basename
+ */
+export function sanitizeFileName(name: string): string {
+  const cleaned = basename(name.replace(/\\/g, '/'))
+    .replace(/[^\w.\- ]+/g, '_')
+    .replace(/^\.+/, '')
+    .trim()
+    .slice(0, 100);
+  return cleaned || 'attachment';
+}
+
+/**
+ * Directory name for a session: its id, percent-encoded so that distinct ids
+ * never share a directory (dots too, so an id cannot name `.` or `..`)
+ * @example
+ * sessionDirName('7_42') // "7_42"
+ * sessionDirName('7/42') // "7%2F42"
+ */
+export function sessionDirName(sessionId: string): string {
+  return encodeURIComponent(sessionId).replace(/\./g, '%2E');
+}
+
+export class AttachmentStore {
+  constructor(private dir: string = SCRATCH_DIR) {}
+
+  /**
+   * Scratch directory of a session (not created until something is staged)
+   */
+  sessionDir(sessionId: string): string {
+    return join(this.dir, sessionDirName(sessionId));
+  }
+
+  /**
+   * The session's scratch directory if it exists
+   */
+  async existingDir(sessionId: string): Promise<string | undefined> {
+    const dir = this.sessionDir(sessionId);
+    try {
+      return (await stat(dir)).isDirectory() ? dir : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check attachments on an incoming request
+   * @returns Error message, or null if they are acceptable
+   */
+  validate(attachments: unknown): string | null {
+    if (attachments === undefined) return null;
+    if (!Array.isArray(attachments)) return 'attachments must be an array';
+    if (attachments.length > MAX_ATTACHMENTS) return `At most ${MAX_ATTACHMENTS} attachments are allowed`;
+
+    for (const attachment of attachments) {
+      if (typeof attachment?.name !== 'string' || typeof attachment?.data !== 'string') {
+        return 'Each attachment needs a name and base64 data';
+      }
+      // Base64 is 4 chars per 3 bytes
+      if ((attachment.data.length * 3) / 4 > MAX_ATTACHMENT_BYTES) {
+        return `Attachment ${attachment.name} is too large`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Write attachments to the session's scratch directory
+   * Names are sanitized and de-duplicated against files already there.
+   *
+   * @returns Absolute paths of the written files, in order
+   */
+  async stage(sessionId: string, attachments: Attachment[]): Promise<string[]> {
+    if (attachments.length === 0) return [];
+
+    const dir = join(this.sessionDir(sessionId), 'attachments');
+    await mkdir(dir, { recursive: true });
+
+    const paths: string[] = [];
+    for (const attachment of attachments) {
+      const path = await this.uniquePath(dir, sanitizeFileName(attachment.name));
+      await writeFile(path, Buffer.from(attachment.data, 'base64'));
+      paths.push(path);
+    }
+    return paths;
+  }
+
+  /**
+   * Create the session's output directory
+   * @returns Its absolute path
+   */
+  async prepareOutput(sessionId: string): Promise<string> {
+    const dir = join(this.sessionDir(sessionId), 'output');
+    await mkdir(dir, { recursive: true });
+    return dir;
+  }
+
+  /**
+   * Record the files currently in the session's output directory
+   */
+  async snapshotOutputs(sessionId: string): Promise<OutputSnapshot> {
+    const dir = join(this.sessionDir(sessionId), 'output');
+    const snapshot: OutputSnapshot = new Map();
+
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return snapshot;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile()) continue;
+      const { size, mtimeMs } = await stat(join(dir, entry.name));
+      snapshot.set(entry.name, { size, mtimeMs });
+    }
+    return snapshot;
+  }
+
+  /**
+   * Files in the session's output directory that are new or changed since a snapshot
+   * (compared by content metadata, since file timestamps lag the clock slightly)
+   */
+  async listOutputs(sessionId: string, before: OutputSnapshot = new Map()): Promise<OutputFile[]> {
+    const files: OutputFile[] = [];
+    for (const [name, info] of await this.snapshotOutputs(sessionId)) {
+      const previous = before.get(name);
+      if (!previous || previous.size !== info.size || previous.mtimeMs !== info.mtimeMs) {
+        files.push({ name, size: info.size });
+      }
+    }
+    return files.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Path of an output file
+   * @returns null if the name could escape the output directory
+   */
+  outputPath(sessionId: string, name: string): string | null {
+    if (!name || name !== basename(name) || name === '.' || name === '..') return null;
+    return join(this.sessionDir(sessionId), 'output', name);
+  }
+
+  /**
+   * Remove a session's scratch directory
+   */
+  async delete(sessionId: string): Promise<void> {
+    await rm(this.sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  private async uniquePath(dir: string, name: string): Promise<string> {
+    const ext = extname(name);
+    const stem = name.slice(0, name.length - ext.length);
+
+    for (let n = 1; ; n++) {
+      const path = join(dir, n === 1 ? name : `${stem}-${n}${ext}`);
+      try {
+        await stat(path);
+      } catch {
+        return path;
+      }
+    }
+  }
+}
+
+/**
+ * Prompt note pointing Claude at staged attachments
+ */
+export function describeAttachments(paths: string[]): string {
+  if (paths.length === 0) return '';
+  return `[The user attached ${paths.length === 1 ? 'a file' : `${paths.length} files`}:\n${paths.map((path) => `- ${path}`).join('\n')}]`;
+}
+
+export const attachmentStore = new AttachmentStore();
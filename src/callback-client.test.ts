@@ -0,0 +1,107 @@
+/**
+ * Tests for Callback Client
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from 'bun:test';
+import type { Server } from 'bun';
+import {
+  deliverCallback,
+  signPayload,
+  isValidCallbackUrl,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from './callback-client';
+import type { ExecuteResponse } from './types';
+
+const SECRET = 'shared-secret';
+const FAST = { secret: SECRET, retryBaseMs: 1 };
+
+const payload: ExecuteResponse = { success: true, session_id: '7_42', result: 'Done', job_id: 'job-1' };
+
+interface Received {
+  body: string;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+describe('deliverCallback', () => {
+  let server: Server<undefined>;
+  let url: string;
+  let received: Received[];
+  let statuses: number[]; // Answered in turn; 200 once used up
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        received.push({
+          body: await req.text(),
+          timestamp: req.headers.get(TIMESTAMP_HEADER),
+          signature: req.headers.get(SIGNATURE_HEADER),
+        });
+        return new Response(null, { status: statuses.shift() ?? 200 });
+      },
+    });
+    url = `http://127.0.0.1:${server.port}/callback`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  test('signs the timestamp and body with the shared secret', async () => {
+    expect(await deliverCallback(url, payload, FAST)).toBe(true);
+
+    const [{ body, timestamp, signature }] = received;
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(Number(timestamp)).toBeGreaterThan(0);
+    expect(signature).toBe(`sha256=${signPayload(body, timestamp!, SECRET)}`);
+  });
+
+  test('sends no signature without a secret', async () => {
+    expect(await deliverCallback(url, payload, { secret: '', retryBaseMs: 1 })).toBe(true);
+    expect(received[0].signature).toBeNull();
+  });
+
+  test('retries server errors until the bridge accepts', async () => {
+    statuses = [503, 500];
+    expect(await deliverCallback(url, payload, FAST)).toBe(true);
+    expect(received).toHaveLength(3);
+  });
+
+  test('gives up after the last attempt', async () => {
+    statuses = [502, 502, 502, 502];
+    expect(await deliverCallback(url, payload, { ...FAST, maxAttempts: 3 })).toBe(false);
+    expect(received).toHaveLength(3);
+  });
+
+  test('does not retry client errors', async () => {
+    statuses = [401];
+    expect(await deliverCallback(url, payload, FAST)).toBe(false);
+    expect(received).toHaveLength(1);
+  });
+
+  test('retries network errors', async () => {
+    const closed = Bun.serve({ port: 0, fetch: () => new Response() });
+    const closedUrl = `http://127.0.0.1:${closed.port}/callback`;
+    closed.stop(true);
+
+    const started = Date.now();
+    expect(await deliverCallback(closedUrl, payload, { ...FAST, maxAttempts: 3, retryBaseMs: 20 })).toBe(false);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(60); // Waited 20ms, then 40ms
+  });
+});
+
+describe('isValidCallbackUrl', () => {
+  test('accepts only absolute http(s) URLs', () => {
+    expect(isValidCallbackUrl('http://bridge:3456/callback')).toBe(true);
+    expect(isValidCallbackUrl('https://bridge.example/callback')).toBe(true);
+    expect(isValidCallbackUrl('file:///etc/passwd')).toBe(false);
+    expect(isValidCallbackUrl('/callback')).toBe(false);
+  });
+});
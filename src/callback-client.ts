@@ -0,0 +1,97 @@
+/**
+ * Callback Client - Delivers execution results to the bridge
+ *
+ * Payloads are signed with HMAC-SHA256 over `${timestamp}.${body}` using the
+ * shared BRIDGE_AUTH_TOKEN, so the bridge can reject forged or replayed results.
+ */
+
+import { createHmac } from 'crypto';
+import { logger } from './logger';
+import type { ExecuteResponse } from './types';
+
+const CALLBACK_SECRET = process.env.BRIDGE_AUTH_TOKEN;
+const CALLBACK_MAX_ATTEMPTS = 4;
+const CALLBACK_RETRY_BASE_MS = 1000; // 1s, 2s, 4s between attempts
+const CALLBACK_TIMEOUT_MS = 10 * 1000;
+
+export const SIGNATURE_HEADER = 'X-Executor-Signature';
+export const TIMESTAMP_HEADER = 'X-Executor-Timestamp';
+
+export interface CallbackOptions {
+  secret?: string; // default: BRIDGE_AUTH_TOKEN (unsigned without one)
+  maxAttempts?: number; // default: 4
+  retryBaseMs?: number; // Wait before the first retry, doubling after each; default: 1000
+}
+
+/**
+ * Compute the hex HMAC-SHA256 signature for a callback body
+ */
+export function signPayload(body: string, timestamp: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Check that a callback URL is an absolute http(s) URL
+ */
+export function isValidCallbackUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST an execution result to the callback URL, retrying on network
+ * failures and 5xx responses with exponential backoff.
+ *
+ * @returns true if the bridge accepted the payload
+ */
+export async function deliverCallback(url: string, payload: ExecuteResponse, options: CallbackOptions = {}): Promise<boolean> {
+  const { secret = CALLBACK_SECRET, maxAttempts = CALLBACK_MAX_ATTEMPTS, retryBaseMs = CALLBACK_RETRY_BASE_MS } = options;
+  const body = JSON.stringify(payload);
+  const log = logger.child({ correlation_id: payload.correlation_id, job_id: payload.job_id });
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timestamp = String(Date.now());
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [TIMESTAMP_HEADER]: timestamp,
+    };
+
+    if (secret) {
+      headers[SIGNATURE_HEADER] = `sha256=${signPayload(body, timestamp, secret)}`;
+    }
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        return true;
+      }
+
+      // Client errors won't succeed on retry (bad signature, unknown job)
+      if (response.status < 500) {
+        log.error('Callback rejected', { status: response.status });
+        return false;
+      }
+
+      log.warn('Callback attempt failed', { attempt, status: response.status });
+    } catch (error) {
+      log.warn('Callback attempt failed', { attempt, error });
+    }
+
+    if (attempt < maxAttempts) {
+      await new Promise((r) => setTimeout(r, retryBaseMs * 2 ** (attempt - 1)));
+    }
+  }
+
+  log.error('Callback delivery gave up', { attempts: maxAttempts });
+  return false;
+}
@@ -1,6 +1,8 @@
 /**
  * Claude Runner - Spawns Claude Code CLI with session continuity
  *
+ * The default Runner backend (CliRunner); see runner.ts for selection.
+ *
  * Supports multi-chunk execution for handling large inputs:
  *
  * @example
@@ -15,12 +17,22 @@
  *   sessionId: "abc123"
  * })
  * // Returns: { output: "response1\n---\nresponse2\n---\nresponse3", sessionId: "abc123" }
+ *
+ * @example
+ * // Streaming execution - text blocks and tool steps are reported as produced
+ * runClaude({ prompt: "Hello", onEvent: (event) => console.log(event) })
  */
 
 import { spawn } from 'child_process';
-import { join } from 'path';
+import { PAI_DIR } from './paths';
+import { buildPermissionArgs, BUILTIN_PROFILES, type PermissionProfile } from './permissions';
+import { StreamJsonParser, type ClaudeStreamEvent } from './utils/stream-parser';
+import { parseUsage, addUsage, type ClaudeUsage, type TurnUsage } from './utils/claude-usage';
+import { logger } from './logger';
+import type { Runner } from './runner';
+
+export type { ClaudeStreamEvent, ClaudeUsage };
 
-const PAI_DIR = process.env.PAI_DIR || join(process.env.HOME!, '.claude');
 const CLAUDE_PATH = process.env.CLAUDE_CLI_PATH || 'claude';
 const EXECUTION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
@@ -28,7 +40,16 @@ export interface ClaudeRunOptions {
   prompt: string;
   sessionId?: string;
   userName?: string;
+  sharedSession?: boolean; // Several users talk in this session; prompts start with "[name]"
   chunks?: string[];
+  onEvent?: (event: ClaudeStreamEvent) => void; // Enables stream-json output
+  permissions?: PermissionProfile; // default: built-in `edit` profile
+  cwd?: string; // Working directory for the claude process (project binding)
+  addDirs?: string[]; // Extra directories Claude may access (session scratch directory)
+  outputDir?: string; // Files Claude writes here are sent to the user
+  systemPrompt?: string; // Extra system prompt text (e.g. project instructions)
+  signal?: AbortSignal; // Kills the claude process / stops between chunks when aborted
+  correlationId?: string; // Added to the spawn and exit log lines
 }
 
 export interface ClaudeRunResult {
@@ -36,18 +57,25 @@ export interface ClaudeRunResult {
   output: string;
   sessionId?: string;
   error?: string;
+  cancelled?: boolean;
+  usage?: ClaudeUsage; // Cost, tokens and turns Claude reported (summed over chunks)
+  finalUsage?: ClaudeUsage; // The last chunk's usage alone (absent: same as usage)
+  lastTurnUsage?: TurnUsage; // The last turn's tokens (streamed runs only), which size the context
 }
 
+const CANCELLED_ERROR = 'Cancelled by user';
+
 /**
  * Parse the result text to extract the actual response.
  * Claude CLI with --output-format json returns structured data.
  */
-function parseClaudeOutput(stdout: string): { result: string; sessionId?: string } {
+function parseClaudeOutput(stdout: string): { result: string; sessionId?: string; usage?: ClaudeUsage } {
   try {
     const parsed = JSON.parse(stdout);
     return {
       result: parsed.result || parsed.content || stdout,
       sessionId: parsed.session_id,
+      usage: parseUsage(parsed),
     };
   } catch {
     // Not JSON, return raw output
@@ -56,7 +84,7 @@ function parseClaudeOutput(stdout: string): { result: string; sessionId?: string
 }
 
 export async function runClaude(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
-  const { prompt, sessionId, userName, chunks } = options;
+  const { prompt, chunks } = options;
 
   // Multi-chunk execution: process chunks sequentially
   if (chunks && chunks.length > 0) {
@@ -64,7 +92,16 @@ export async function runClaude(options: ClaudeRunOptions): Promise<ClaudeRunRes
   }
 
   // Single execution (backward compatible)
-  return runClaudeSingle(prompt, sessionId, userName);
+  return runClaudeSingle(prompt, options);
+}
+
+/**
+ * Runner backed by the claude CLI
+ */
+export class CliRunner implements Runner {
+  run(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    return runClaude(options);
+  }
 }
 
 /**
@@ -74,10 +111,13 @@ async function runClaudeMultiChunk(
   options: ClaudeRunOptions,
   chunks: string[]
 ): Promise<ClaudeRunResult> {
-  const { sessionId: initialSessionId, userName } = options;
+  const { sessionId: initialSessionId } = options;
 
   const outputs: string[] = [];
   let currentSessionId = initialSessionId;
+  let usage: ClaudeUsage | undefined;
+  let finalUsage: ClaudeUsage | undefined;
+  let lastTurnUsage: TurnUsage | undefined;
   let firstError: string | undefined;
 
   for (let i = 0; i < chunks.length; i++) {
@@ -85,16 +125,31 @@ async function runClaudeMultiChunk(
     const chunkNumber = i + 1;
     const totalChunks = chunks.length;
 
+    // Stop between chunks if the job was cancelled
+    if (options.signal?.aborted) {
+      return {
+        success: false,
+        output: outputs.length > 0
+          ? outputs.join('\n---\n') + `\n\n[Cancelled before chunk ${chunkNumber}/${totalChunks}]`
+          : '',
+        sessionId: currentSessionId,
+        error: CANCELLED_ERROR,
+        cancelled: true,
+      };
+    }
+
     // Execute chunk with current session
     const result = await runClaudeSingle(
       chunk,
-      currentSessionId,
-      userName,
+      { ...options, sessionId: currentSessionId },
       chunkNumber,
       totalChunks
     );
 
     // Collect output
+    usage = addUsage(usage, result.usage);
+    finalUsage = result.usage;
+    lastTurnUsage = result.lastTurnUsage;
     if (result.success && result.output) {
       outputs.push(result.output);
     }
@@ -116,6 +171,10 @@ async function runClaudeMultiChunk(
           : '',
         sessionId: currentSessionId,
         error: firstError,
+        cancelled: result.cancelled,
+        usage,
+        finalUsage,
+        lastTurnUsage,
       };
     }
   }
@@ -125,6 +184,9 @@ async function runClaudeMultiChunk(
     success: true,
     output: outputs.join('\n---\n'),
     sessionId: currentSessionId,
+    usage,
+    finalUsage,
+    lastTurnUsage,
   };
 }
 
@@ -133,11 +195,29 @@ async function runClaudeMultiChunk(
  */
 async function runClaudeSingle(
   prompt: string,
-  sessionId?: string,
-  userName?: string,
+  options: ClaudeRunOptions,
   chunkNumber?: number,
   totalChunks?: number
 ): Promise<ClaudeRunResult> {
+  const {
+    sessionId,
+    userName,
+    sharedSession,
+    onEvent,
+    permissions = BUILTIN_PROFILES.edit,
+    cwd,
+    addDirs = [],
+    outputDir,
+    systemPrompt,
+    signal,
+    correlationId,
+  } = options;
+  const log = logger.child({ component: 'claude-runner', correlation_id: correlationId, claude_session_id: sessionId });
+
+  if (signal?.aborted) {
+    return { success: false, output: '', sessionId, error: CANCELLED_ERROR, cancelled: true };
+  }
+
   // Build CLI arguments
   const args: string[] = ['-p']; // Non-interactive print mode
 
@@ -146,16 +226,39 @@ async function runClaudeSingle(
     args.push('--continue', sessionId);
   }
 
-  // Output format
-  args.push('--output-format', 'json');
+  // Output format (stream-json requires --verbose in print mode)
+  if (onEvent) {
+    args.push('--output-format', 'stream-json', '--verbose');
+  } else {
+    args.push('--output-format', 'json');
+  }
+
+  // Tool permissions from the resolved profile
+  args.push(...buildPermissionArgs(permissions));
 
-  // Auto-approve safe tools
-  args.push('--allowedTools', 'Read,Grep,Glob,Edit,Write');
+  for (const dir of addDirs) {
+    args.push('--add-dir', dir);
+  }
 
   // System prompt for context
-  let systemNote = userName
-    ? `User: ${userName} via Synology Chat. Be concise but helpful.`
-    : 'User is interacting via Synology Chat. Be concise but helpful.';
+  let systemNote: string;
+  if (sharedSession) {
+    systemNote =
+      'Several people share this conversation in a Synology Chat channel; each message starts with ' +
+      "the speaker's name in brackets. Address people by name when it helps. Be concise but helpful.";
+  } else if (userName) {
+    systemNote = `User: ${userName} via Synology Chat. Be concise but helpful.`;
+  } else {
+    systemNote = 'User is interacting via Synology Chat. Be concise but helpful.';
+  }
+
+  if (outputDir) {
+    systemNote += ` Save files meant for the user (reports, diffs, charts) in ${outputDir}; they are sent to the chat.`;
+  }
+
+  if (systemPrompt) {
+    systemNote += ` ${systemPrompt}`;
+  }
 
   // Add chunk context if this is part of multi-chunk execution
   if (chunkNumber !== undefined && totalChunks !== undefined) {
@@ -168,8 +271,11 @@ async function runClaudeSingle(
     let stdout = '';
     let stderr = '';
     let extractedSessionId = sessionId;
+    const streamParser = onEvent ? new StreamJsonParser(onEvent) : undefined;
+    const startedAt = Date.now();
 
     const proc = spawn(CLAUDE_PATH, args, {
+      cwd,
       env: {
         ...process.env,
         PAI_DIR,
@@ -177,12 +283,22 @@ async function runClaudeSingle(
       },
     });
 
+    log.info('Spawned claude', {
+      pid: proc.pid,
+      cwd,
+      streaming: Boolean(onEvent),
+      chunk: chunkNumber !== undefined ? `${chunkNumber}/${totalChunks}` : undefined,
+      prompt_chars: prompt.length,
+    });
+
     // Send prompt via stdin
     proc.stdin.write(prompt);
     proc.stdin.end();
 
     proc.stdout.on('data', (data) => {
-      stdout += data.toString();
+      const chunk = data.toString();
+      stdout += chunk;
+      streamParser?.push(chunk);
     });
 
     proc.stderr.on('data', (data) => {
@@ -198,6 +314,7 @@ async function runClaudeSingle(
 
     // Timeout handler
     const timeout = setTimeout(() => {
+      log.warn('Claude timed out', { pid: proc.pid, timeout_ms: EXECUTION_TIMEOUT_MS });
       proc.kill('SIGTERM');
       resolve({
         success: false,
@@ -206,15 +323,42 @@ async function runClaudeSingle(
       });
     }, EXECUTION_TIMEOUT_MS);
 
+    // Cancellation handler
+    const onAbort = () => {
+      clearTimeout(timeout);
+      proc.kill('SIGTERM');
+      resolve({
+        success: false,
+        output: '',
+        sessionId: extractedSessionId,
+        error: CANCELLED_ERROR,
+        cancelled: true,
+      });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     proc.on('close', (code) => {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      log.info('Claude exited', { pid: proc.pid, code, duration_ms: Date.now() - startedAt });
 
-      if (code === 0) {
-        const { result, sessionId: parsedSessionId } = parseClaudeOutput(stdout);
+      if (code === 0 && streamParser) {
+        streamParser.end();
+        resolve({
+          success: !streamParser.failed,
+          output: streamParser.result,
+          sessionId: streamParser.sessionId || extractedSessionId,
+          error: streamParser.failed ? streamParser.result || 'Claude reported an error' : undefined,
+          usage: streamParser.usage,
+          lastTurnUsage: streamParser.lastTurnUsage,
+        });
+      } else if (code === 0) {
+        const { result, sessionId: parsedSessionId, usage } = parseClaudeOutput(stdout);
         resolve({
           success: true,
           output: result,
           sessionId: parsedSessionId || extractedSessionId,
+          usage,
         });
       } else {
         resolve({
@@ -227,6 +371,8 @@ async function runClaudeSingle(
 
     proc.on('error', (error) => {
       clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      log.error('Failed to spawn claude', { error });
       resolve({
         success: false,
         output: '',
@@ -3,7 +3,14 @@
  *
  * Provides intelligent context management for Claude sessions:
  * - Automatic input chunking for messages >15K chars
- * - Automatic history summarization when context >120K tokens
+ * - Automatic history summarization when context >120K tokens, rolling over
+ *   to a fresh Claude session seeded with the summary and recent messages
+ * - Per-session transcript persistence
+ * - Context size tracked from the token counts Claude reports, falling back
+ *   to a content-aware estimate when a run reports none
+ * - A message that would take the context past 180K tokens is handled by the
+ *   session's overflow policy: summarize and roll over, reject, or hold it
+ *   until the user confirms; sessions are warned as the context fills up
  * - Session state tracking and updates
  * - Backward compatibility with sessions lacking context_state
  *
@@ -18,15 +25,41 @@
  */
 
 import { InputChunker } from './utils/input-chunker';
-import { ContextEstimator, CONTEXT_SOFT_LIMIT } from './utils/context-estimator';
-import { HistorySummarizer } from './utils/history-summarizer';
-import { runClaude, ClaudeRunResult } from './claude-runner';
-import type { SessionData, ContextState } from './types';
+import { ContextEstimator, CONTEXT_SOFT_LIMIT, CONTEXT_HARD_LIMIT } from './utils/context-estimator';
+import { HistorySummarizer, type Message, type SummarizationResult } from './utils/history-summarizer';
+import { runner } from './runner';
+import { addUsage } from './utils/claude-usage';
+import type { ClaudeRunResult, ClaudeStreamEvent, ClaudeUsage } from './claude-runner';
+import { transcriptStore, type TranscriptEntry } from './transcript-store';
+import { chunkedPromptsTotal, promptChunksTotal, summarizationsTotal } from './metrics';
+import { logger, type Logger } from './logger';
+import { DEFAULT_CONTEXT_OVERFLOW, DEFAULT_CONTEXT_WARNING_PERCENT } from './session-policy';
+import type { PermissionProfile } from './permissions';
+import type {
+  SessionData,
+  ContextState,
+  ContextOverflowPolicy,
+  ContextOverflowNotice,
+  ContextOverflowRecord,
+  ContextWarning,
+} from './types';
 
 export interface ExecuteOptions {
   prompt: string;
   session: SessionData;
   userName?: string;
+  sharedSession?: boolean;
+  onEvent?: (event: ClaudeStreamEvent) => void;
+  permissions?: PermissionProfile;
+  cwd?: string;
+  addDirs?: string[];
+  outputDir?: string;
+  systemPrompt?: string;
+  signal?: AbortSignal;
+  correlationId?: string; // Added to log lines here and in the runner
+  overflowPolicy?: ContextOverflowPolicy; // For a message past the hard limit (default: summarize)
+  confirmOverflow?: boolean; // Run the message held back for confirmation instead of `prompt` (if there is one)
+  warningPercent?: number; // Warn once the context reaches this share of the hard limit (default: 80)
 }
 
 export interface ExecuteResult {
@@ -34,7 +67,57 @@ export interface ExecuteResult {
   output: string;
   sessionId?: string;
   error?: string;
+  cancelled?: boolean;
+  usage?: ClaudeUsage; // Claude's reported usage, including any summarization run
   contextState: ContextState;
+  skipped?: boolean; // Claude was not run (message rejected or held by the overflow policy)
+  overflow?: ContextOverflowNotice; // The message would have taken the context past the hard limit
+  warning?: ContextWarning; // The context just crossed the warning threshold
+}
+
+/**
+ * A finished summarization: the seed for a fresh Claude session and the
+ * context state changes to keep once that session is running
+ */
+interface Summarization {
+  seed: string;
+  state: Pick<ContextState, 'conversation_summary' | 'last_summarization'>;
+}
+
+/**
+ * Response error for a message the overflow policy did not run
+ */
+function overflowError(overflow: ContextOverflowNotice): string {
+  const size = `about ${Math.round(overflow.tokens / 1000)}K of its ${Math.round(overflow.limit / 1000)}K-token limit`;
+  return overflow.outcome === 'awaiting_confirmation'
+    ? `Context limit reached: this message would bring the session to ${size}; it is held until confirmed (confirm_overflow)`
+    : `Context limit reached: this message would bring the session to ${size}`;
+}
+
+/**
+ * The user-facing part of an overflow record
+ */
+function noticeOf({ policy, outcome, tokens, limit }: ContextOverflowRecord): ContextOverflowNotice {
+  return { policy, outcome, tokens, limit };
+}
+
+/**
+ * Runs the summarization prompt in its own one-off Claude session,
+ * passing on what the run cost
+ */
+function summaryRunner(onUsage: (usage?: ClaudeUsage) => void) {
+  return async (messages: Message[]): Promise<string> => {
+    const result = await runner.run({
+      prompt: messages.map((m) => m.content).join('\n\n'),
+      permissions: { allowed_tools: [] }, // Summarizing needs no tools
+    });
+    onUsage(result.usage);
+
+    if (!result.success || !result.output) {
+      throw new Error(result.error || 'Summarization returned no output');
+    }
+    return result.output;
+  };
 }
 
 /**
@@ -47,83 +130,203 @@ export class ContextManager {
    * Workflow:
    * 1. Initialize or load context state from session
    * 2. Estimate total context usage (current + new prompt)
-   * 3. If >120K tokens, trigger history summarization
+   * 3. If >180K tokens, apply the overflow policy (reject or hold the message, or go on to 3a)
+   * 3a. If >120K tokens, summarize the transcript and seed a fresh Claude session
    * 4. If prompt >15K chars, chunk it
-   * 5. Execute via runClaude (with chunks if needed)
-   * 6. Update context state with new token estimates
-   * 7. Return result with updated context state
+   * 5. Execute via the configured runner (with chunks if needed)
+   * 6. Record the exchange and update context state with Claude's token counts (or estimates)
+   * 7. Return result with updated context state and any context warning
+   *
+   * A confirmation (`confirmOverflow`) runs the held message in place of
+   * `prompt`, rolling over to a fresh session; any other message drops it.
+   * The overflow decision and its outcome are recorded in
+   * `contextState.last_overflow`.
    *
-   * @param options - Execution options (prompt, session, userName)
+   * @param options - Execution options (prompt, session, userName, sharedSession, onEvent, permissions, cwd, addDirs, outputDir, systemPrompt, signal, correlationId, overflowPolicy, confirmOverflow, warningPercent)
    * @returns Execution result with updated context state
    */
   static async execute(options: ExecuteOptions): Promise<ExecuteResult> {
-    const { prompt, session, userName } = options;
+    const { session, userName, sharedSession, onEvent, permissions, cwd, addDirs, outputDir, systemPrompt, signal, correlationId } = options;
+    const { overflowPolicy = DEFAULT_CONTEXT_OVERFLOW, confirmOverflow, warningPercent = DEFAULT_CONTEXT_WARNING_PERCENT } = options;
+    const log = logger.child({ component: 'context-manager', correlation_id: correlationId, session_id: session.session_id });
 
     // Step 1: Initialize context state if missing (backward compatibility)
     const contextState = this.initializeContextState(session);
 
+    // A confirmation runs the held message; anything else means the user
+    // moved on (with nothing held, a confirmation is an ordinary message)
+    const held = contextState.last_overflow?.outcome === 'awaiting_confirmation' ? contextState.last_overflow : undefined;
+    const confirmed = !!(confirmOverflow && held?.pending_prompt);
+    const prompt = confirmed ? held!.pending_prompt! : options.prompt;
+    if (held) {
+      if (!confirmed) held.outcome = 'declined';
+      delete held.pending_prompt;
+    }
+
     // Step 2: Calculate total context usage
-    const newPromptTokens = ContextEstimator.estimate(prompt);
+    const newPromptTokens = ContextEstimator.estimateContent(prompt);
     const totalTokens = contextState.estimated_tokens + newPromptTokens;
 
-    console.log(`[ContextManager] Session ${session.session_id}: current=${contextState.estimated_tokens} + new=${newPromptTokens} = total=${totalTokens} tokens`);
+    log.info('Context estimate', {
+      current_tokens: contextState.estimated_tokens,
+      token_source: contextState.token_source ?? 'estimated',
+      prompt_tokens: newPromptTokens,
+      total_tokens: totalTokens,
+    });
+
+    // Step 3: Apply the overflow policy past the hard limit (a confirmed
+    // message rolls over as agreed)
+    let overflow: ContextOverflowRecord | undefined;
+    if (ContextEstimator.exceedsHardLimit(totalTokens) || confirmed) {
+      overflow = {
+        at: new Date().toISOString(),
+        tokens: totalTokens,
+        limit: CONTEXT_HARD_LIMIT,
+        policy: overflowPolicy,
+        outcome: 'rolled_over',
+      };
+      log.info('Context overflow', { hard_limit: CONTEXT_HARD_LIMIT, policy: overflowPolicy, confirmed });
+
+      if (overflowPolicy !== 'summarize' && !confirmed) {
+        overflow.outcome = overflowPolicy === 'reject' ? 'rejected' : 'awaiting_confirmation';
+        if (overflowPolicy === 'confirm') overflow.pending_prompt = prompt;
+        contextState.last_overflow = overflow;
+        return {
+          success: false,
+          output: '',
+          error: overflowError(overflow),
+          contextState,
+          skipped: true,
+          overflow: noticeOf(overflow),
+        };
+      }
+    }
+
+    // Step 3a: Check if summarization is needed
+    let claudeSessionId = session.claude_session_id;
+    let effectivePrompt = prompt;
+    let rolledOver = false;
+    let summaryUsage: ClaudeUsage | undefined;
+    let summarization: Summarization | null = null;
+
+    if (ContextEstimator.needsSummarization(totalTokens) || overflow) {
+      log.info('Context exceeds soft limit, summarization needed', { soft_limit: CONTEXT_SOFT_LIMIT });
+      try {
+        summarization = await this.performSummarization(session, contextState, log, (usage) => {
+          summaryUsage = addUsage(summaryUsage, usage);
+        });
+      } catch (error) {
+        // The session is kept; below the hard limit it can still take the message
+        if (overflow) {
+          overflow.outcome = 'failed';
+          contextState.last_overflow = overflow;
+          return {
+            success: false,
+            output: '',
+            error: `Summarization failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            usage: summaryUsage,
+            contextState,
+            overflow: noticeOf(overflow),
+          };
+        }
+      }
 
-    // Step 3: Check if summarization is needed
-    if (ContextEstimator.needsSummarization(totalTokens)) {
-      console.log(`[ContextManager] Context exceeds soft limit (${CONTEXT_SOFT_LIMIT} tokens), summarization needed`);
-      await this.performSummarization(session, contextState);
+      if (summarization) {
+        // Start a fresh Claude session carrying only the summarized context
+        claudeSessionId = undefined;
+        effectivePrompt = `${summarization.seed}\n\n${prompt}`;
+        rolledOver = true;
+      } else if (overflow) {
+        // Nothing to summarize, but the old session cannot take the message
+        log.info('Nothing to summarize, starting a fresh session');
+        claudeSessionId = undefined;
+        rolledOver = true;
+      }
     }
 
     // Step 4: Check if input needs chunking
-    const chunks = InputChunker.needsChunking(prompt)
-      ? InputChunker.chunk(prompt)
+    const chunks = InputChunker.needsChunking(effectivePrompt)
+      ? InputChunker.chunk(effectivePrompt)
       : undefined;
 
     if (chunks && chunks.length > 1) {
-      console.log(`[ContextManager] Input chunked into ${chunks.length} parts (${prompt.length} chars)`);
+      log.info('Input chunked', { chunks: chunks.length, chars: effectivePrompt.length });
       contextState.chunk_count = (contextState.chunk_count || 0) + chunks.length;
+      chunkedPromptsTotal.inc();
+      promptChunksTotal.inc({}, chunks.length);
     }
 
-    // Step 5: Execute via runClaude
+    // Step 5: Execute via the runner, noting tool steps for the transcript
+    const toolsUsed: string[] = [];
+    const startedAt = new Date().toISOString();
+
     let result: ClaudeRunResult;
     try {
-      result = await runClaude({
-        prompt: chunks ? '' : prompt, // Empty prompt when using chunks
+      result = await runner.run({
+        prompt: chunks ? '' : effectivePrompt, // Empty prompt when using chunks
         chunks,
-        sessionId: session.claude_session_id,
+        sessionId: claudeSessionId,
         userName,
+        sharedSession,
+        permissions,
+        cwd,
+        addDirs,
+        outputDir,
+        systemPrompt,
+        signal,
+        correlationId,
+        onEvent: onEvent && ((event) => {
+          if (event.type === 'tool') toolsUsed.push(event.name);
+          onEvent(event);
+        }),
       });
     } catch (error) {
+      if (overflow) {
+        overflow.outcome = 'failed';
+        contextState.last_overflow = overflow;
+      }
       return {
         success: false,
         output: '',
         error: error instanceof Error ? error.message : 'Unknown error',
+        usage: summaryUsage,
         contextState,
+        overflow: overflow && noticeOf(overflow),
       };
     }
 
-    // Step 6: Update context state with response tokens
+    // Step 6: Record the exchange and update context state; the summary is
+    // kept only once the fresh session it seeded is running
+    if (result.success && summarization) {
+      Object.assign(contextState, summarization.state);
+    }
+
     if (result.success && result.output) {
-      const responseTokens = ContextEstimator.estimate(result.output);
-
-      // If we just summarized, the context is reset to summary + new messages
-      // Otherwise, accumulate tokens
-      if (contextState.conversation_summary && contextState.last_summarization) {
-        const summaryAge = Date.now() - new Date(contextState.last_summarization).getTime();
-        const isRecentSummarization = summaryAge < 60000; // Within last minute
-
-        if (isRecentSummarization) {
-          // Fresh summary - context is summary + new prompt + response
-          const summaryTokens = ContextEstimator.estimate(contextState.conversation_summary);
-          contextState.estimated_tokens = summaryTokens + newPromptTokens + responseTokens;
-          console.log(`[ContextManager] Context reset after summarization: ${contextState.estimated_tokens} tokens`);
-        } else {
-          // Old summary - normal accumulation
-          contextState.estimated_tokens += newPromptTokens + responseTokens;
-        }
+      await this.recordExchange(session.session_id, log, [
+        { role: 'user', content: prompt, timestamp: startedAt },
+        {
+          role: 'assistant',
+          content: result.output,
+          timestamp: new Date().toISOString(),
+          ...(toolsUsed.length > 0 ? { tools: toolsUsed } : {}),
+        },
+      ]);
+
+      // Claude's token counts cover the whole context (including a seeded
+      // session after a rollover); estimate only if it reported none
+      const reportedTokens = ContextEstimator.fromUsage(result.finalUsage ?? result.usage, result.lastTurnUsage);
+      if (reportedTokens !== undefined) {
+        contextState.estimated_tokens = reportedTokens;
+        contextState.token_source = 'reported';
       } else {
-        // No summary - normal accumulation
-        contextState.estimated_tokens += newPromptTokens + responseTokens;
+        const responseTokens = ContextEstimator.estimateContent(result.output);
+        contextState.estimated_tokens = rolledOver
+          ? ContextEstimator.estimateContent(effectivePrompt) + responseTokens // Fresh session - seeded prompt + response
+          : contextState.estimated_tokens + newPromptTokens + responseTokens;
+        contextState.token_source = 'estimated';
+      }
+      if (rolledOver) {
+        log.info('Context reset after summarization', { tokens: contextState.estimated_tokens });
       }
 
       // Check if we need summarization next time
@@ -132,16 +335,46 @@ export class ContextManager {
       );
     }
 
+    if (overflow) {
+      overflow.outcome = result.success ? 'rolled_over' : 'failed';
+      contextState.last_overflow = overflow;
+    }
+
     // Step 7: Return result with updated context state
     return {
       success: result.success,
       output: result.output,
-      sessionId: result.sessionId,
+      // A fresh session that failed is dropped; the next message goes back to the old one
+      sessionId: rolledOver && !result.success ? undefined : result.sessionId,
       error: result.error,
+      cancelled: result.cancelled,
+      usage: addUsage(summaryUsage, result.usage),
       contextState,
+      overflow: overflow && noticeOf(overflow),
+      warning: result.success ? this.checkWarning(contextState, warningPercent, overflowPolicy) : undefined,
     };
   }
 
+  /**
+   * Warn once when the context crosses the warning threshold; the warning is
+   * re-armed when the context shrinks below it (e.g. after a rollover)
+   */
+  private static checkWarning(
+    contextState: ContextState,
+    warningPercent: number,
+    policy: ContextOverflowPolicy
+  ): ContextWarning | undefined {
+    const percent = ContextEstimator.getUsagePercentage(contextState.estimated_tokens);
+    if (percent < warningPercent) {
+      if (contextState.context_warning_sent) contextState.context_warning_sent = false;
+      return undefined;
+    }
+    if (contextState.context_warning_sent) return undefined;
+
+    contextState.context_warning_sent = true;
+    return { percent, policy };
+  }
+
   /**
    * Initialize context state with sensible defaults if missing
    * Handles backward compatibility with sessions created before context tracking
@@ -163,34 +396,94 @@ export class ContextManager {
   }
 
   /**
-   * Perform history summarization for the session
-   * This is a placeholder - actual implementation would need access to message history
+   * Summarize the session transcript since the last summarization
    *
-   * For now, we mark that summarization occurred and adjust token estimates
+   * The previous summary (if any) is included as the oldest message so
+   * context carries across successive rollovers.
+   *
+   * The context state is not changed here: the caller keeps the summary once
+   * the fresh session has run.
+   *
+   * @returns Seed text for a fresh Claude session with the state to keep, or
+   *          null if there is not enough history to summarize
+   * @throws If the summarization run fails
    */
   private static async performSummarization(
     session: SessionData,
-    contextState: ContextState
-  ): Promise<void> {
-    console.log(`[ContextManager] Performing summarization for session ${session.session_id}`);
-
-    // NOTE: In a full implementation, we would:
-    // 1. Retrieve message history from Claude session
-    // 2. Call HistorySummarizer.summarize(messages)
-    // 3. Store the summary in contextState.conversation_summary
-    // 4. Update the Claude session with compressed history
-    //
-    // For now, we create a basic summary marker and reduce token count
-    // to simulate the effect of summarization
-
-    const reductionFactor = 0.3; // Assume 70% token reduction from summarization
-    const reducedTokens = Math.floor(contextState.estimated_tokens * reductionFactor);
-
-    contextState.conversation_summary = `Session summarized at ${new Date().toISOString()}. Previous context reduced from ${contextState.estimated_tokens} to ${reducedTokens} tokens.`;
-    contextState.last_summarization = new Date().toISOString();
-    contextState.estimated_tokens = reducedTokens;
-    contextState.needs_summarization = false;
-
-    console.log(`[ContextManager] Summarization complete: ${contextState.estimated_tokens} tokens remaining`);
+    contextState: ContextState,
+    log: Logger,
+    onUsage: (usage?: ClaudeUsage) => void
+  ): Promise<Summarization | null> {
+    log.info('Performing summarization');
+
+    const entries = await transcriptStore.loadSince(session.session_id, contextState.last_summarization);
+    const messages: Message[] = entries.map(({ role, content, timestamp }) => ({ role, content, timestamp }));
+
+    let summarization: SummarizationResult;
+    try {
+      summarization = await HistorySummarizer.summarize(
+        messages,
+        summaryRunner(onUsage),
+        contextState.conversation_summary
+      );
+    } catch (error) {
+      log.error('Summarization failed, keeping the current session', { error });
+      summarizationsTotal.inc({ result: 'failed' });
+      throw error;
+    }
+
+    if (!summarization.summary) {
+      log.info('Too few messages in transcript, nothing to summarize', { messages: messages.length });
+      summarizationsTotal.inc({ result: 'skipped' });
+      return null;
+    }
+
+    const reduction = HistorySummarizer.calculateReduction(
+      summarization.originalTokens,
+      summarization.reducedTokens
+    );
+    log.info('Summarization complete', {
+      original_tokens: summarization.originalTokens,
+      reduced_tokens: summarization.reducedTokens,
+      reduction_percent: reduction,
+    });
+    summarizationsTotal.inc({ result: 'completed' });
+
+    return {
+      seed: this.buildSeed(summarization.summary, summarization.recentMessages),
+      state: {
+        conversation_summary: summarization.summary,
+        // The recent messages stay after the cutoff, to be summarized next time
+        last_summarization: summarization.summarizedUntil ?? contextState.last_summarization,
+      },
+    };
+  }
+
+  /**
+   * Format the summary and recent messages as a preamble for a fresh session
+   */
+  private static buildSeed(summary: string, recentMessages: Message[]): string {
+    const recent = recentMessages
+      .map((msg) => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+
+    return `[Context carried over from an earlier part of this conversation]
+Summary:
+${summary}
+
+Most recent messages:
+${recent}
+[End of carried-over context]`;
+  }
+
+  /**
+   * Append an exchange to the transcript; failures are logged, not fatal
+   */
+  private static async recordExchange(sessionId: string, log: Logger, entries: TranscriptEntry[]): Promise<void> {
+    try {
+      await transcriptStore.append(sessionId, entries);
+    } catch (error) {
+      log.error('Failed to record transcript', { error });
+    }
   }
 }
@@ -0,0 +1,990 @@
+/**
+ * End-to-end tests - Executor and Bridge driven through the fake runner
+ *
+ * Starts both services as subprocesses (RUNNER=fake, so Claude is never
+ * called) with a mock Synology incoming webhook capturing outgoing messages.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { mkdtemp, mkdir, rm, writeFile, readFile, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Subprocess, Server } from 'bun';
+import type { FakeRunnerScript } from './fake-runner';
+import type { ExecuteResponse, QuotaStatus, SessionData, UsageReport } from './types';
+import type { SessionTranscript } from './transcript-export';
+import { signPayload, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './callback-client';
+import { ExecutorClient } from '../bridge/src/executor-client';
+import type { ExecutorStreamEvent } from '../bridge/src/types';
+
+const ROOT = join(import.meta.dir, '..');
+const AUTH_TOKEN = 'e2e-secret';
+const STARTUP_TIMEOUT_MS = 10_000;
+
+const SCRIPT: FakeRunnerScript = {
+  default: { output: 'Echo: {{prompt}}' },
+  responses: [
+    { match: '/^Summarize[\\s\\S]*summary breaks/', error: 'Simulated summary failure' },
+    { match: 'explode', error: 'Simulated failure' },
+    { match: 'slow', delay_ms: 30_000, output: 'Finally done.' },
+    { match: 'take a moment', delay_ms: 300, output: 'Done in a moment.' },
+    { match: 'search the logs', tools: ['Grep'], output: 'Found 3 matches.' },
+    { match: 'write a report', files: { 'report.md': '# Weekly report' }, output: 'Report written.' },
+    {
+      match: 'costly',
+      usage: { cost_usd: 0.25, input_tokens: 1200, output_tokens: 300, num_turns: 2 },
+      last_turn_usage: { input_tokens: 700, output_tokens: 200 },
+      output: 'Pricey answer.',
+    },
+    // Leaves the context exactly at the 180K-token hard limit
+    { match: '/^fill the context/', usage: { input_tokens: 179_990, output_tokens: 10 }, output: 'Context filled.' },
+  ],
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Ask the OS for a free port
+ */
+function freePort(): number {
+  const server = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = server.port!;
+  server.stop(true);
+  return port;
+}
+
+/**
+ * Start a service and wait until its /health endpoint answers
+ */
+async function startService(entry: string, env: Record<string, string>): Promise<Subprocess> {
+  const port = env.PORT;
+  const proc = Bun.spawn(['bun', 'run', entry], {
+    cwd: ROOT,
+    env: { ...process.env, ...env },
+    stdout: 'ignore',
+    stderr: 'ignore',
+  });
+
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/health`);
+      if (response.ok) return proc;
+    } catch {
+      // Not listening yet
+    }
+    await sleep(100);
+  }
+
+  proc.kill();
+  throw new Error(`${entry} did not start on port ${port}`);
+}
+
+/**
+ * Wait until a condition holds (messages arrive asynchronously)
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await sleep(50);
+  }
+}
+
+describe('end-to-end with fake runner', () => {
+  let dir: string;
+  let executor: Subprocess;
+  let bridge: Subprocess;
+  let synology: Server<undefined>;
+  let executorUrl: string;
+  let bridgeUrl: string;
+  let executorEnv: Record<string, string>;
+  let bridgeEnv: Record<string, string>;
+  const chatMessages: string[] = [];
+  const chatFiles: string[] = [];
+  const threadReplies: Array<{ text: string; thread_id: number }> = [];
+  const channelNineMessages: string[] = [];
+  const directMessages: Array<{ text: string; user_ids?: number[] }> = [];
+  const callbacks: Array<{ ref: string | null; body: ExecuteResponse }> = [];
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'synology-e2e-'));
+    const scriptPath = join(dir, 'fake-script.json');
+    await writeFile(scriptPath, JSON.stringify(SCRIPT));
+    const channelsPath = join(dir, 'channels.json');
+    // Sessions in channel 10 end after one message; channels 20 and 21 confirm and reject context overflows
+    const policyPath = join(dir, 'session-policy.json');
+    await writeFile(policyPath, JSON.stringify({
+      channels: { '10': { max_messages: 1 }, '20': { context_overflow: 'confirm' }, '21': { context_overflow: 'reject' } },
+    }));
+    // Channels 88 and 89 may run one request a day; user 70 can lift quotas
+    const quotasPath = join(dir, 'quotas.json');
+    await writeFile(quotasPath, JSON.stringify({
+      admins: ['70'],
+      channels: { '88': { daily: { executions: 1 } }, '89': { daily: { executions: 1 } } },
+    }));
+
+    // Mock Synology incoming webhook (and a callback receiver for async jobs)
+    synology = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (req.method === 'GET' && url.pathname === '/files/app.log') {
+          return new Response('ERROR disk full', { headers: { 'Content-Type': 'text/plain' } });
+        }
+
+        if (url.pathname === '/callback') {
+          callbacks.push({ ref: url.searchParams.get('ref'), body: (await req.json()) as ExecuteResponse });
+          return Response.json({ success: true });
+        }
+
+        const form = await req.formData();
+        const payload = JSON.parse(String(form.get('payload')));
+        if (url.pathname === '/bot') {
+          directMessages.push(payload);
+        } else {
+          (url.pathname === '/channel-9' ? channelNineMessages : chatMessages).push(payload.text);
+          if (payload.file_url) chatFiles.push(payload.file_url);
+          if (payload.thread_id) threadReplies.push({ text: payload.text, thread_id: payload.thread_id });
+        }
+        return Response.json({ success: true });
+      },
+    });
+
+    const executorPort = freePort();
+    executorUrl = `http://127.0.0.1:${executorPort}`;
+    executorEnv = {
+      PAI_DIR: dir,
+      BRIDGE_AUTH_TOKEN: AUTH_TOKEN,
+      RUNNER: 'fake',
+      FAKE_RUNNER_SCRIPT: scriptPath,
+      SESSION_POLICY_CONFIG: policyPath,
+      QUOTAS_CONFIG: quotasPath,
+      PORT: String(executorPort),
+    };
+    executor = await startService('src/server.ts', executorEnv);
+
+    const bridgePort = freePort();
+    bridgeUrl = `http://127.0.0.1:${bridgePort}`;
+    // Channel 9 has its own incoming webhook; everything else uses the default
+    await writeFile(channelsPath, JSON.stringify({
+      channels: { '9': { webhook_url: `http://127.0.0.1:${synology.port}/channel-9`, token: 'nine-token' } },
+    }));
+
+    bridgeEnv = {
+      SYNOLOGY_WEBHOOK_URL: `http://127.0.0.1:${synology.port}/webhook`,
+      SYNOLOGY_WEBHOOK_TOKEN: '',
+      EXECUTOR_URL: executorUrl,
+      EXECUTOR_AUTH_TOKEN: AUTH_TOKEN,
+      BRIDGE_PUBLIC_URL: '',
+      STREAM_RESPONSES: 'false',
+      CHANNELS_CONFIG: channelsPath,
+      FILES_BASE_URL: bridgeUrl,
+      LONG_REPLY_AS_FILE: 'true',
+      SYNOLOGY_BOT_URL: `http://127.0.0.1:${synology.port}/bot`,
+      SYNOLOGY_BOT_TOKEN: 'bot-token',
+      DATA_DIR: dir,
+      PORT: String(bridgePort),
+    };
+    bridge = await startService('bridge/src/index.ts', bridgeEnv);
+  });
+
+  afterAll(async () => {
+    bridge?.kill();
+    executor?.kill();
+    await Promise.all([bridge?.exited, executor?.exited]);
+    synology?.stop(true);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const executorFetch = (path: string, body?: unknown) =>
+    fetch(`${executorUrl}${path}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}` },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const webhookTo = (
+    url: string,
+    text: string,
+    userId = 42,
+    channel: { id: number; token?: string } = { id: 7 },
+    fileUrl?: string,
+    threadId?: number
+  ) =>
+    fetch(`${url}/webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        user_id: userId,
+        channel_id: channel.id,
+        user_name: 'alice',
+        text,
+        token: channel.token,
+        file_url: fileUrl,
+        thread_id: threadId,
+      }),
+    });
+
+  const webhook = (text: string, userId?: number, channel?: { id: number; token?: string }, fileUrl?: string, threadId?: number) =>
+    webhookTo(bridgeUrl, text, userId, channel, fileUrl, threadId);
+
+  /**
+   * Start another bridge on the same Executor with some settings changed
+   */
+  const startBridge = async (name: string, env: (url: string) => Record<string, string>) => {
+    const port = freePort();
+    const url = `http://127.0.0.1:${port}`;
+    await mkdir(join(dir, name));
+    const proc = await startService('bridge/src/index.ts', {
+      ...bridgeEnv,
+      FILES_BASE_URL: url,
+      DATA_DIR: join(dir, name),
+      PORT: String(port),
+      ...env(url),
+    });
+    return { proc, url };
+  };
+
+  describe('executor', () => {
+    test('rejects requests without the auth token', async () => {
+      const response = await fetch(`${executorUrl}/execute`, {
+        method: 'POST',
+        body: JSON.stringify({ session_id: 's1', prompt: 'hi', user_name: 'alice' }),
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    test('answers malformed JSON bodies with 400', async () => {
+      for (const path of ['/cancel', '/project', '/archive', '/quota/override']) {
+        const response = await fetch(`${executorUrl}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}` },
+          body: '{"session_id": ',
+        });
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({ error: 'Invalid JSON body' });
+      }
+    });
+
+    test('executes and continues a session', async () => {
+      const first = (await (await executorFetch('/execute', { session_id: 'e2e_1', prompt: 'hello', user_name: 'alice' })).json()) as ExecuteResponse;
+      expect(first).toMatchObject({ success: true, session_id: 'e2e_1', result: 'Echo: hello' });
+      expect(first.claude_session_id).toStartWith('fake-session-');
+
+      const second = (await (await executorFetch('/execute', { session_id: 'e2e_1', prompt: 'again', user_name: 'alice' })).json()) as ExecuteResponse;
+      expect(second.claude_session_id).toBe(first.claude_session_id);
+
+      const session = (await (await executorFetch('/session/e2e_1')).json()) as SessionData;
+      expect(session.message_count).toBe(2);
+    });
+
+    test('echoes the correlation id it was sent, or a new one', async () => {
+      const response = await fetch(`${executorUrl}/execute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${AUTH_TOKEN}`, 'X-Correlation-Id': 'e2e-trace-1' },
+        body: JSON.stringify({ session_id: 'e2e_4', prompt: 'hello', user_name: 'alice' }),
+      });
+      expect(response.headers.get('X-Correlation-Id')).toBe('e2e-trace-1');
+      expect(((await response.json()) as ExecuteResponse).correlation_id).toBe('e2e-trace-1');
+
+      const generated = await executorFetch('/execute', { session_id: 'e2e_4', prompt: 'again', user_name: 'alice' });
+      const id = generated.headers.get('X-Correlation-Id');
+      expect(id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(((await generated.json()) as ExecuteResponse).correlation_id).toBe(id!);
+    });
+
+    test('reports runner failures in the response', async () => {
+      const response = await executorFetch('/execute', { session_id: 'e2e_2', prompt: 'explode', user_name: 'alice' });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toMatchObject({ success: false, error: 'Simulated failure' });
+    });
+
+    test('resets a session', async () => {
+      await executorFetch('/execute', { session_id: 'e2e_3', prompt: 'hello', user_name: 'alice' });
+      const reset = await executorFetch('/reset', { session_id: 'e2e_3' });
+      expect(await reset.json()).toMatchObject({ success: true });
+
+      const session = await executorFetch('/session/e2e_3');
+      expect(session.status).toBe(404);
+    });
+  });
+
+  describe('bridge webhook', () => {
+    test('relays a chat message to Claude and posts the reply', async () => {
+      chatMessages.length = 0;
+      const response = await webhook('@claude what is up');
+      expect(response.status).toBe(200);
+
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages).toEqual(['Thinking...', 'Echo: what is up']);
+
+      const session = (await (await executorFetch('/session/7_42')).json()) as SessionData & { expires_at?: string };
+      expect(session.message_count).toBe(1);
+      expect(Date.parse(session.expires_at!)).toBeGreaterThan(Date.now());
+    });
+
+    test('resets the session on both services', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook('@claude reset');
+
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages).toEqual(['Session reset. Starting fresh!']);
+      expect((await executorFetch('/session/7_42')).status).toBe(404);
+    });
+  });
+
+  describe('shared channel mode', () => {
+    const say = (userId: number, userName: string, text: string) =>
+      fetch(`${bridgeUrl}/webhook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user_id: userId, channel_id: 8, user_name: userName, text }),
+      });
+
+    test('lets the whole channel talk to one session', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await say(50, 'alice', '@claude mode shared');
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toContain('now shares one Claude session');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await say(50, 'alice', '@claude the build is red');
+      await sleep(600);
+      await say(51, 'bob', '@claude I pushed a fix');
+
+      await waitFor(() => chatMessages.filter((m) => m.startsWith('Echo:')).length >= 2);
+      expect(chatMessages).toContain('Echo: [alice] the build is red');
+      expect(chatMessages).toContain('Echo: [bob] I pushed a fix');
+
+      const session = (await (await executorFetch('/session/8_shared')).json()) as SessionData;
+      expect(session.message_count).toBe(2);
+      expect((await executorFetch('/session/8_50')).status).toBe(404);
+    });
+  });
+
+  describe('threads', () => {
+    test('keeps a separate session per thread and replies inside it', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      threadReplies.length = 0;
+      await webhook('@claude thread topic', 47, { id: 7 }, undefined, 1234);
+
+      await waitFor(() => threadReplies.length >= 2);
+      expect(threadReplies).toEqual([
+        { text: 'Thinking...', thread_id: 1234 },
+        { text: 'Echo: thread topic', thread_id: 1234 },
+      ]);
+
+      const session = (await (await executorFetch('/session/7_47_t1234')).json()) as SessionData;
+      expect(session).toMatchObject({ thread_id: '1234', message_count: 1 });
+      expect((await executorFetch('/session/7_47')).status).toBe(404);
+    });
+  });
+
+  describe('named sessions', () => {
+    const send = async (text: string) => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook(text, 44);
+    };
+
+    test('parks a conversation in a named session and returns to it', async () => {
+      await send('@claude first topic');
+      await waitFor(() => chatMessages.includes('Echo: first topic'));
+
+      await send('@claude session new refactor');
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toStartWith('Started session refactor.');
+
+      await send('@claude second topic');
+      await waitFor(() => chatMessages.includes('Echo: second topic'));
+      const named = (await (await executorFetch('/session/7_44__refactor')).json()) as SessionData;
+      expect(named.message_count).toBe(1);
+      const parked = (await (await executorFetch('/session/7_44')).json()) as SessionData;
+      expect(parked).toMatchObject({ archived: true, message_count: 1 });
+
+      await send('@claude session list');
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toContain('* refactor (7_44__refactor)');
+      expect(chatMessages[0]).toContain('- default (7_44)');
+
+      await send('@claude session switch default');
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toStartWith('Switched to session default.');
+      const resumed = (await (await executorFetch('/session/7_44')).json()) as SessionData;
+      expect(resumed.archived).toBeUndefined();
+      expect(((await (await executorFetch('/session/7_44__refactor')).json()) as SessionData).archived).toBe(true);
+    });
+  });
+
+  describe('session policy', () => {
+    const send = async (text: string) => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook(text, 42, { id: 10 });
+      await waitFor(() => chatMessages.some((m) => m.startsWith('Echo:')));
+    };
+
+    test('warns at the message limit and reports why the session ended', async () => {
+      await send('@claude one');
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages).toEqual([
+        'Thinking...',
+        'Echo: one',
+        'This session has reached its message limit. Your next message starts a new session.',
+      ]);
+
+      await send('@claude two');
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages[2]).toContain('previous session ended because it reached its message limit');
+
+      // The new session is already at its limit
+      const ended = await executorFetch('/session/10_42');
+      expect(ended.status).toBe(404);
+      expect(await ended.json()).toMatchObject({ ended_reason: 'max_messages' });
+    }, 15_000); // Each reply waits out the Synology rate limit
+  });
+
+  describe('attachments', () => {
+    test('stages an attached file in the session scratch directory', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook('@claude what went wrong?', 45, { id: 7 }, `http://127.0.0.1:${synology.port}/files/app.log`);
+
+      await waitFor(() => chatMessages.length >= 2);
+      const scratch = join(dir, 'integrations/synology-chat/scratch/7_45');
+      const staged = join(scratch, 'attachments/app.log');
+      expect(chatMessages[1]).toBe(`Echo: what went wrong?\n\n[The user attached a file:\n- ${staged}]`);
+      expect(await readFile(staged, 'utf-8')).toBe('ERROR disk full');
+
+      // Removed together with the session
+      await executorFetch('/reset', { session_id: '7_45' });
+      await expect(stat(scratch)).rejects.toThrow();
+    });
+  });
+
+  describe('output files', () => {
+    test('posts files Claude created as download links', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      chatFiles.length = 0;
+      await webhook('@claude write a report', 46);
+
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages).toEqual(['Thinking...', 'Report written.', 'report.md']);
+      expect(chatFiles).toHaveLength(1);
+      expect(chatFiles[0]).toStartWith(`${bridgeUrl}/files/`);
+
+      const download = await fetch(chatFiles[0]);
+      expect(await download.text()).toBe('# Weekly report');
+
+      // The link only works with its token
+      const guessed = chatFiles[0].replace(/\/files\/[^/]+\//, '/files/guess/');
+      expect((await fetch(guessed)).status).toBe(404);
+    });
+
+    test('attaches very long replies as a markdown file', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      chatFiles.length = 0;
+      const long = Array.from({ length: 40 }, (_, i) => `Paragraph ${i}: ${'lorem '.repeat(50).trim()}`).join('\n\n');
+      await webhook(`@claude ${long}`, 46);
+
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages[1]).toMatch(/^The reply is long \(\d+ messages\), so it is attached as reply\.md\.$/);
+      expect(await (await fetch(chatFiles[0])).text()).toBe(`Echo: ${long}`);
+    });
+  });
+
+  describe('export', () => {
+    test('returns the session transcript as JSON or Markdown', async () => {
+      const json = (await (await executorFetch('/session/7_46/transcript')).json()) as SessionTranscript;
+      expect(json.entries.slice(0, 2).map((entry) => [entry.role, entry.content])).toEqual([
+        ['user', 'write a report'],
+        ['assistant', 'Report written.'],
+      ]);
+
+      const markdown = await executorFetch('/session/7_46/transcript?format=markdown');
+      expect(markdown.headers.get('content-type')).toStartWith('text/markdown');
+      expect(await markdown.text()).toContain('## Claude (');
+
+      expect((await executorFetch('/session/7_46/transcript?format=xml')).status).toBe(400);
+      expect((await executorFetch('/session/missing/transcript')).status).toBe(404);
+    });
+
+    test('posts the transcript as a file for the export command', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      chatFiles.length = 0;
+      await webhook('@claude export', 46);
+
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages).toEqual(['Transcript of this session: transcript-7_46.md']);
+
+      const download = await (await fetch(chatFiles[0])).text();
+      expect(download).toStartWith('# Session 7_46');
+      expect(download).toContain('write a report');
+    });
+  });
+
+  describe('channel routing', () => {
+    test('replies through the originating channel webhook', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook('@claude hi from nine', 44, { id: 9, token: 'nine-token' });
+
+      await waitFor(() => channelNineMessages.length >= 2);
+      expect(channelNineMessages).toEqual(['Thinking...', 'Echo: hi from nine']);
+      expect(chatMessages).toEqual([]);
+    });
+
+    test('rejects a webhook with the wrong channel token', async () => {
+      const response = await webhook('@claude hi', 44, { id: 9, token: 'wrong' });
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('direct messages', () => {
+    const directMessage = (text: string, token = 'bot-token') =>
+      fetch(`${bridgeUrl}/webhook`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ user_id: 5, username: 'bob', text, token }),
+      });
+
+    test('answers a bot message privately in a per-user session', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      const response = await directMessage('hello in private');
+      expect(response.status).toBe(200);
+
+      await waitFor(() => directMessages.length >= 2);
+      expect(directMessages).toEqual([
+        { text: 'Thinking...', user_ids: [5] },
+        { text: 'Echo: hello in private', user_ids: [5] },
+      ]);
+      expect(chatMessages).toEqual([]);
+
+      const session = (await (await executorFetch('/session/dm_5')).json()) as SessionData;
+      expect(session.message_count).toBe(1);
+    });
+
+    test('rejects a bot message with the wrong token', async () => {
+      const response = await directMessage('hello', 'wrong');
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('usage', () => {
+    test('reports cost and tokens by day, user and channel', async () => {
+      for (const prompt of ['costly one', 'costly two']) {
+        await executorFetch('/execute', { session_id: 'e2e_usage', prompt, user_name: 'carol', user_id: 'u9', channel_id: '77' });
+      }
+
+      const report = (await (await executorFetch('/usage?user_id=u9')).json()) as UsageReport;
+      expect(report.totals).toMatchObject({ executions: 2, cost_usd: 0.5, input_tokens: 2400, output_tokens: 600, num_turns: 4 });
+      expect(report.by_day).toHaveLength(1);
+      expect(report.by_user).toEqual([expect.objectContaining({ user_id: 'u9', user_name: 'carol', executions: 2 })]);
+      expect(report.by_channel).toEqual([expect.objectContaining({ channel_id: '77', cost_usd: 0.5 })]);
+
+      const future = (await (await executorFetch('/usage?user_id=u9&from=2999-01-01')).json()) as UsageReport;
+      expect(future.totals.executions).toBe(0);
+      expect((await executorFetch('/usage?from=yesterday')).status).toBe(400);
+    });
+
+    test("sizes the context from Claude's token counts", async () => {
+      // The last of the run's 2 turns: its input plus its output
+      const session = (await (await executorFetch('/session/e2e_usage')).json()) as SessionData & { context_usage_percent: number };
+      expect(session.context_state).toMatchObject({ estimated_tokens: 900, token_source: 'reported' });
+      expect(session.context_usage_percent).toBe(1);
+
+      await executorFetch('/execute', { session_id: 'e2e_estimated', prompt: 'no usage here', user_name: 'carol' });
+      const estimated = (await (await executorFetch('/session/e2e_estimated')).json()) as SessionData;
+      expect(estimated.context_state?.token_source).toBe('estimated');
+    });
+
+    test('shows session and daily usage in status', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      await webhook('@claude a costly question', 61);
+      await waitFor(() => chatMessages.length >= 2);
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude status', 61);
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toContain('Session usage: 1 request, $0.25, 1.5K tokens');
+      expect(chatMessages[0]).toContain('Your usage today: 1 request, $0.25, 1.5K tokens');
+      expect(chatMessages[0]).toContain('Context: 1% of the session limit');
+    }, 10_000);
+  });
+
+  describe('context overflow', () => {
+    const fill = async (sessionId: string, channelId?: string) => {
+      const filled = (await (await executorFetch('/execute', { session_id: sessionId, prompt: 'fill the context', user_name: 'erin', channel_id: channelId })).json()) as ExecuteResponse;
+      expect(filled.context_warning).toEqual({ percent: 100, policy: channelId === '20' ? 'confirm' : channelId === '21' ? 'reject' : 'summarize' });
+      return filled;
+    };
+    const ask = async (sessionId: string, channelId?: string, extra: Record<string, unknown> = {}) =>
+      (await (await executorFetch('/execute', { session_id: sessionId, prompt: 'next question', user_name: 'erin', channel_id: channelId, ...extra })).json()) as ExecuteResponse;
+    const sessionOf = async (sessionId: string) => (await (await executorFetch(`/session/${sessionId}`)).json()) as SessionData;
+
+    test('summarizes and rolls over to a fresh Claude session by default', async () => {
+      const filled = await fill('e2e_overflow_summarize');
+      const response = await ask('e2e_overflow_summarize');
+      expect(response).toMatchObject({ success: true, result: 'Echo: next question' });
+      expect(response.context_overflow).toMatchObject({ policy: 'summarize', outcome: 'rolled_over', limit: 180_000 });
+      expect(response.claude_session_id).not.toBe(filled.claude_session_id);
+
+      const session = await sessionOf('e2e_overflow_summarize');
+      expect(session.context_state?.last_overflow).toMatchObject({ outcome: 'rolled_over' });
+      expect(session.context_state?.estimated_tokens).toBeLessThan(100);
+      expect(session.context_state?.context_warning_sent).toBe(false);
+    });
+
+    test('keeps the whole history in the summary across rollovers', async () => {
+      for (let i = 1; i <= 11; i++) {
+        await executorFetch('/execute', { session_id: 'e2e_two_rollovers', prompt: `early ${i}`, user_name: 'erin' });
+      }
+      await fill('e2e_two_rollovers');
+      expect((await ask('e2e_two_rollovers')).context_overflow).toMatchObject({ outcome: 'rolled_over' });
+      await fill('e2e_two_rollovers');
+      expect((await ask('e2e_two_rollovers')).context_overflow).toMatchObject({ outcome: 'rolled_over' });
+
+      // The fake runner echoes the summary prompt, so the summary shows what it was given
+      const summary = (await sessionOf('e2e_two_rollovers')).context_state?.conversation_summary;
+      expect(summary).toContain('Echo: early 1\n'); // Beyond the 20 most recent entries at the first rollover
+      expect(summary).toContain('Echo: early 11'); // Kept verbatim at the first rollover
+    });
+
+    test('keeps the old session when the rolled-over run fails', async () => {
+      for (const prompt of ['history one', 'history two']) {
+        await executorFetch('/execute', { session_id: 'e2e_overflow_run_fails', prompt, user_name: 'erin' });
+      }
+      const filled = await fill('e2e_overflow_run_fails');
+      const response = await ask('e2e_overflow_run_fails', undefined, { prompt: 'explode now' });
+      expect(response.success).toBe(false);
+      expect(response.context_overflow).toMatchObject({ outcome: 'failed' });
+
+      const session = await sessionOf('e2e_overflow_run_fails');
+      expect(session.claude_session_id).toBe(filled.claude_session_id);
+      expect(session.context_state).toMatchObject({ estimated_tokens: 180_000, token_source: 'reported' });
+      expect(session.context_state?.conversation_summary).toBeUndefined();
+    });
+
+    test('keeps the old session when summarization fails', async () => {
+      for (const prompt of ['summary breaks here', 'and more history', 'and then some']) {
+        await executorFetch('/execute', { session_id: 'e2e_summary_fails', prompt, user_name: 'erin' });
+      }
+      const filled = await fill('e2e_summary_fails');
+      const response = await ask('e2e_summary_fails');
+      expect(response.success).toBe(false);
+      expect(response.error).toBe('Summarization failed: Simulated summary failure');
+      expect(response.context_overflow).toMatchObject({ policy: 'summarize', outcome: 'failed' });
+
+      const session = await sessionOf('e2e_summary_fails');
+      expect(session.claude_session_id).toBe(filled.claude_session_id);
+      expect(session.context_state?.conversation_summary).toBeUndefined();
+      expect(await (await fetch(`${executorUrl}/metrics`)).text()).toMatch(/^executor_summarizations_total\{result="failed"\} 1$/m);
+    });
+
+    test('rejects the message under the reject policy', async () => {
+      await fill('e2e_overflow_reject', '21');
+      const response = await ask('e2e_overflow_reject', '21');
+      expect(response.success).toBe(false);
+      expect(response.error).toStartWith('Context limit reached');
+      expect(response.context_overflow).toMatchObject({ policy: 'reject', outcome: 'rejected' });
+
+      const session = await sessionOf('e2e_overflow_reject');
+      expect(session.message_count).toBe(1);
+      expect(session.context_state?.last_overflow).toMatchObject({ outcome: 'rejected' });
+    });
+
+    test('holds the message until confirmed under the confirm policy', async () => {
+      await fill('e2e_overflow_confirm', '20');
+      const held = await ask('e2e_overflow_confirm', '20');
+      expect(held.context_overflow).toMatchObject({ policy: 'confirm', outcome: 'awaiting_confirmation' });
+      expect((await sessionOf('e2e_overflow_confirm')).context_state?.last_overflow?.pending_prompt).toBe('next question');
+
+      const confirmed = (await (await executorFetch('/execute', { session_id: 'e2e_overflow_confirm', prompt: 'confirm', user_name: 'erin', channel_id: '20', confirm_overflow: true })).json()) as ExecuteResponse;
+      expect(confirmed).toMatchObject({ success: true, result: 'Echo: next question' });
+      expect(confirmed.context_overflow).toMatchObject({ policy: 'confirm', outcome: 'rolled_over' });
+
+      const session = await sessionOf('e2e_overflow_confirm');
+      expect(session.context_state?.last_overflow).not.toHaveProperty('pending_prompt');
+    });
+
+    test('asks in chat and continues after @claude confirm', async () => {
+      const channel = { id: 20 };
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude fill the context', 42, channel);
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages[2]).toBe(
+        'This conversation is using 100% of its context limit. When it is full, you will be asked before the conversation is summarized and continued in a fresh session.'
+      );
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude next question', 42, channel);
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages[1]).toStartWith('This message would take the conversation past its context limit. Reply @claude confirm');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude confirm', 42, channel);
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages[1]).toBe('Echo: next question');
+      expect(chatMessages[2]).toBe('This conversation reached its context limit, so it was summarized and continued in a fresh session.');
+    }, 15_000);
+  });
+
+  describe('quotas', () => {
+    const channel = { id: 88 };
+
+    test('turns away requests once a quota is used up', async () => {
+      const first = (await (await executorFetch('/execute', { session_id: 'e2e_quota', prompt: 'hi', user_name: 'dan', channel_id: '88' })).json()) as ExecuteResponse;
+      expect(first.success).toBe(true);
+
+      const second = (await (await executorFetch('/execute', { session_id: 'e2e_quota', prompt: 'again', user_name: 'dan', channel_id: '88' })).json()) as ExecuteResponse;
+      expect(second.success).toBe(false);
+      expect(second.quota_exceeded).toMatchObject({ scope: 'channel', id: '88', period: 'daily', used: 1, limit: 1 });
+      expect(second.error).toStartWith('Daily quota of 1 executions reached for channel 88');
+
+      const status = (await (await executorFetch('/quota?channel_id=88')).json()) as QuotaStatus;
+      expect(status.quotas).toEqual([expect.objectContaining({ metric: 'executions', used: 1 })]);
+    });
+
+    test('rejects asynchronous requests over a quota right away', async () => {
+      const response = await executorFetch('/execute', {
+        session_id: 'e2e_quota',
+        prompt: 'later',
+        user_name: 'dan',
+        channel_id: '88',
+        callback_url: `http://127.0.0.1:${synology.port}/callback?ref=over-quota`,
+      });
+      expect(response.status).toBe(429);
+      expect(await response.json()).toMatchObject({ success: false, quota_exceeded: { scope: 'channel', id: '88' } });
+
+      await sleep(200);
+      expect(callbacks.some((callback) => callback.ref === 'over-quota')).toBe(false);
+    });
+
+    test('counts requests still running against the quota', async () => {
+      const responses = await Promise.all(
+        [1, 2, 3].map(async (i) =>
+          (await (await executorFetch('/execute', { session_id: `e2e_quota_burst_${i}`, prompt: 'take a moment', user_name: 'dan', channel_id: '89' })).json()) as ExecuteResponse
+        )
+      );
+      expect(responses.filter((response) => response.success)).toHaveLength(1);
+      expect(responses.filter((response) => response.quota_exceeded)).toHaveLength(2);
+    });
+
+    test('tells the chat and lets admins lift the quota', async () => {
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude are you there', 71, channel);
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages[1]).toStartWith('This channel has reached the daily limit of 1 request, so this message was not run.');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude quota lift channel 88', 71, channel);
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toBe('Error: Only quota admins can override quotas');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude quota lift channel 88 2', 70, channel);
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toBe('Lifted the quotas of channel 88 for 2 hours.');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude quota', 71, channel);
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages[0]).toContain('- Channel, daily: 1 request of 1 request (lifted)');
+
+      await sleep(600);
+      chatMessages.length = 0;
+      await webhook('@claude are you there', 71, channel);
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages[1]).toBe('Echo: are you there');
+    }, 15_000);
+  });
+
+  describe('metrics', () => {
+    test('both services expose Prometheus metrics', async () => {
+      const executorMetrics = await (await fetch(`${executorUrl}/metrics`)).text();
+      expect(executorMetrics).toMatch(/^executor_requests_total\{outcome="success"\} \d+$/m);
+      expect(executorMetrics).toMatch(/^executor_requests_total\{outcome="error"\} \d+$/m);
+      expect(executorMetrics).toMatch(/^executor_execution_duration_seconds_count [1-9]\d*$/m);
+      expect(executorMetrics).toContain('# TYPE executor_queue_wait_seconds histogram');
+
+      const bridgeMetrics = await (await fetch(`${bridgeUrl}/metrics`)).text();
+      expect(bridgeMetrics).toMatch(/^bridge_requests_total\{outcome="success"\} [1-9]\d*$/m);
+      expect(bridgeMetrics).toMatch(/^bridge_request_duration_seconds_count [1-9]\d*$/m);
+      expect(bridgeMetrics).toMatch(/^bridge_sessions_active \d+$/m);
+    });
+  });
+
+  describe('streaming', () => {
+    let streaming: { proc: Subprocess; url: string };
+
+    beforeAll(async () => {
+      streaming = await startBridge('stream-bridge', () => ({ STREAM_RESPONSES: 'true' }));
+    }, STARTUP_TIMEOUT_MS);
+
+    afterAll(async () => {
+      streaming?.proc.kill();
+      await streaming?.proc.exited;
+    });
+
+    test('executor streams queued, tool, text and result events', async () => {
+      const client = new ExecutorClient(executorUrl, AUTH_TOKEN);
+      const events: ExecutorStreamEvent[] = [];
+      const result = await client.executeStream(
+        { session_id: 'e2e_stream', prompt: 'search the logs', user_name: 'alice' },
+        (event) => events.push(event)
+      );
+
+      expect(events).toEqual([
+        { type: 'queued', position: 0 },
+        { type: 'tool', name: 'Grep' },
+        { type: 'text', text: 'Found 3 matches.' },
+      ]);
+      expect(result).toMatchObject({ success: true, session_id: 'e2e_stream', result: 'Found 3 matches.' });
+    });
+
+    test('bridge relays streamed replies and tool steps', async () => {
+      chatMessages.length = 0;
+      await webhookTo(streaming.url, '@claude search the logs', 47);
+
+      await waitFor(() => chatMessages.length >= 3);
+      expect(chatMessages).toEqual(['Thinking...', '[Using Grep]', 'Found 3 matches.']);
+    });
+
+    test('bridge attaches long streamed replies as a markdown file', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+      chatFiles.length = 0;
+      const long = Array.from({ length: 40 }, (_, i) => `Paragraph ${i}: ${'lorem '.repeat(50).trim()}`).join('\n\n');
+      await webhookTo(streaming.url, `@claude ${long}`, 47);
+
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages[1]).toMatch(/^The reply is long \(\d+ messages\), so it is attached as reply\.md\.$/);
+      expect(await (await fetch(chatFiles[0])).text()).toBe(`Echo: ${long}`);
+    });
+  });
+
+  describe('callback mode', () => {
+    let callbackBridge: { proc: Subprocess; url: string };
+
+    beforeAll(async () => {
+      callbackBridge = await startBridge('callback-bridge', (url) => ({ BRIDGE_PUBLIC_URL: url }));
+    }, STARTUP_TIMEOUT_MS);
+
+    afterAll(async () => {
+      callbackBridge?.proc.kill();
+      await callbackBridge?.proc.exited;
+    });
+
+    const signedCallback = (ref: string, body: string, secret = AUTH_TOKEN) => {
+      const timestamp = String(Date.now());
+      return fetch(`${callbackBridge.url}/callback?ref=${ref}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: `sha256=${signPayload(body, timestamp, secret)}`,
+        },
+        body,
+      });
+    };
+
+    test('posts the result the Executor calls back with', async () => {
+      chatMessages.length = 0;
+      await webhookTo(callbackBridge.url, '@claude take a moment', 48);
+      expect(chatMessages).toEqual(['Thinking...']); // Accepted; the answer comes on /callback
+
+      await waitFor(() => chatMessages.length >= 2);
+      expect(chatMessages).toEqual(['Thinking...', 'Done in a moment.']);
+    });
+
+    test('rejects callbacks with a bad signature', async () => {
+      const body = JSON.stringify({ success: true, session_id: '7_48', result: 'Forged' });
+      expect((await signedCallback('any', body, 'wrong-secret')).status).toBe(401);
+
+      const unsigned = await fetch(`${callbackBridge.url}/callback?ref=any`, { method: 'POST', body });
+      expect(unsigned.status).toBe(401);
+    });
+
+    test('rejects signed callbacks for unknown jobs', async () => {
+      chatMessages.length = 0;
+      const response = await signedCallback('no-such-ref', JSON.stringify({ success: true, session_id: '7_48', result: 'Stray' }));
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Unknown job' });
+      await sleep(200);
+      expect(chatMessages).toEqual([]);
+    });
+  });
+
+  describe('restart recovery', () => {
+    test('executor re-queues waiting callback jobs and fails interrupted ones', async () => {
+      const submit = async (prompt: string, ref: string) => {
+        const response = await executorFetch('/execute', {
+          session_id: 'restart_1',
+          prompt,
+          user_name: 'alice',
+          callback_url: `http://127.0.0.1:${synology.port}/callback?ref=${ref}`,
+        });
+        return (await response.json()) as { job_id: string; queue_position: number };
+      };
+
+      const running = await submit('slow job', 'running');
+      const waiting = await submit('quick follow-up', 'waiting');
+      expect(running.queue_position).toBe(0);
+      expect(waiting.queue_position).toBe(1); // Same session: waits for the slow job
+
+      // Crash and restart the Executor
+      executor.kill(9);
+      await executor.exited;
+      executor = await startService('src/server.ts', executorEnv);
+
+      await waitFor(() => callbacks.length >= 2);
+      const byRef = Object.fromEntries(callbacks.map((callback) => [callback.ref, callback.body]));
+      expect(byRef.running).toMatchObject({ success: false, job_id: running.job_id });
+      expect(byRef.running.error).toContain('Executor restart');
+      expect(byRef.waiting).toMatchObject({ success: true, result: 'Echo: quick follow-up', job_id: waiting.job_id });
+
+      const job = await (await executorFetch(`/jobs/${running.job_id}`)).json();
+      expect(job).toMatchObject({ id: running.job_id, status: 'failed', queue_position: -1 });
+    });
+
+    test('bridge tells users about requests cut off by a restart', async () => {
+      await sleep(600); // Bridge drops webhooks less than 500ms apart
+      chatMessages.length = 0;
+
+      // Blocking request that is still running when the bridge dies
+      const pending = webhook('@claude slow report please', 43).catch(() => null);
+      await waitFor(() => chatMessages.includes('Thinking...'));
+
+      bridge.kill(9);
+      await Promise.all([bridge.exited, pending]);
+      chatMessages.length = 0;
+      bridge = await startService('bridge/src/index.ts', bridgeEnv);
+
+      await waitFor(() => chatMessages.length >= 1);
+      expect(chatMessages).toEqual([
+        'Sorry alice, your request "slow report please" was interrupted by a restart. Please send it again.',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for Fake Runner
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { FakeRunner } from './fake-runner';
+import type { ClaudeStreamEvent } from './claude-runner';
+
+describe('FakeRunner', () => {
+  test('echoes the prompt by default', async () => {
+    const runner = new FakeRunner();
+    const result = await runner.run({ prompt: 'hello' });
+
+    expect(result).toEqual({ success: true, output: 'Echo: hello', sessionId: 'fake-session-1' });
+    expect(runner.calls.map((call) => call.prompt)).toEqual(['hello']);
+  });
+
+  test('uses the first matching scripted response', async () => {
+    const runner = new FakeRunner({
+      default: { output: 'Default' },
+      responses: [
+        { match: '/^deploy\\b/i', output: 'Deploying {{prompt}}' },
+        { match: 'status', output: 'All green' },
+      ],
+    });
+
+    expect((await runner.run({ prompt: 'Deploy web' })).output).toBe('Deploying Deploy web');
+    expect((await runner.run({ prompt: 'cluster status?' })).output).toBe('All green');
+    expect((await runner.run({ prompt: 'other' })).output).toBe('Default');
+  });
+
+  test('keeps the given session id and assigns scripted ones', async () => {
+    const runner = new FakeRunner({ responses: [{ match: 'pin', session_id: 'scripted' }] });
+
+    expect((await runner.run({ prompt: 'hi', sessionId: 'existing' })).sessionId).toBe('existing');
+    expect((await runner.run({ prompt: 'pin it' })).sessionId).toBe('scripted');
+  });
+
+  test('reports scripted failures', async () => {
+    const runner = new FakeRunner({ responses: [{ match: 'boom', error: 'Simulated failure' }] });
+    const result = await runner.run({ prompt: 'boom' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Simulated failure');
+  });
+
+  test('streams tool steps and text', async () => {
+    const runner = new FakeRunner({ responses: [{ tools: ['Grep'], output: 'Found it' }] });
+    const events: ClaudeStreamEvent[] = [];
+    await runner.run({ prompt: 'search', onEvent: (event) => events.push(event) });
+
+    expect(events).toEqual([
+      { type: 'tool', name: 'Grep' },
+      { type: 'text', text: 'Found it' },
+    ]);
+  });
+
+  test('answers chunks separately', async () => {
+    const runner = new FakeRunner();
+    const result = await runner.run({ prompt: '', chunks: ['one', 'two'] });
+
+    expect(result.output).toBe('Echo: one\n---\nEcho: two');
+  });
+
+  test('cancels a delayed response when aborted', async () => {
+    const runner = new FakeRunner({ default: { delay_ms: 10_000 } });
+    const controller = new AbortController();
+    const pending = runner.run({ prompt: 'slow', signal: controller.signal });
+    controller.abort();
+
+    const result = await pending;
+    expect(result.cancelled).toBe(true);
+    expect(result.success).toBe(false);
+  });
+
+  test('fails to load a missing script', async () => {
+    await expect(FakeRunner.fromFile('/nonexistent/fake-script.json')).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Fake Runner - Scriptable stand-in for the Claude CLI
+ *
+ * Answers prompts from a script of canned responses so the HTTP flows can be
+ * exercised without Claude installed (CI, local development). Select it with
+ * RUNNER=fake and point FAKE_RUNNER_SCRIPT at a JSON script.
+ *
+ * Responses are tried in order; the first whose `match` is found in the
+ * prompt (or matches it, for `/regex/` patterns) is used, falling back to
+ * `default`. `{{prompt}}` in an output is replaced with the prompt.
+ *
+ * @example
+ * {
+ *   "default": { "output": "Echo: {{prompt}}" },
+ *   "responses": [
+ *     { "match": "slow", "delay_ms": 2000, "output": "Finally done." },
+ *     { "match": "/^fail/i", "error": "Simulated failure" },
+ *     { "match": "grep", "tools": ["Grep"], "output": "Found 3 matches." },
+ *     { "match": "report", "files": { "report.md": "# Report" }, "output": "Report attached." },
+ *     { "match": "costly", "usage": { "cost_usd": 0.25, "input_tokens": 1200, "output_tokens": 300 } },
+ *     { "match": "tools", "usage": { "input_tokens": 1400, "num_turns": 2 }, "last_turn_usage": { "input_tokens": 1000 } }
+ *   ]
+ * }
+ */
+
+import { join } from 'path';
+import { writeFile } from 'fs/promises';
+import { loadJsonConfig } from './utils/config-loader';
+import { addUsage } from './utils/claude-usage';
+import type { ClaudeRunOptions, ClaudeRunResult, ClaudeUsage } from './claude-runner';
+import type { TurnUsage } from './utils/claude-usage';
+import type { Runner } from './runner';
+
+export interface FakeResponse {
+  match?: string; // Substring, or /pattern/flags for a regex
+  output?: string; // default: "Echo: {{prompt}}"
+  error?: string; // Fail with this error instead of answering
+  delay_ms?: number; // Wait before answering (cancellable)
+  session_id?: string; // default: keep the given session or assign fake-session-<n>
+  tools?: string[]; // Tool steps reported before the output when streaming
+  files?: Record<string, string>; // Written to the run's output directory (name -> content)
+  usage?: Partial<ClaudeUsage>; // Reported as the run's cost and token usage (missing figures are 0)
+  last_turn_usage?: Partial<TurnUsage>; // Reported as the last turn's tokens, as a streamed run would
+}
+
+export interface FakeRunnerScript {
+  default?: FakeResponse;
+  responses?: FakeResponse[];
+}
+
+const DEFAULT_RESPONSE: FakeResponse = { output: 'Echo: {{prompt}}' };
+const EMPTY_TURN_USAGE: TurnUsage = { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+const CANCELLED_ERROR = 'Cancelled by user';
+
+/**
+ * Check whether a response's match pattern applies to a prompt
+ */
+function matches(pattern: string, prompt: string): boolean {
+  const regex = pattern.match(/^\/(.*)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(pattern);
+}
+
+/**
+ * Resolve after a delay, or early (with false) if the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<boolean> {
+  if (signal?.aborted) return Promise.resolve(false);
+
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class FakeRunner implements Runner {
+  /** Every run, in order - lets tests assert what reached the runner */
+  readonly calls: ClaudeRunOptions[] = [];
+  private sessionCounter = 0;
+
+  constructor(private script: FakeRunnerScript = {}) {}
+
+  /**
+   * Load a script from a JSON file
+   * @throws If the file is missing or not valid JSON
+   */
+  static async fromFile(path: string): Promise<FakeRunner> {
+    const script = await loadJsonConfig<FakeRunnerScript>(path);
+    if (!script) {
+      throw new Error(`Fake runner script not found: ${path}`);
+    }
+    return new FakeRunner(script);
+  }
+
+  async run(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    this.calls.push(options);
+
+    // Answer chunks one by one, joined the way the CLI runner joins them
+    const prompts = options.chunks && options.chunks.length > 0 ? options.chunks : [options.prompt];
+    const outputs: string[] = [];
+    let sessionId = options.sessionId;
+    let usage: ClaudeUsage | undefined;
+    let finalUsage: ClaudeUsage | undefined;
+    let lastTurnUsage: TurnUsage | undefined;
+
+    for (const prompt of prompts) {
+      const response = this.respond(prompt);
+      usage = addUsage(usage, response.usage as ClaudeUsage | undefined);
+      finalUsage = addUsage(response.usage as ClaudeUsage | undefined);
+      lastTurnUsage = response.last_turn_usage && { ...EMPTY_TURN_USAGE, ...response.last_turn_usage };
+
+      const completed = response.delay_ms ? await wait(response.delay_ms, options.signal) : !options.signal?.aborted;
+      if (!completed) {
+        return { success: false, output: '', sessionId, error: CANCELLED_ERROR, cancelled: true };
+      }
+
+      sessionId = response.session_id ?? sessionId ?? `fake-session-${++this.sessionCounter}`;
+
+      if (response.error) {
+        return { success: false, output: outputs.join('\n---\n'), sessionId, error: response.error, usage, finalUsage, lastTurnUsage };
+      }
+
+      if (response.files && options.outputDir) {
+        for (const [name, content] of Object.entries(response.files)) {
+          await writeFile(join(options.outputDir, name), content);
+        }
+      }
+
+      const output = (response.output ?? DEFAULT_RESPONSE.output!).replaceAll('{{prompt}}', prompt);
+      for (const name of response.tools ?? []) {
+        options.onEvent?.({ type: 'tool', name });
+      }
+      options.onEvent?.({ type: 'text', text: output });
+      outputs.push(output);
+    }
+
+    return { success: true, output: outputs.join('\n---\n'), sessionId, usage, finalUsage, lastTurnUsage };
+  }
+
+  private respond(prompt: string): FakeResponse {
+    const scripted = this.script.responses?.find((response) => !response.match || matches(response.match, prompt));
+    return scripted ?? this.script.default ?? DEFAULT_RESPONSE;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for Job Store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobStore } from './job-store';
+import type { ExecuteRequest } from './types';
+
+const request = (sessionId: string): ExecuteRequest => ({
+  session_id: sessionId,
+  prompt: 'Hello',
+  user_name: 'alice',
+  callback_url: 'http://bridge/callback?ref=1',
+});
+
+describe('JobStore', () => {
+  let dir: string;
+  let store: JobStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jobs-'));
+    store = new JobStore();
+    await store.init(join(dir, 'jobs.sqlite'));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('tracks a job through its lifecycle', () => {
+    store.queued('j1', request('s1'));
+    expect(store.get('j1')).toMatchObject({ id: 'j1', session_id: 's1', status: 'queued', request: request('s1') });
+
+    store.started('j1');
+    expect(store.get('j1')?.status).toBe('running');
+    expect(store.get('j1')?.started_at).toBeDefined();
+
+    store.finished('j1', { success: true, session_id: 's1', result: 'Hi' });
+    const job = store.get('j1');
+    expect(job?.status).toBe('completed');
+    expect(job?.response?.result).toBe('Hi');
+    expect(job?.finished_at).toBeDefined();
+  });
+
+  test('derives status from the response', () => {
+    store.queued('failed', request('s1'));
+    store.finished('failed', { success: false, session_id: 's1', error: 'boom' });
+    store.queued('cancelled', request('s1'));
+    store.finished('cancelled', { success: false, session_id: 's1', cancelled: true });
+
+    expect(store.get('failed')?.status).toBe('failed');
+    expect(store.get('cancelled')?.status).toBe('cancelled');
+  });
+
+  test('counts queued and running jobs by user and channel', () => {
+    store.queued('j1', { ...request('s1'), user_id: '42', channel_id: '7' });
+    store.queued('j2', { ...request('s2'), user_id: '43', channel_id: '7' });
+    store.queued('j3', { ...request('s3'), user_id: '42', channel_id: '8' });
+    store.started('j3');
+    store.queued('j4', { ...request('s1'), user_id: '42', channel_id: '7' });
+    store.finished('j4', { success: true, session_id: 's1' });
+
+    expect(store.inFlight({ user_id: '42' })).toBe(2);
+    expect(store.inFlight({ channel_id: '7' })).toBe(2);
+    expect(store.inFlight({ user_id: '44' })).toBe(0);
+  });
+
+  test('returns null for unknown jobs', () => {
+    expect(store.get('missing')).toBeNull();
+  });
+
+  test('lists unfinished jobs across reopening', async () => {
+    store.queued('running', request('s1'));
+    store.started('running');
+    store.queued('waiting', request('s2'));
+    store.queued('done', request('s3'));
+    store.finished('done', { success: true, session_id: 's3' });
+    store.close();
+
+    const reopened = new JobStore();
+    await reopened.init(join(dir, 'jobs.sqlite'));
+    expect(reopened.unfinished().map((job) => [job.id, job.status])).toEqual([
+      ['running', 'running'],
+      ['waiting', 'queued'],
+    ]);
+    reopened.close();
+  });
+
+  test('re-queuing a job resets its progress', () => {
+    store.queued('j1', request('s1'));
+    store.started('j1');
+    store.queued('j1', request('s1'));
+
+    const job = store.get('j1');
+    expect(job?.status).toBe('queued');
+    expect(job?.started_at).toBeUndefined();
+  });
+
+  test('cleanup keeps recent and unfinished jobs', () => {
+    store.queued('j1', request('s1'));
+    store.queued('j2', request('s2'));
+    store.finished('j2', { success: true, session_id: 's2' });
+
+    expect(store.cleanup()).toBe(0);
+    expect(store.get('j1')).not.toBeNull();
+    expect(store.get('j2')).not.toBeNull();
+  });
+});
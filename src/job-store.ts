@@ -0,0 +1,154 @@
+/**
+ * Job Store - Durable record of execute requests
+ *
+ * Every job is written to SQLite (`jobs.sqlite` next to the sessions
+ * directory) when it is queued, marked when it starts and finishes, so jobs
+ * that were queued or running when the Executor stopped can be recovered
+ * on the next start.
+ * Uses Bun's built-in SQLite (no native compilation needed)
+ */
+
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { mkdir } from 'fs/promises';
+import { INTEGRATION_DIR } from './paths';
+import type { ExecuteRequest, ExecuteResponse, JobRecord, JobStatus } from './types';
+
+const JOBS_DB_PATH = join(INTEGRATION_DIR, 'jobs.sqlite');
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface JobRow {
+  id: string;
+  session_id: string;
+  status: JobStatus;
+  request: string;
+  response: string | null;
+  created_at: number;
+  started_at: number | null;
+  finished_at: number | null;
+}
+
+export class JobStore {
+  private db: Database | null = null;
+
+  async init(path: string = JOBS_DB_PATH): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        request TEXT NOT NULL,
+        response TEXT,
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        finished_at INTEGER
+      )
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status)');
+  }
+
+  private get database(): Database {
+    if (!this.db) {
+      throw new Error('Job store not initialized');
+    }
+    return this.db;
+  }
+
+  /**
+   * Record a job as queued (re-queuing a recovered job resets it, recording
+   * it again updates its request)
+   */
+  queued(id: string, request: ExecuteRequest): void {
+    this.database
+      .prepare(
+        `INSERT INTO jobs (id, session_id, status, request, created_at)
+         VALUES (?, ?, 'queued', ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           status = 'queued',
+           request = excluded.request,
+           response = NULL,
+           started_at = NULL,
+           finished_at = NULL`
+      )
+      .run(id, request.session_id, JSON.stringify(request), Date.now());
+  }
+
+  started(id: string): void {
+    this.database
+      .prepare("UPDATE jobs SET status = 'running', started_at = ? WHERE id = ?")
+      .run(Date.now(), id);
+  }
+
+  /**
+   * Record a job's response; the status follows from the response
+   */
+  finished(id: string, response: ExecuteResponse): void {
+    const status: JobStatus = response.cancelled ? 'cancelled' : response.success ? 'completed' : 'failed';
+    this.database
+      .prepare('UPDATE jobs SET status = ?, response = ?, finished_at = ? WHERE id = ?')
+      .run(status, JSON.stringify(response), Date.now(), id);
+  }
+
+  get(id: string): JobRecord | null {
+    const row = this.database.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | null;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Jobs that were queued or running when the Executor last stopped, oldest first
+   */
+  unfinished(): JobRecord[] {
+    const rows = this.database
+      .prepare("SELECT * FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at")
+      .all() as JobRow[];
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * Number of queued or running jobs from a user or channel
+   */
+  inFlight(filter: { user_id?: string; channel_id?: string }): number {
+    const row = this.database
+      .prepare(
+        `SELECT COUNT(*) AS count FROM jobs
+         WHERE status IN ('queued', 'running')
+           AND (?1 IS NULL OR json_extract(request, '$.user_id') = ?1)
+           AND (?2 IS NULL OR json_extract(request, '$.channel_id') = ?2)`
+      )
+      .get(filter.user_id ?? null, filter.channel_id ?? null) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Delete finished jobs older than the retention period
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+    const result = this.database
+      .prepare("DELETE FROM jobs WHERE finished_at < ? AND status NOT IN ('queued', 'running')")
+      .run(cutoff);
+    return result.changes;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private toRecord(row: JobRow): JobRecord {
+    return {
+      id: row.id,
+      session_id: row.session_id,
+      status: row.status,
+      request: JSON.parse(row.request),
+      response: row.response ? JSON.parse(row.response) : undefined,
+      created_at: new Date(row.created_at).toISOString(),
+      started_at: row.started_at ? new Date(row.started_at).toISOString() : undefined,
+      finished_at: row.finished_at ? new Date(row.finished_at).toISOString() : undefined,
+    };
+  }
+}
+
+export const jobStore = new JobStore();
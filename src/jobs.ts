@@ -0,0 +1,420 @@
+/**
+ * Jobs - Runs execute requests through the queue
+ *
+ * Requests without a callback_url are awaited by the HTTP handler.
+ * Requests with one are accepted immediately and their result is
+ * POSTed to the callback URL when the job finishes.
+ * Jobs are persisted in the job store and recovered on startup.
+ * Attachments are staged in the session's scratch directory, and the stored
+ * request then updated, so stored requests only reference the files.
+ * Each execution's cost and token usage is recorded in the usage store.
+ * Requests from a user or channel that has used up a quota are turned
+ * away before they are queued.
+ */
+
+import { randomUUID } from 'crypto';
+import { sessionManager } from './session-manager';
+import { requestQueue, JobCancelledError, parseChannelPriorities } from './queue';
+import { jobStore } from './job-store';
+import { usageStore } from './usage-store';
+import { quotas, describeQuota } from './quotas';
+import { SessionJobs } from './session-jobs';
+import { ContextManager } from './context-manager';
+import { attachmentStore, describeAttachments } from './attachment-store';
+import { deliverCallback } from './callback-client';
+import { permissionResolver, type PermissionProfile } from './permissions';
+import { projectRegistry } from './projects';
+import { sessionPolicies, limitWarning } from './session-policy';
+import { requestsTotal, executionSeconds, queueWaitSeconds } from './metrics';
+import { logger, type Logger } from './logger';
+import type { ClaudeStreamEvent } from './claude-runner';
+import type { ExecuteRequest, ExecuteResponse, SessionData } from './types';
+
+// Queue priority per channel, e.g. CHANNEL_PRIORITIES="7:10,12:5" (default 0)
+const CHANNEL_PRIORITIES = parseChannelPriorities(process.env.CHANNEL_PRIORITIES);
+
+const RESTART_ERROR = 'Interrupted by an Executor restart - please send your message again';
+
+// Fold messages sent while a session is busy into one follow-up prompt
+const sessionJobs = new SessionJobs(requestQueue, {
+  coalesce: process.env.COALESCE_MESSAGES === 'true',
+});
+
+export interface ExecuteRequestOptions {
+  jobId?: string;
+  onEvent?: (event: ClaudeStreamEvent) => void; // Stream text and tool steps as produced (not for coalesced requests)
+  onQueued?: (position: number) => void; // 0 = started immediately, n = nth in line
+  skipQuota?: boolean; // Recovered jobs were admitted before the restart
+}
+
+/**
+ * Logger for one request's lines, tagged with its session, job and correlation id
+ */
+function requestLogger(request: ExecuteRequest, jobId?: string): Logger {
+  return logger.child({ correlation_id: request.correlation_id, session_id: request.session_id, job_id: jobId });
+}
+
+export interface SubmittedJob {
+  jobId: string;
+  position: number;
+  rejected?: ExecuteResponse; // Turned away by a quota: not queued, no callback follows
+}
+
+/**
+ * Execute a request through the queue and persist the session changes
+ * Throws if the session store or queue fails; runner failures are
+ * reported in the response instead.
+ *
+ * A request coalesced into a waiting job for the same session resolves
+ * with that job's response, marked `coalesced` so the caller can avoid
+ * posting the same answer twice.
+ *
+ * The job is recorded in the job store from the moment it is queued
+ * until it finishes, so it can be recovered after a restart.
+ */
+export async function executeRequest(
+  incoming: ExecuteRequest,
+  options: ExecuteRequestOptions = {}
+): Promise<ExecuteResponse> {
+  const jobId = options.jobId ?? randomUUID();
+
+  const rejected = options.skipQuota ? null : quotaRejection(incoming, jobId);
+  if (rejected) return rejected;
+
+  // Recorded before anything is awaited, so the next request's quota check counts it
+  const { attachments, ...unstaged } = incoming;
+  jobStore.queued(jobId, unstaged);
+
+  let request: ExecuteRequest = unstaged;
+  let response: ExecuteResponse;
+  try {
+    if (attachments?.length) {
+      request = await stageAttachments(incoming);
+      jobStore.queued(jobId, request);
+    }
+    response = await queueRequest(request, { ...options, jobId });
+  } catch (error) {
+    jobStore.finished(jobId, errorResponse(request, error, jobId));
+    requestsTotal.inc({ outcome: 'error' });
+    throw error;
+  }
+
+  // A coalesced response comes from the job that ran; report this request's id
+  response = { ...response, correlation_id: request.correlation_id };
+  jobStore.finished(jobId, response);
+  requestsTotal.inc({ outcome: outcomeOf(response) });
+  return response;
+}
+
+/**
+ * Turn a request away if its user or channel has used up a quota
+ * @returns The response for the rejected job, or null if the request may run
+ */
+function quotaRejection(incoming: ExecuteRequest, jobId: string): ExecuteResponse | null {
+  const exceeded = quotas.check(incoming.user_id, incoming.channel_id);
+  if (!exceeded) return null;
+
+  const { attachments: _attachments, ...request } = incoming;
+  const response: ExecuteResponse = {
+    success: false,
+    session_id: request.session_id,
+    error: describeQuota(exceeded),
+    job_id: jobId,
+    correlation_id: request.correlation_id,
+    quota_exceeded: exceeded,
+  };
+  requestLogger(request, jobId).info('Quota exceeded', { ...exceeded });
+  jobStore.queued(jobId, request);
+  jobStore.finished(jobId, response);
+  requestsTotal.inc({ outcome: 'quota_exceeded' });
+  return response;
+}
+
+/**
+ * Outcome label for the requests metric
+ */
+function outcomeOf(response: ExecuteResponse): string {
+  if (response.cancelled) return 'cancelled';
+  if (response.coalesced) return 'coalesced';
+  return response.success ? 'success' : 'error';
+}
+
+/**
+ * Write a request's attachments to the session scratch directory
+ * @returns The request with the attachments replaced by a note in the prompt
+ */
+async function stageAttachments(request: ExecuteRequest): Promise<ExecuteRequest> {
+  const { attachments, ...rest } = request;
+  if (!attachments || attachments.length === 0) return rest;
+
+  const paths = await attachmentStore.stage(request.session_id, attachments);
+  requestLogger(request).info('Staged attachments', { count: paths.length });
+  return { ...rest, prompt: `${request.prompt}\n\n${describeAttachments(paths)}` };
+}
+
+/**
+ * Queue a request as a session job (or fold it into a waiting one)
+ */
+async function queueRequest(
+  request: ExecuteRequest,
+  options: ExecuteRequestOptions & { jobId: string }
+): Promise<ExecuteResponse> {
+  const { session_id, prompt, channel_id, user_id, user_name, shared } = request;
+  const { jobId, onEvent, onQueued } = options;
+  const log = requestLogger(request, jobId);
+
+  const permissions = permissionResolver.resolve(channel_id, user_id);
+  log.info('Permission profile', { profile: permissions.name });
+
+  // In a shared session Claude needs to know who is speaking; prefixing each
+  // message keeps the speakers apart when messages are coalesced
+  const text = shared ? `[${user_name}] ${prompt}` : prompt;
+
+  const queuedAt = Date.now();
+  const job = sessionJobs.submit(
+    session_id,
+    text,
+    (combinedPrompt, signal) => {
+      queueWaitSeconds.observe((Date.now() - queuedAt) / 1000);
+      return runSessionJob({ ...request, prompt: combinedPrompt }, permissions.profile, jobId, signal, onEvent);
+    },
+    {
+      id: jobId,
+      userId: user_id,
+      userName: user_name,
+      channelId: channel_id,
+      priority: (channel_id && CHANNEL_PRIORITIES.get(channel_id)) || 0,
+    }
+  );
+
+  onQueued?.(requestQueue.positionOf(job.jobId));
+
+  let response: ExecuteResponse;
+  try {
+    response = await job.done;
+  } catch (error) {
+    // Removed from the queue before it started
+    if (error instanceof JobCancelledError) {
+      log.info('Execute cancelled before start');
+      return { success: false, session_id, error: error.message, job_id: jobId, cancelled: true };
+    }
+    throw error;
+  }
+
+  return job.coalesced ? { ...response, job_id: jobId, coalesced: true } : response;
+}
+
+/**
+ * Run one queued job: load the session, execute Claude and store the outcome
+ * Runs inside the queue so the session is read after any earlier job for
+ * it has finished updating it.
+ */
+async function runSessionJob(
+  request: ExecuteRequest,
+  permissions: PermissionProfile,
+  jobId: string,
+  signal: AbortSignal,
+  onEvent?: (event: ClaudeStreamEvent) => void
+): Promise<ExecuteResponse> {
+  const { session_id, claude_session_id, prompt, user_name, user_id, channel_id, thread_id, shared, correlation_id, confirm_overflow } = request;
+  const log = requestLogger(request, jobId);
+  jobStore.started(jobId);
+
+  // Get or create session; one that ended under its policy starts over
+  let session = await sessionManager.get(session_id);
+  const ended = session ? undefined : sessionManager.endingOf(session_id)?.reason;
+  session ??= await sessionManager.create(session_id, user_name, { thread_id, channel_id });
+
+  // If client provided a Claude session ID and session doesn't have one yet, use it
+  // (unless it belongs to the session that just ended)
+  if (claude_session_id && !session.claude_session_id && !ended) {
+    session.claude_session_id = claude_session_id;
+  }
+
+  const project = projectRegistry.resolve(session.project, channel_id);
+  if (project) {
+    log.info('Project', { project: project.name, cwd: project.path });
+  }
+
+  // Files from earlier messages stay readable for the rest of the session,
+  // and anything Claude writes to the output directory is reported back
+  const outputDir = await attachmentStore.prepareOutput(session_id);
+  const existingOutputs = await attachmentStore.snapshotOutputs(session_id);
+
+  const policy = sessionPolicies.resolve(channel_id ?? session.channel_id);
+  const executionStart = Date.now();
+  const result = await ContextManager.execute({
+    prompt,
+    session,
+    userName: user_name,
+    sharedSession: shared,
+    onEvent,
+    permissions,
+    cwd: project?.path,
+    addDirs: [attachmentStore.sessionDir(session_id)],
+    outputDir,
+    systemPrompt: project?.system_prompt,
+    signal,
+    correlationId: correlation_id,
+    overflowPolicy: policy.context_overflow,
+    confirmOverflow: confirm_overflow,
+    warningPercent: policy.context_warning_percent,
+  });
+  const executionMs = Date.now() - executionStart;
+
+  // A message the overflow policy held back or rejected never reached Claude
+  if (!result.skipped) {
+    executionSeconds.observe(executionMs / 1000);
+    usageStore.record({
+      job_id: jobId,
+      session_id,
+      user_id,
+      user_name,
+      channel_id,
+      project: project?.name,
+      success: result.success,
+      duration_ms: executionMs,
+      usage: result.usage,
+    });
+  }
+
+  // Update session with new Claude session ID and context state
+  const updates: Partial<SessionData> = {
+    context_state: result.contextState,
+  };
+
+  if (result.sessionId) {
+    updates.claude_session_id = result.sessionId;
+  }
+
+  // Sessions created by a project switch do not know their channel yet
+  if (channel_id && !session.channel_id) {
+    updates.channel_id = channel_id;
+  }
+
+  const stored = await sessionManager.update(session_id, updates);
+  // The policy applies from the next message; this one is answered either way
+  const updated = result.skipped ? stored : await sessionManager.incrementMessageCount(session_id);
+  const warning = updated && !result.skipped ? limitWarning(updated, sessionPolicies.resolve(updated.channel_id)) : null;
+  const expiresAt = updated ? sessionManager.expiresAt(updated) : null;
+
+  const files = await attachmentStore.listOutputs(session_id, existingOutputs);
+
+  log.info('Execute complete', {
+    success: result.success,
+    tokens: result.contextState.estimated_tokens,
+    cost_usd: result.usage?.cost_usd,
+  });
+
+  return {
+    success: result.success,
+    session_id,
+    claude_session_id: result.sessionId,
+    result: result.output,
+    error: result.error,
+    job_id: jobId,
+    cancelled: result.cancelled,
+    files: files.length > 0 ? files : undefined,
+    session_ended: ended,
+    session_warning: warning ?? undefined,
+    session_expires_at: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+    context_overflow: result.overflow,
+    context_warning: result.warning,
+  };
+}
+
+/**
+ * Build the response for a request that threw before producing a result
+ */
+export function errorResponse(request: ExecuteRequest, error: unknown, jobId?: string): ExecuteResponse {
+  return {
+    success: false,
+    session_id: request.session_id,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    job_id: jobId,
+    correlation_id: request.correlation_id,
+  };
+}
+
+/**
+ * Accept a request for asynchronous execution
+ * The result is delivered to request.callback_url once the job completes.
+ * Quotas are checked first, so a request over one is rejected right away.
+ *
+ * @returns The job id the callback payload will carry and its queue position
+ */
+export async function submitJob(request: ExecuteRequest): Promise<SubmittedJob> {
+  const jobId = randomUUID();
+  const rejected = quotaRejection(request, jobId);
+  if (rejected) return { jobId, position: -1, rejected };
+
+  // Already checked; the job is recorded before the next request's check
+  const submitted = { jobId, position: await runInBackground(request, jobId, true) };
+  requestLogger(request, jobId).info('Job accepted', { position: submitted.position });
+  return submitted;
+}
+
+/**
+ * Run a callback job without waiting for it to finish
+ * @returns Queue position once the job is queued (-1 if it failed before reaching the queue)
+ */
+function runInBackground(request: ExecuteRequest, jobId: string, skipQuota = false): Promise<number> {
+  const callbackUrl = request.callback_url!;
+
+  // Resolves once the job is in the queue (or has failed before reaching it)
+  let queued!: (position: number) => void;
+  const position = new Promise<number>((resolve) => (queued = resolve));
+
+  executeRequest(request, { jobId, onQueued: queued, skipQuota })
+    .catch((error) => {
+      requestLogger(request, jobId).error('Execute error', { error });
+      return errorResponse(request, error, jobId);
+    })
+    .then((response) => {
+      queued(-1);
+      return deliverCallback(callbackUrl, response);
+    });
+
+  return position;
+}
+
+/**
+ * Recover jobs left unfinished by the previous Executor process
+ *
+ * Queued jobs with a callback URL are queued again under the same id.
+ * Jobs that were already running are reported as failed rather than
+ * re-run, since Claude may have partly acted on them; so are jobs whose
+ * caller was waiting on the now-closed HTTP connection.
+ */
+export async function recoverJobs(): Promise<void> {
+  const jobs = jobStore.unfinished();
+  if (jobs.length === 0) return;
+
+  let requeued = 0;
+  for (const job of jobs) {
+    const callbackUrl = job.request.callback_url;
+
+    if (job.status === 'queued' && callbackUrl) {
+      await runInBackground(job.request, job.id, true);
+      requeued++;
+      continue;
+    }
+
+    const response: ExecuteResponse = {
+      success: false,
+      session_id: job.session_id,
+      error: RESTART_ERROR,
+      job_id: job.id,
+      correlation_id: job.request.correlation_id,
+    };
+    jobStore.finished(job.id, response);
+
+    if (callbackUrl) {
+      deliverCallback(callbackUrl, response).catch((error) => {
+        requestLogger(job.request, job.id).error('Failed to report interrupted job', { error });
+      });
+    }
+  }
+
+  logger.info('Recovered jobs after restart', { requeued, failed: jobs.length - requeued });
+}
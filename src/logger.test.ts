@@ -0,0 +1,108 @@
+/**
+ * Tests for the structured logger
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Logger, parseLevel, redact, redactText, correlationIdFrom, type LogLevel } from './logger';
+
+/**
+ * Logger that collects parsed entries instead of writing them
+ */
+function capture(minLevel: LogLevel = 'debug') {
+  const entries: Record<string, unknown>[] = [];
+  const streams: LogLevel[] = [];
+  const log = new Logger('executor', {}, minLevel, (line, level) => {
+    entries.push(JSON.parse(line));
+    streams.push(level);
+  });
+  return { log, entries, streams };
+}
+
+describe('Logger', () => {
+  test('writes one JSON object per entry', () => {
+    const { log, entries } = capture();
+    log.info('Execute request', { session_id: '7_42', user: 'alice' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ level: 'info', service: 'executor', msg: 'Execute request', session_id: '7_42', user: 'alice' });
+    expect(Date.parse(entries[0].time as string)).not.toBeNaN();
+  });
+
+  test('drops entries below the minimum level', () => {
+    const { log, entries } = capture('warn');
+    log.debug('debug');
+    log.info('info');
+    log.warn('warn');
+    log.error('error');
+
+    expect(entries.map((entry) => entry.msg)).toEqual(['warn', 'error']);
+  });
+
+  test('child loggers add their fields to every entry', () => {
+    const { log, entries } = capture();
+    const child = log.child({ correlation_id: 'abc' }).child({ session_id: '7_42' });
+    child.info('Started');
+    child.info('Finished', { session_id: '7_43' });
+
+    expect(entries[0]).toMatchObject({ correlation_id: 'abc', session_id: '7_42' });
+    expect(entries[1]).toMatchObject({ correlation_id: 'abc', session_id: '7_43' });
+  });
+
+  test('redacts secrets before writing', () => {
+    const { log, entries } = capture();
+    log.warn('Callback attempt failed', {
+      headers: { Authorization: 'Bearer s3cret' },
+      error: new Error('fetch https://nas/webapi/entry.cgi?api=X&token=abc123 failed'),
+    });
+
+    const line = JSON.stringify(entries[0]);
+    expect(line).not.toContain('s3cret');
+    expect(line).not.toContain('abc123');
+    expect(entries[0].error).toMatchObject({ name: 'Error' });
+  });
+});
+
+describe('parseLevel', () => {
+  test('reads known levels case-insensitively and defaults to info', () => {
+    expect(parseLevel('DEBUG')).toBe('debug');
+    expect(parseLevel('error')).toBe('error');
+    expect(parseLevel('verbose')).toBe('info');
+    expect(parseLevel(undefined)).toBe('info');
+  });
+});
+
+describe('redact', () => {
+  test('replaces fields named like secrets at any depth', () => {
+    expect(
+      redact({ token: 'abc', nested: { bot_token: 'def', api_key: 'ghi', password: 'jkl' }, user: 'alice', empty_token: '' })
+    ).toEqual({
+      token: '[REDACTED]',
+      nested: { bot_token: '[REDACTED]', api_key: '[REDACTED]', password: '[REDACTED]' },
+      user: 'alice',
+      empty_token: '',
+    });
+  });
+
+  test('keeps token counts', () => {
+    expect(redact({ tokens: 5, token: 'x' })).toEqual({ tokens: 5, token: '[REDACTED]' });
+    expect(
+      redact({ input_tokens: 120, original_tokens: 9000, token_source: 'reported', callback_secret: 's', Authorization: 'Bearer x' })
+    ).toEqual({ input_tokens: 120, original_tokens: 9000, token_source: 'reported', callback_secret: '[REDACTED]', Authorization: '[REDACTED]' });
+  });
+
+  test('hides bearer tokens and token URL parameters in text', () => {
+    expect(redactText('Authorization: Bearer abc.def')).toBe('Authorization: Bearer [REDACTED]');
+    expect(redactText('https://nas/webapi/entry.cgi?api=SYNO.Chat.External&token=%22x%22&version=2')).toBe(
+      'https://nas/webapi/entry.cgi?api=SYNO.Chat.External&token=[REDACTED]&version=2'
+    );
+  });
+});
+
+describe('correlationIdFrom', () => {
+  test('keeps a usable caller id and replaces anything else', () => {
+    expect(correlationIdFrom('3f2a-77')).toBe('3f2a-77');
+    expect(correlationIdFrom(undefined)).toMatch(/^[0-9a-f-]{36}$/);
+    expect(correlationIdFrom('bad id\nwith newline')).not.toContain('bad');
+    expect(correlationIdFrom('x'.repeat(200))).toHaveLength(36);
+  });
+});
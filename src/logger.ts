@@ -0,0 +1,131 @@
+/**
+ * Logger - Structured JSON logging
+ *
+ * Every entry is one JSON line with the time, level, service and message,
+ * plus any fields (session_id, correlation_id, ...). Entries below LOG_LEVEL
+ * (debug, info, warn, error; default info) are dropped; warnings and errors
+ * go to stderr.
+ *
+ * Secrets never reach the log: fields named like a token, secret, password,
+ * API key or authorization header (`token`, `bot_token`, `callback_secret`,
+ * `api_key`, ...) are replaced, and so are bearer tokens and
+ * `token=` URL parameters inside strings.
+ *
+ * The bridge generates a correlation id per chat message and sends it in the
+ * X-Correlation-Id header; child loggers carry it through a request's lines.
+ *
+ * @example
+ * const log = logger.child({ correlation_id: id, session_id: '7_42' });
+ * log.info('Execute request', { user: 'alice' });
+ * // {"time":"...","level":"info","service":"executor","msg":"Execute request","correlation_id":"...","session_id":"7_42","user":"alice"}
+ */
+
+import { randomUUID } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+export type LogWriter = (line: string, level: LogLevel) => void;
+
+export const CORRELATION_HEADER = 'X-Correlation-Id';
+
+const CORRELATION_ID_PATTERN = /^[\w.:-]{1,128}$/;
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+// Whole key names only: counts such as `tokens` or `input_tokens` stay readable
+const SECRET_KEY = /^[\w-]*(?:token|secret|password|api[_-]?key)$|^authorization$/i;
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 5;
+
+/**
+ * Read a log level, falling back to info for unknown values
+ */
+export function parseLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel) : 'info';
+}
+
+/**
+ * Correlation id for a request: the caller's, if it sent a usable one, or a new one
+ */
+export function correlationIdFrom(header: string | undefined): string {
+  return header && CORRELATION_ID_PATTERN.test(header) ? header : randomUUID();
+}
+
+/**
+ * Hide bearer tokens and token URL parameters in free text
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`)
+    .replace(/([?&](?:token|access_token|api_key)=)[^&\s"']+/gi, `$1${REDACTED}`);
+}
+
+/**
+ * Copy a value for logging with secrets replaced
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), stack: value.stack && redactText(value.stack) };
+  }
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Object]';
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  const copy: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    copy[key] = SECRET_KEY.test(key) && field != null && field !== '' ? REDACTED : redact(field, depth + 1);
+  }
+  return copy;
+}
+
+const defaultWriter: LogWriter = (line, level) => {
+  (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export class Logger {
+  constructor(
+    private service: string,
+    private context: LogFields = {},
+    private minLevel: LogLevel = parseLevel(process.env.LOG_LEVEL),
+    private writer: LogWriter = defaultWriter
+  ) {}
+
+  /**
+   * Logger that adds fields to every entry (e.g. a request's correlation id)
+   */
+  child(fields: LogFields): Logger {
+    return new Logger(this.service, { ...this.context, ...fields }, this.minLevel, this.writer);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[this.minLevel]) return;
+
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      service: this.service,
+      msg: message,
+      ...this.context,
+      ...fields,
+    });
+    this.writer(JSON.stringify(entry), level);
+  }
+}
+
+export const logger = new Logger('executor');
@@ -0,0 +1,64 @@
+/**
+ * Tests for the Prometheus metrics registry
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { MetricsRegistry } from './metrics';
+
+describe('MetricsRegistry', () => {
+  test('renders counters per label set', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('test_requests_total', 'Requests by outcome');
+    requests.inc({ outcome: 'success' });
+    requests.inc({ outcome: 'success' });
+    requests.inc({ outcome: 'error' }, 3);
+
+    expect(requests.get({ outcome: 'success' })).toBe(2);
+    expect(registry.render()).toBe(
+      [
+        '# HELP test_requests_total Requests by outcome',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{outcome="success"} 2',
+        'test_requests_total{outcome="error"} 3',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('escapes label values and orders label names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_total', 'Test').inc({ b: 'say "hi"\n', a: 'x\\y' });
+
+    expect(registry.render()).toContain('test_total{a="x\\\\y",b="say \\"hi\\"\\n"} 1');
+  });
+
+  test('reads gauges when rendering', () => {
+    const registry = new MetricsRegistry();
+    let depth = 1;
+    registry.gauge('test_queue_depth', 'Queue depth', () => depth);
+    depth = 4;
+
+    expect(registry.render()).toContain('test_queue_depth 4');
+  });
+
+  test('renders cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('test_seconds', 'Latency', [1, 5]);
+    latency.observe(0.5);
+    latency.observe(3);
+    latency.observe(10);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP test_seconds Latency',
+        '# TYPE test_seconds histogram',
+        'test_seconds_bucket{le="1"} 1',
+        'test_seconds_bucket{le="5"} 2',
+        'test_seconds_bucket{le="+Inf"} 3',
+        'test_seconds_sum 13.5',
+        'test_seconds_count 3',
+        '',
+      ].join('\n')
+    );
+  });
+});
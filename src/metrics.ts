@@ -0,0 +1,148 @@
+/**
+ * Metrics - Prometheus counters, gauges and histograms for GET /metrics
+ *
+ * A minimal registry that renders the Prometheus text exposition format,
+ * so scraping needs no client library. Gauges read their value when scraped.
+ */
+
+type Labels = Record<string, string>;
+
+// Seconds; Claude runs take from a few seconds to several minutes
+export const DURATION_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+/**
+ * Render a label set as `{name="value",...}` (empty for no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(formatLabels(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [labels, value] of this.values) {
+      lines.push(`${this.name}${labels} ${value}`);
+    }
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    private help: string,
+    private collect: () => number
+  ) {}
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.collect()}`];
+  }
+}
+
+export class Histogram implements Metric {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets: number[] = DURATION_BUCKETS
+  ) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.buckets.forEach((bound, i) => {
+      lines.push(`${this.name}_bucket{le="${bound}"} ${this.counts[i]}`);
+    });
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`);
+    lines.push(`${this.name}_sum ${this.sum}`);
+    lines.push(`${this.name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * All metrics in the Prometheus text format
+   */
+  render(): string {
+    return this.metrics.map((metric) => metric.render().join('\n')).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const requestsTotal = metrics.counter(
+  'executor_requests_total',
+  'Execute requests by outcome (success, error, cancelled, coalesced, quota_exceeded)'
+);
+export const executionSeconds = metrics.histogram(
+  'executor_execution_duration_seconds',
+  'Time from a job starting to Claude finishing it'
+);
+export const queueWaitSeconds = metrics.histogram(
+  'executor_queue_wait_seconds',
+  'Time jobs waited in the queue before starting'
+);
+export const chunkedPromptsTotal = metrics.counter(
+  'executor_chunked_prompts_total',
+  'Prompts too long to send at once that were split into chunks'
+);
+export const promptChunksTotal = metrics.counter('executor_prompt_chunks_total', 'Chunks sent for split prompts');
+export const summarizationsTotal = metrics.counter(
+  'executor_summarizations_total',
+  'History summarizations by result (completed, skipped, failed)'
+);
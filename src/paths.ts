@@ -0,0 +1,11 @@
+/**
+ * Filesystem locations used by the Executor
+ */
+
+import { join } from 'path';
+
+export const PAI_DIR = process.env.PAI_DIR || join(process.env.HOME!, '.claude');
+export const INTEGRATION_DIR = join(PAI_DIR, 'integrations/synology-chat');
+export const SESSIONS_DIR = join(INTEGRATION_DIR, 'sessions');
+export const CONFIG_DIR = join(INTEGRATION_DIR, 'config');
+export const SCRATCH_DIR = join(INTEGRATION_DIR, 'scratch');
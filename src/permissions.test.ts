@@ -0,0 +1,140 @@
+/**
+ * Tests for Permission Profiles
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { PermissionResolver, buildPermissionArgs, intersectProfiles, BUILTIN_PROFILES } from './permissions';
+
+describe('PermissionResolver', () => {
+  let resolver: PermissionResolver;
+
+  beforeEach(() => {
+    resolver = new PermissionResolver();
+  });
+
+  test('defaults to the edit profile without config', () => {
+    const resolved = resolver.resolve('1', '2');
+
+    expect(resolved.name).toBe('edit');
+    expect(resolved.profile).toEqual(BUILTIN_PROFILES.edit);
+  });
+
+  test('resolves channel mappings', () => {
+    resolver.configure({
+      default_profile: 'read-only',
+      channels: { ops: 'full' },
+    });
+
+    expect(resolver.resolve('general', 'u1').name).toBe('read-only');
+    expect(resolver.resolve('ops', 'u1').name).toBe('full');
+  });
+
+  test('user mapping applies outside mapped channels', () => {
+    resolver.configure({
+      channels: { general: 'read-only' },
+      users: { admin: 'full' },
+    });
+
+    expect(resolver.resolve('dev', 'admin').name).toBe('full');
+    expect(resolver.resolve(undefined, 'admin').name).toBe('full');
+    expect(resolver.resolve('general', 'someone').name).toBe('read-only');
+  });
+
+  test('channel mapping caps a mapped user', () => {
+    resolver.configure({
+      channels: { general: 'read-only', ops: 'full' },
+      users: { admin: 'full', intern: 'read-only' },
+    });
+
+    expect(resolver.resolve('general', 'admin')).toEqual({ name: 'full within read-only', profile: BUILTIN_PROFILES['read-only'] });
+    expect(resolver.resolve('ops', 'intern').profile.allowed_tools).toEqual(['Read', 'Grep', 'Glob']);
+    expect(resolver.resolve('ops', 'admin')).toEqual({ name: 'full', profile: BUILTIN_PROFILES.full });
+  });
+
+  test('ignores ids that are not mapped, even built-in property names', () => {
+    resolver.configure({ default_profile: 'read-only', users: { admin: 'full' } });
+
+    expect(resolver.resolve('constructor', 'toString').name).toBe('read-only');
+    expect(() => resolver.configure({ channels: { c1: 'hasOwnProperty' } })).toThrow("Unknown permission profile 'hasOwnProperty'");
+  });
+
+  test('supports custom profiles', () => {
+    resolver.configure({
+      profiles: { mcp: { allowed_tools: ['Read', 'mcp__jira__search'] } },
+      channels: { c1: 'mcp' },
+    });
+
+    expect(resolver.resolve('c1').profile.allowed_tools).toContain('mcp__jira__search');
+  });
+
+  test('rejects references to unknown profiles', () => {
+    expect(() => resolver.configure({ channels: { c1: 'nope' } })).toThrow("Unknown permission profile 'nope' referenced by channel c1");
+    expect(() => resolver.configure({ default_profile: 'missing' })).toThrow('default_profile');
+  });
+
+  test('rejects malformed profiles', () => {
+    expect(() =>
+      resolver.configure({ profiles: { bad: { allowed_tools: 'Read' as unknown as string[] } } })
+    ).toThrow('allowed_tools');
+    expect(() =>
+      resolver.configure({ profiles: { bad: { allowed_tools: [], permission_mode: 'yolo' as never } } })
+    ).toThrow('permission_mode');
+  });
+
+  test('keeps previous config when validation fails', () => {
+    resolver.configure({ default_profile: 'read-only' });
+    expect(() => resolver.configure({ default_profile: 'missing' })).toThrow();
+
+    expect(resolver.resolve().name).toBe('read-only');
+  });
+});
+
+describe('intersectProfiles', () => {
+  test('keeps what both profiles allow', () => {
+    const profile = intersectProfiles(
+      { allowed_tools: ['Read', 'Edit', 'Bash', 'mcp__jira__search'], disallowed_tools: ['Bash(rm:*)'], permission_mode: 'acceptEdits', mcp_config: '/user-mcp.json' },
+      { allowed_tools: ['Read', 'Edit', 'Grep'], disallowed_tools: ['Edit(/etc/*)'], mcp_config: '/channel-mcp.json' }
+    );
+
+    expect(profile).toEqual({
+      allowed_tools: ['Read', 'Edit'],
+      disallowed_tools: ['Bash(rm:*)', 'Edit(/etc/*)'],
+      permission_mode: 'default',
+      mcp_config: '/channel-mcp.json',
+    });
+  });
+
+  test('takes the stricter permission mode and adds none of its own', () => {
+    expect(intersectProfiles({ allowed_tools: [], permission_mode: 'bypassPermissions' }, { allowed_tools: [], permission_mode: 'plan' }).permission_mode).toBe('plan');
+    expect(intersectProfiles({ allowed_tools: [] }, { allowed_tools: [] })).toEqual({ allowed_tools: [] });
+  });
+});
+
+describe('buildPermissionArgs', () => {
+  test('builds allowed tools flag', () => {
+    expect(buildPermissionArgs(BUILTIN_PROFILES.edit)).toEqual([
+      '--allowedTools',
+      'Read,Grep,Glob,Edit,Write',
+    ]);
+  });
+
+  test('includes disallowed tools, permission mode and MCP config', () => {
+    const args = buildPermissionArgs({
+      allowed_tools: ['Read', 'Bash'],
+      disallowed_tools: ['Bash(rm:*)'],
+      permission_mode: 'plan',
+      mcp_config: '/etc/mcp.json',
+    });
+
+    expect(args).toEqual([
+      '--allowedTools', 'Read,Bash',
+      '--disallowedTools', 'Bash(rm:*)',
+      '--permission-mode', 'plan',
+      '--mcp-config', '/etc/mcp.json',
+    ]);
+  });
+
+  test('emits nothing for an empty profile', () => {
+    expect(buildPermissionArgs({ allowed_tools: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Permissions - Maps Synology channels and users to Claude tool profiles
+ *
+ * Profiles are defined in PERMISSIONS_CONFIG (default: config/permissions.json).
+ * Resolution order: user mapping, then channel mapping, then default_profile.
+ * A channel mapping is a ceiling: a mapped user in a mapped channel gets only
+ * what both profiles allow. Without a config file every request gets the
+ * built-in `edit` profile.
+ *
+ * @example
+ * {
+ *   "default_profile": "read-only",
+ *   "profiles": {
+ *     "ops": { "allowed_tools": ["Read", "Grep", "Glob", "Bash"], "disallowed_tools": ["Bash(rm:*)"] }
+ *   },
+ *   "channels": { "12": "ops" },
+ *   "users": { "5": "full" }
+ * }
+ */
+
+import { join } from 'path';
+import { CONFIG_DIR } from './paths';
+import { loadJsonConfig } from './utils/config-loader';
+import { logger } from './logger';
+
+const PERMISSIONS_CONFIG = process.env.PERMISSIONS_CONFIG || join(CONFIG_DIR, 'permissions.json');
+
+export interface PermissionProfile {
+  allowed_tools: string[]; // Auto-approved tools, including MCP tools (mcp__server__tool)
+  disallowed_tools?: string[];
+  permission_mode?: 'default' | 'acceptEdits' | 'plan' | 'bypassPermissions';
+  mcp_config?: string; // Path to an MCP server config file
+}
+
+export interface PermissionConfig {
+  default_profile?: string;
+  profiles?: Record<string, PermissionProfile>;
+  channels?: Record<string, string>;
+  users?: Record<string, string>;
+}
+
+export interface ResolvedProfile {
+  name: string;
+  profile: PermissionProfile;
+}
+
+export const BUILTIN_PROFILES: Record<string, PermissionProfile> = {
+  'read-only': { allowed_tools: ['Read', 'Grep', 'Glob'] },
+  edit: { allowed_tools: ['Read', 'Grep', 'Glob', 'Edit', 'Write'] },
+  full: { allowed_tools: ['Read', 'Grep', 'Glob', 'Edit', 'Write', 'Bash'] },
+};
+
+const DEFAULT_PROFILE = 'edit';
+
+// Most restrictive first
+const PERMISSION_MODES: NonNullable<PermissionProfile['permission_mode']>[] = ['plan', 'default', 'acceptEdits', 'bypassPermissions'];
+
+/**
+ * What both profiles allow: the tools both auto-approve, the tools either
+ * disallows, the stricter permission mode and the ceiling's MCP servers
+ */
+export function intersectProfiles(profile: PermissionProfile, ceiling: PermissionProfile): PermissionProfile {
+  const allowed = profile.allowed_tools.filter((tool) => ceiling.allowed_tools.includes(tool));
+  const disallowed = [...new Set([...(profile.disallowed_tools ?? []), ...(ceiling.disallowed_tools ?? [])])];
+  const mode = profile.permission_mode || ceiling.permission_mode
+    ? PERMISSION_MODES[Math.min(
+        PERMISSION_MODES.indexOf(profile.permission_mode ?? 'default'),
+        PERMISSION_MODES.indexOf(ceiling.permission_mode ?? 'default')
+      )]
+    : undefined;
+
+  return {
+    allowed_tools: allowed,
+    ...(disallowed.length > 0 ? { disallowed_tools: disallowed } : {}),
+    ...(mode ? { permission_mode: mode } : {}),
+    ...(ceiling.mcp_config ? { mcp_config: ceiling.mcp_config } : {}),
+  };
+}
+
+/**
+ * Translate a profile into Claude CLI arguments
+ */
+export function buildPermissionArgs(profile: PermissionProfile): string[] {
+  const args: string[] = [];
+
+  if (profile.allowed_tools.length > 0) {
+    args.push('--allowedTools', profile.allowed_tools.join(','));
+  }
+
+  if (profile.disallowed_tools && profile.disallowed_tools.length > 0) {
+    args.push('--disallowedTools', profile.disallowed_tools.join(','));
+  }
+
+  if (profile.permission_mode) {
+    args.push('--permission-mode', profile.permission_mode);
+  }
+
+  if (profile.mcp_config) {
+    args.push('--mcp-config', profile.mcp_config);
+  }
+
+  return args;
+}
+
+export class PermissionResolver {
+  private profiles: Record<string, PermissionProfile> = { ...BUILTIN_PROFILES };
+  private defaultProfile = DEFAULT_PROFILE;
+  private channels: Record<string, string> = {};
+  private users: Record<string, string> = {};
+
+  async init(path: string = PERMISSIONS_CONFIG): Promise<void> {
+    const config = await loadJsonConfig<PermissionConfig>(path);
+    if (!config) {
+      logger.info('No permissions config, using the default profile for all requests', { path, profile: DEFAULT_PROFILE });
+      return;
+    }
+
+    this.configure(config);
+    logger.info('Loaded permissions config', {
+      profiles: Object.keys(this.profiles).length,
+      channel_mappings: Object.keys(this.channels).length,
+      user_mappings: Object.keys(this.users).length,
+    });
+  }
+
+  /**
+   * Apply a config, validating that every referenced profile exists
+   * @throws If the config references unknown profiles or is malformed
+   */
+  configure(config: PermissionConfig): void {
+    const profiles = { ...BUILTIN_PROFILES, ...(config.profiles || {}) };
+
+    for (const [name, profile] of Object.entries(profiles)) {
+      if (!Array.isArray(profile.allowed_tools)) {
+        throw new Error(`Permission profile '${name}' must define allowed_tools as an array`);
+      }
+      if (profile.permission_mode && !PERMISSION_MODES.includes(profile.permission_mode)) {
+        throw new Error(`Permission profile '${name}' has invalid permission_mode '${profile.permission_mode}'`);
+      }
+    }
+
+    const defaultProfile = config.default_profile || DEFAULT_PROFILE;
+    const references: Array<[string, string]> = [
+      ['default_profile', defaultProfile],
+      ...Object.entries(config.channels || {}).map(([id, name]): [string, string] => [`channel ${id}`, name]),
+      ...Object.entries(config.users || {}).map(([id, name]): [string, string] => [`user ${id}`, name]),
+    ];
+
+    for (const [source, name] of references) {
+      if (!Object.hasOwn(profiles, name)) {
+        throw new Error(`Unknown permission profile '${name}' referenced by ${source}`);
+      }
+    }
+
+    this.profiles = profiles;
+    this.defaultProfile = defaultProfile;
+    this.channels = config.channels || {};
+    this.users = config.users || {};
+  }
+
+  /**
+   * Find the profile for a request, capping a user's profile at the channel's
+   */
+  resolve(channelId?: string, userId?: string): ResolvedProfile {
+    const userProfile = userId && Object.hasOwn(this.users, userId) ? this.users[userId] : undefined;
+    const channelProfile = channelId && Object.hasOwn(this.channels, channelId) ? this.channels[channelId] : undefined;
+
+    if (userProfile && channelProfile && userProfile !== channelProfile) {
+      return {
+        name: `${userProfile} within ${channelProfile}`,
+        profile: intersectProfiles(this.profiles[userProfile], this.profiles[channelProfile]),
+      };
+    }
+
+    const name = userProfile || channelProfile || this.defaultProfile;
+    return { name, profile: this.profiles[name] };
+  }
+}
+
+export const permissionResolver = new PermissionResolver();
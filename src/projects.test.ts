@@ -0,0 +1,65 @@
+/**
+ * Tests for Project Registry
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { ProjectRegistry } from './projects';
+
+describe('ProjectRegistry', () => {
+  let registry: ProjectRegistry;
+
+  beforeEach(() => {
+    registry = new ProjectRegistry();
+    registry.configure({
+      projects: {
+        website: { path: '/srv/website', system_prompt: 'Astro site.' },
+        infra: { path: '/srv/infra', description: 'Terraform' },
+      },
+      channels: { ops: 'infra' },
+    });
+  });
+
+  test('resolves nothing without selection or channel binding', () => {
+    expect(registry.resolve(undefined, 'general')).toBeNull();
+  });
+
+  test('resolves channel default', () => {
+    expect(registry.resolve(undefined, 'ops')?.name).toBe('infra');
+  });
+
+  test('session selection wins over channel default', () => {
+    const project = registry.resolve('website', 'ops');
+
+    expect(project?.name).toBe('website');
+    expect(project?.path).toBe('/srv/website');
+    expect(project?.system_prompt).toBe('Astro site.');
+  });
+
+  test('falls back to channel default when selection was removed', () => {
+    expect(registry.resolve('deleted', 'ops')?.name).toBe('infra');
+  });
+
+  test('does not mistake object prototype keys for projects', () => {
+    for (const name of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+      expect(registry.get(name)).toBeNull();
+      expect(registry.resolve(name, name)).toBeNull();
+    }
+    expect(() => registry.configure({ projects: {}, channels: { ops: 'constructor' } })).toThrow(
+      "Unknown project 'constructor' bound to channel ops"
+    );
+  });
+
+  test('lists projects', () => {
+    expect(registry.list().map((p) => p.name)).toEqual(['website', 'infra']);
+    expect(registry.channelDefault('ops')).toBe('infra');
+    expect(registry.channelDefault(undefined)).toBeUndefined();
+  });
+
+  test('rejects relative paths', () => {
+    expect(() => registry.configure({ projects: { bad: { path: 'src/bad' } } })).toThrow('absolute path');
+  });
+
+  test('rejects channels bound to unknown projects', () => {
+    expect(() => registry.configure({ channels: { c1: 'nope' } })).toThrow("Unknown project 'nope' bound to channel c1");
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Projects - Binds channels and sessions to repository working directories
+ *
+ * Projects are defined in PROJECTS_CONFIG (default: config/projects.json).
+ * A session's explicitly selected project wins over its channel's default;
+ * with neither, Claude runs in the Executor's own working directory.
+ *
+ * @example
+ * {
+ *   "projects": {
+ *     "website": { "path": "/home/me/src/website", "system_prompt": "This is the marketing site (Astro)." },
+ *     "infra": { "path": "/home/me/src/infra" }
+ *   },
+ *   "channels": { "7": "infra" }
+ * }
+ */
+
+import { join, isAbsolute } from 'path';
+import { stat } from 'fs/promises';
+import { CONFIG_DIR } from './paths';
+import { loadJsonConfig } from './utils/config-loader';
+import { logger } from './logger';
+
+const PROJECTS_CONFIG = process.env.PROJECTS_CONFIG || join(CONFIG_DIR, 'projects.json');
+
+export interface ProjectConfig {
+  path: string; // Absolute path used as the claude process cwd
+  system_prompt?: string; // Appended to the system prompt for this project
+  description?: string;
+}
+
+export interface ProjectsConfig {
+  projects?: Record<string, ProjectConfig>;
+  channels?: Record<string, string>;
+}
+
+export interface ResolvedProject extends ProjectConfig {
+  name: string;
+}
+
+export class ProjectRegistry {
+  private projects: Record<string, ProjectConfig> = {};
+  private channels: Record<string, string> = {};
+
+  async init(path: string = PROJECTS_CONFIG): Promise<void> {
+    const config = await loadJsonConfig<ProjectsConfig>(path);
+    if (!config) return;
+
+    this.configure(config);
+
+    // Fail fast on missing directories rather than on the first chat message
+    for (const [name, project] of Object.entries(this.projects)) {
+      const info = await stat(project.path).catch(() => null);
+      if (!info?.isDirectory()) {
+        throw new Error(`Project '${name}' path is not a directory: ${project.path}`);
+      }
+    }
+
+    logger.info('Loaded projects config', {
+      projects: Object.keys(this.projects).length,
+      channel_bindings: Object.keys(this.channels).length,
+    });
+  }
+
+  /**
+   * Apply a config, validating paths and channel bindings
+   * @throws If a project path is relative or a channel references an unknown project
+   */
+  configure(config: ProjectsConfig): void {
+    const projects = config.projects || {};
+    const channels = config.channels || {};
+
+    for (const [name, project] of Object.entries(projects)) {
+      if (!project.path || !isAbsolute(project.path)) {
+        throw new Error(`Project '${name}' must have an absolute path`);
+      }
+    }
+
+    for (const [channelId, name] of Object.entries(channels)) {
+      if (!Object.hasOwn(projects, name)) {
+        throw new Error(`Unknown project '${name}' bound to channel ${channelId}`);
+      }
+    }
+
+    this.projects = projects;
+    this.channels = channels;
+  }
+
+  /**
+   * A configured project; own entries only, so names like `constructor` are unknown
+   */
+  get(name: string): ResolvedProject | null {
+    return Object.hasOwn(this.projects, name) ? { name, ...this.projects[name] } : null;
+  }
+
+  list(): ResolvedProject[] {
+    return Object.keys(this.projects).map((name) => this.get(name)!);
+  }
+
+  /**
+   * Default project for a channel, if one is bound
+   */
+  channelDefault(channelId?: string): string | undefined {
+    return channelId && Object.hasOwn(this.channels, channelId) ? this.channels[channelId] : undefined;
+  }
+
+  /**
+   * Pick the project for an execution
+   * @param selected - Project chosen for the session via `@claude project <name>`
+   * @param channelId - Channel the request came from
+   */
+  resolve(selected?: string, channelId?: string): ResolvedProject | null {
+    if (selected) {
+      const project = this.get(selected);
+      if (project) return project;
+      logger.warn('Session project no longer configured, falling back to channel default', { project: selected });
+    }
+
+    const channelProject = this.channelDefault(channelId);
+    return channelProject ? this.get(channelProject) : null;
+  }
+}
+
+export const projectRegistry = new ProjectRegistry();
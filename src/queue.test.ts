@@ -0,0 +1,289 @@
+/**
+ * Tests for Request Queue
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Queue, JobCancelledError, parseChannelPriorities } from './queue';
+
+/**
+ * Helper: job that resolves when released or rejects when aborted
+ */
+function controllableJob(log: string[], name: string) {
+  let release!: (value: string) => void;
+  const fn = (signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      log.push(`start:${name}`);
+      release = (value) => resolve(value);
+      signal.addEventListener('abort', () => reject(new Error(`aborted:${name}`)));
+    });
+  return { fn, release: (value: string = name) => release(value) };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe('Queue', () => {
+  test('limits concurrent jobs', async () => {
+    const queue = new Queue({ maxConcurrent: 1 });
+    const log: string[] = [];
+    const a = controllableJob(log, 'a');
+    const b = controllableJob(log, 'b');
+
+    const pa = queue.add(a.fn);
+    const pb = queue.add(b.fn);
+    await tick();
+
+    expect(log).toEqual(['start:a']);
+    expect(queue.activeCount).toBe(1);
+    expect(queue.pendingCount).toBe(1);
+
+    a.release();
+    expect(await pa).toBe('a');
+    await tick();
+    expect(log).toEqual(['start:a', 'start:b']);
+
+    b.release();
+    expect(await pb).toBe('b');
+    expect(queue.length).toBe(0);
+  });
+
+  test('propagates job errors and continues', async () => {
+    const queue = new Queue({ maxConcurrent: 1 });
+    const failing = queue.add(async () => {
+      throw new Error('boom');
+    });
+    const next = queue.add(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    expect(await next).toBe('ok');
+  });
+
+  describe('cancel()', () => {
+    test('removes pending jobs for the session', async () => {
+      const queue = new Queue({ maxConcurrent: 1 });
+      const log: string[] = [];
+      const a = controllableJob(log, 'a');
+      const b = controllableJob(log, 'b');
+
+      const pa = queue.add(a.fn, { sessionId: 's1' });
+      const pb = queue.add(b.fn, { sessionId: 's2' });
+      await tick();
+
+      const result = queue.cancel('s2');
+      expect(result).toEqual({ pending: 1, running: 0 });
+      await expect(pb).rejects.toBeInstanceOf(JobCancelledError);
+
+      a.release();
+      expect(await pa).toBe('a');
+      expect(log).toEqual(['start:a']);
+    });
+
+    test('aborts running jobs for the session', async () => {
+      const queue = new Queue({ maxConcurrent: 2 });
+      const log: string[] = [];
+      const a = controllableJob(log, 'a');
+      const b = controllableJob(log, 'b');
+
+      const pa = queue.add(a.fn, { sessionId: 's1' });
+      const pb = queue.add(b.fn, { sessionId: 's2' });
+      await tick();
+
+      expect(queue.cancel('s1')).toEqual({ pending: 0, running: 1 });
+      await expect(pa).rejects.toThrow('aborted:a');
+
+      b.release();
+      expect(await pb).toBe('b');
+    });
+
+    test('starts the next job after an aborted one finishes', async () => {
+      const queue = new Queue({ maxConcurrent: 1 });
+      const log: string[] = [];
+      const a = controllableJob(log, 'a');
+      const b = controllableJob(log, 'b');
+
+      const pa = queue.add(a.fn, { sessionId: 's1' });
+      const pb = queue.add(b.fn, { sessionId: 's2' });
+      await tick();
+
+      queue.cancel('s1');
+      await expect(pa).rejects.toThrow();
+      await tick();
+
+      expect(log).toEqual(['start:a', 'start:b']);
+      b.release();
+      expect(await pb).toBe('b');
+    });
+
+    test('reports nothing for unknown sessions', () => {
+      const queue = new Queue();
+      expect(queue.cancel('none')).toEqual({ pending: 0, running: 0 });
+    });
+  });
+
+  describe('scheduling', () => {
+    /**
+     * Helper: fill a single-slot queue with a blocker, enqueue jobs,
+     * then release the blocker and record the order jobs start in.
+     */
+    async function startOrder(jobs: Array<{ name: string; userId?: string; priority?: number }>): Promise<string[]> {
+      const queue = new Queue({ maxConcurrent: 1 });
+      const log: string[] = [];
+      const blocker = controllableJob(log, 'blocker');
+      const done = [queue.add(blocker.fn, { userId: 'blocker' })];
+
+      for (const job of jobs) {
+        done.push(queue.add(async () => {
+          log.push(job.name);
+          return job.name;
+        }, { userId: job.userId, priority: job.priority }));
+      }
+
+      blocker.release();
+      await Promise.all(done);
+      return log.slice(1);
+    }
+
+    test('runs higher priority jobs first', async () => {
+      const order = await startOrder([
+        { name: 'low', userId: 'u1', priority: 0 },
+        { name: 'high', userId: 'u2', priority: 10 },
+        { name: 'mid', userId: 'u3', priority: 5 },
+      ]);
+
+      expect(order).toEqual(['high', 'mid', 'low']);
+    });
+
+    test('interleaves users so a burst cannot starve others', async () => {
+      const order = await startOrder([
+        { name: 'a1', userId: 'alice' },
+        { name: 'a2', userId: 'alice' },
+        { name: 'a3', userId: 'alice' },
+        { name: 'b1', userId: 'bob' },
+        { name: 'c1', userId: 'carol' },
+      ]);
+
+      expect(order).toEqual(['a1', 'b1', 'c1', 'a2', 'a3']);
+    });
+
+    test('keeps arrival order for a single user', async () => {
+      const order = await startOrder([
+        { name: 'first', userId: 'u1' },
+        { name: 'second', userId: 'u1' },
+      ]);
+
+      expect(order).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('per-session serialization', () => {
+    test('runs jobs for one session one at a time', async () => {
+      const queue = new Queue({ maxConcurrent: 2 });
+      const log: string[] = [];
+      const a1 = controllableJob(log, 'a1');
+      const a2 = controllableJob(log, 'a2');
+
+      const p1 = queue.add(a1.fn, { sessionId: 'a' });
+      const p2 = queue.add(a2.fn, { sessionId: 'a' });
+      await tick();
+
+      expect(log).toEqual(['start:a1']);
+      expect(queue.activeCount).toBe(1);
+      expect(queue.positionOf(queue.snapshot()[1].id)).toBe(1);
+
+      a1.release();
+      await p1;
+      await tick();
+      expect(log).toEqual(['start:a1', 'start:a2']);
+
+      a2.release();
+      await p2;
+    });
+
+    test('runs other sessions past a busy one', async () => {
+      const queue = new Queue({ maxConcurrent: 2 });
+      const log: string[] = [];
+      const a1 = controllableJob(log, 'a1');
+      const a2 = controllableJob(log, 'a2');
+      const b1 = controllableJob(log, 'b1');
+
+      const done = [
+        queue.add(a1.fn, { sessionId: 'a' }),
+        queue.add(a2.fn, { sessionId: 'a' }),
+        queue.add(b1.fn, { sessionId: 'b' }),
+      ];
+      await tick();
+
+      expect(log).toEqual(['start:a1', 'start:b1']);
+      expect(queue.pendingCount).toBe(1);
+
+      b1.release();
+      await tick();
+      // The free slot cannot go to session a while a1 is running
+      expect(log).toEqual(['start:a1', 'start:b1']);
+
+      a1.release();
+      await tick();
+      expect(log).toEqual(['start:a1', 'start:b1', 'start:a2']);
+
+      a2.release();
+      await Promise.all(done);
+    });
+  });
+
+  describe('introspection', () => {
+    test('reports positions and metadata', async () => {
+      const queue = new Queue({ maxConcurrent: 1 });
+      const log: string[] = [];
+      const a = controllableJob(log, 'a');
+      const b = controllableJob(log, 'b');
+      const c = controllableJob(log, 'c');
+
+      const pa = queue.add(a.fn, { id: 'job-a', sessionId: 's1', userId: 'alice', userName: 'Alice', channelId: 'ops' });
+      const pb = queue.add(b.fn, { id: 'job-b', userId: 'alice' });
+      const pc = queue.add(c.fn, { id: 'job-c', userId: 'bob' });
+
+      expect(queue.positionOf('job-a')).toBe(0);
+      expect(queue.positionOf('job-c')).toBe(1); // Bob has not been served yet
+      expect(queue.positionOf('job-b')).toBe(2);
+      expect(queue.positionOf('unknown')).toBe(-1);
+
+      const snapshot = queue.snapshot();
+      expect(snapshot.map((job) => [job.id, job.state, job.position])).toEqual([
+        ['job-a', 'running', 0],
+        ['job-c', 'pending', 1],
+        ['job-b', 'pending', 2],
+      ]);
+      expect(snapshot[0]).toMatchObject({ session_id: 's1', user_id: 'alice', user_name: 'Alice', channel_id: 'ops', priority: 0 });
+      expect(snapshot[0].started_at).toBeDefined();
+      expect(snapshot[1].started_at).toBeUndefined();
+
+      a.release();
+      await pa;
+      await tick();
+      c.release();
+      await pc;
+      await tick();
+      b.release();
+      await pb;
+      expect(queue.snapshot()).toEqual([]);
+    });
+  });
+});
+
+describe('parseChannelPriorities', () => {
+  test('parses channel:priority pairs', () => {
+    const priorities = parseChannelPriorities('7:10, 12:-1');
+
+    expect(priorities.get('7')).toBe(10);
+    expect(priorities.get('12')).toBe(-1);
+  });
+
+  test('returns empty map when unset', () => {
+    expect(parseChannelPriorities(undefined).size).toBe(0);
+    expect(parseChannelPriorities('').size).toBe(0);
+  });
+
+  test('rejects malformed entries', () => {
+    expect(() => parseChannelPriorities('7')).toThrow('Invalid channel priority');
+    expect(() => parseChannelPriorities('7:high')).toThrow('Invalid channel priority');
+  });
+});
@@ -1,53 +1,279 @@
 /**
  * Request Queue - Limits concurrent Claude Code executions
+ *
+ * Jobs receive an AbortSignal so running work can be cancelled;
+ * pending jobs can be removed before they start.
+ *
+ * Scheduling: the highest priority pending job runs first. Within a
+ * priority, users take turns - the user whose job started least recently
+ * goes next - so one user's burst cannot starve everyone else. Ties fall
+ * back to arrival order.
+ *
+ * Jobs sharing a sessionId never run at the same time: a pending job waits
+ * until the session's running job finishes, while jobs for other sessions
+ * take the free slots. This keeps two quick messages from forking one
+ * Claude session or racing on its stored state.
  */
 
+import { randomUUID } from 'crypto';
+
 export interface QueueOptions {
   maxConcurrent?: number;
 }
 
+export interface QueueJobOptions {
+  id?: string; // default: random UUID
+  sessionId?: string; // Jobs for one session run one at a time and can be cancelled together
+  userId?: string; // Fairness key (falls back to sessionId)
+  userName?: string;
+  channelId?: string;
+  priority?: number; // Higher runs first (default: 0)
+}
+
+export interface QueueJobInfo {
+  id: string;
+  state: 'running' | 'pending';
+  position: number; // 0 while running, otherwise 1-based place in line
+  session_id?: string;
+  user_id?: string;
+  user_name?: string;
+  channel_id?: string;
+  priority: number;
+  enqueued_at: string;
+  started_at?: string;
+}
+
+export interface CancelResult {
+  pending: number; // Queued jobs removed before starting
+  running: number; // Running jobs signalled to abort
+}
+
+export class JobCancelledError extends Error {
+  constructor(message: string = 'Job cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+interface QueueEntry {
+  id: string;
+  options: QueueJobOptions;
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  startedAt?: number;
+  controller: AbortController;
+  run: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parse a channel priority spec such as "7:10,12:5"
+ * @returns Map of channel id to priority
+ */
+export function parseChannelPriorities(spec: string | undefined): Map<string, number> {
+  const priorities = new Map<string, number>();
+  if (!spec) return priorities;
+
+  for (const pair of spec.split(',')) {
+    const [channelId, value] = pair.split(':').map((part) => part.trim());
+    const priority = parseInt(value, 10);
+    if (!channelId || isNaN(priority)) {
+      throw new Error(`Invalid channel priority '${pair}' (expected <channel_id>:<priority>)`);
+    }
+    priorities.set(channelId, priority);
+  }
+
+  return priorities;
+}
+
 export class Queue {
   private maxConcurrent: number;
-  private running: number = 0;
-  private queue: Array<() => Promise<void>> = [];
+  private running: Map<string, QueueEntry> = new Map();
+  private queue: QueueEntry[] = [];
+  private sequence = 0;
+  private startCounter = 0;
+  private lastStartByUser: Map<string, number> = new Map();
 
   constructor(options: QueueOptions = {}) {
     this.maxConcurrent = options.maxConcurrent ?? 2;
   }
 
-  async add<T>(fn: () => Promise<T>): Promise<T> {
+  async add<T>(fn: (signal: AbortSignal) => Promise<T>, options: QueueJobOptions = {}): Promise<T> {
     return new Promise((resolve, reject) => {
-      const wrapped = async () => {
-        try {
-          const result = await fn();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        } finally {
-          this.running--;
-          this.processNext();
-        }
+      const entry: QueueEntry = {
+        id: options.id ?? randomUUID(),
+        options,
+        priority: options.priority ?? 0,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        controller: new AbortController(),
+        reject,
+        run: async () => {
+          try {
+            const result = await fn(entry.controller.signal);
+            resolve(result);
+          } catch (error) {
+            reject(error);
+          } finally {
+            this.running.delete(entry.id);
+            this.processNext();
+          }
+        },
       };
 
-      if (this.running < this.maxConcurrent) {
-        this.running++;
-        wrapped();
-      } else {
-        this.queue.push(wrapped);
-      }
+      this.queue.push(entry);
+      this.processNext();
     });
   }
 
+  /**
+   * Cancel every pending and running job for a session
+   * Pending jobs reject with JobCancelledError; running jobs have their
+   * AbortSignal triggered and are expected to stop promptly.
+   */
+  cancel(sessionId: string): CancelResult {
+    const removed = this.queue.filter((entry) => entry.options.sessionId === sessionId);
+    this.queue = this.queue.filter((entry) => entry.options.sessionId !== sessionId);
+
+    for (const entry of removed) {
+      entry.reject(new JobCancelledError());
+    }
+
+    let running = 0;
+    for (const entry of this.running.values()) {
+      if (entry.options.sessionId === sessionId && !entry.controller.signal.aborted) {
+        entry.controller.abort();
+        running++;
+      }
+    }
+
+    return { pending: removed.length, running };
+  }
+
+  /**
+   * Position of a job: 0 while running, 1-based place in line while pending,
+   * or -1 if the job is unknown (finished or cancelled)
+   */
+  positionOf(id: string): number {
+    if (this.running.has(id)) return 0;
+    const index = this.scheduledOrder().findIndex((entry) => entry.id === id);
+    return index === -1 ? -1 : index + 1;
+  }
+
+  /**
+   * Running jobs followed by pending jobs in the order they are expected to start
+   */
+  snapshot(): QueueJobInfo[] {
+    const running = [...this.running.values()].map((entry) => this.describe(entry, 'running', 0));
+    const pending = this.scheduledOrder().map((entry, i) => this.describe(entry, 'pending', i + 1));
+    return [...running, ...pending];
+  }
+
+  private describe(entry: QueueEntry, state: QueueJobInfo['state'], position: number): QueueJobInfo {
+    return {
+      id: entry.id,
+      state,
+      position,
+      session_id: entry.options.sessionId,
+      user_id: entry.options.userId,
+      user_name: entry.options.userName,
+      channel_id: entry.options.channelId,
+      priority: entry.priority,
+      enqueued_at: new Date(entry.enqueuedAt).toISOString(),
+      started_at: entry.startedAt ? new Date(entry.startedAt).toISOString() : undefined,
+    };
+  }
+
+  private userKey(entry: QueueEntry): string {
+    return entry.options.userId ?? entry.options.sessionId ?? entry.id;
+  }
+
+  /**
+   * Pick the index of the pending job that should start next
+   * @param busySessions - Sessions with a running job; their pending jobs must wait
+   * @returns -1 if every candidate is waiting on its session
+   */
+  private pickNext(candidates: QueueEntry[], lastStart: Map<string, number>, busySessions: Set<string>): number {
+    let best = -1;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const sessionId = candidates[i].options.sessionId;
+      if (sessionId && busySessions.has(sessionId)) continue;
+
+      if (best === -1 || this.compare(candidates[i], candidates[best], lastStart) < 0) {
+        best = i;
+      }
+    }
+
+    return best;
+  }
+
+  private runningSessions(): Set<string> {
+    const sessions = new Set<string>();
+    for (const entry of this.running.values()) {
+      if (entry.options.sessionId) sessions.add(entry.options.sessionId);
+    }
+    return sessions;
+  }
+
+  private compare(a: QueueEntry, b: QueueEntry, lastStart: Map<string, number>): number {
+    if (a.priority !== b.priority) return b.priority - a.priority;
+
+    const lastA = lastStart.get(this.userKey(a)) ?? -1;
+    const lastB = lastStart.get(this.userKey(b)) ?? -1;
+    if (lastA !== lastB) return lastA - lastB;
+
+    return a.sequence - b.sequence;
+  }
+
+  /**
+   * Simulate scheduling to list pending jobs in expected start order
+   * Approximate: when only jobs for busy sessions remain, the simulation
+   * assumes the running jobs have finished.
+   */
+  private scheduledOrder(): QueueEntry[] {
+    const remaining = [...this.queue];
+    const lastStart = new Map(this.lastStartByUser);
+    const busySessions = this.runningSessions();
+    let counter = this.startCounter;
+    const order: QueueEntry[] = [];
+
+    while (remaining.length > 0) {
+      let index = this.pickNext(remaining, lastStart, busySessions);
+      if (index === -1) {
+        busySessions.clear();
+        index = this.pickNext(remaining, lastStart, busySessions);
+      }
+
+      const [entry] = remaining.splice(index, 1);
+      lastStart.set(this.userKey(entry), counter++);
+      if (entry.options.sessionId) busySessions.add(entry.options.sessionId);
+      order.push(entry);
+    }
+
+    return order;
+  }
+
+  private start(entry: QueueEntry): void {
+    entry.startedAt = Date.now();
+    this.lastStartByUser.set(this.userKey(entry), this.startCounter++);
+    this.running.set(entry.id, entry);
+    entry.run();
+  }
+
   private processNext(): void {
-    if (this.queue.length > 0 && this.running < this.maxConcurrent) {
-      const next = this.queue.shift()!;
-      this.running++;
-      next();
+    while (this.queue.length > 0 && this.running.size < this.maxConcurrent) {
+      const index = this.pickNext(this.queue, this.lastStartByUser, this.runningSessions());
+      if (index === -1) return; // Only jobs for busy sessions are waiting
+
+      const [next] = this.queue.splice(index, 1);
+      this.start(next);
     }
   }
 
   get activeCount(): number {
-    return this.running;
+    return this.running.size;
   }
 
   get pendingCount(): number {
@@ -55,7 +281,7 @@ export class Queue {
   }
 
   get length(): number {
-    return this.running + this.queue.length;
+    return this.running.size + this.queue.length;
   }
 }
 
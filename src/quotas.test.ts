@@ -0,0 +1,176 @@
+/**
+ * Tests for Quotas
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QuotaManager, periodStart, periodEnd, type Quota, type QuotaLimits } from './quotas';
+import { UsageStore, type UsageRecord } from './usage-store';
+import { JobStore } from './job-store';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MARCH_10 = Date.parse('2026-03-10T15:00:00Z');
+
+function record(jobId: string, overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    job_id: jobId,
+    session_id: '7_42',
+    user_id: '42',
+    user_name: 'alice',
+    channel_id: '7',
+    success: true,
+    duration_ms: 30_000,
+    ...overrides,
+  };
+}
+
+describe('QuotaManager', () => {
+  let dir: string;
+  let usage: UsageStore;
+  let jobs: JobStore;
+  let manager: QuotaManager;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'quotas-'));
+    usage = new UsageStore();
+    await usage.init(join(dir, 'usage.sqlite'));
+    jobs = new JobStore();
+    await jobs.init(join(dir, 'jobs.sqlite'));
+    manager = new QuotaManager(usage, jobs);
+    await manager.init(join(dir, 'missing.json'), join(dir, 'quotas.sqlite'));
+  });
+
+  afterEach(async () => {
+    manager.close();
+    usage.close();
+    jobs.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('no config means no quotas', () => {
+    usage.record(record('j1'), MARCH_10);
+    expect(manager.check('42', '7', MARCH_10)).toBeNull();
+    expect(manager.status('42', '7', MARCH_10)).toEqual({ quotas: [], overrides: [] });
+  });
+
+  test('reports the first exhausted quota of the current period', () => {
+    manager.configure({ default_user: { daily: { executions: 2 } }, default_channel: { monthly: { seconds: 600 } } });
+    usage.record(record('yesterday'), MARCH_10 - 24 * HOUR_MS);
+    usage.record(record('j1'), MARCH_10 - HOUR_MS);
+    expect(manager.check('42', '7', MARCH_10)).toBeNull();
+
+    usage.record(record('j2'), MARCH_10);
+    expect(manager.check('42', '7', MARCH_10)).toEqual({
+      scope: 'user',
+      id: '42',
+      period: 'daily',
+      metric: 'executions',
+      used: 2,
+      limit: 2,
+      resets_at: '2026-03-11T00:00:00.000Z',
+    });
+    expect(manager.check('43', '7', MARCH_10)).toBeNull();
+    expect(manager.check(undefined, '7', MARCH_10)).toBeNull();
+  });
+
+  test('counts queued and running jobs as executions', () => {
+    manager.configure({ default_user: { daily: { executions: 3 } }, channels: { '7': { daily: { seconds: 60 } } } });
+    const request = { session_id: '7_42', prompt: 'hi', user_name: 'alice', user_id: '42', channel_id: '7' };
+    usage.record(record('j1'), MARCH_10);
+
+    // A burst: each request is recorded before the next is checked
+    jobs.queued('j2', request);
+    expect(manager.check('42', '7', MARCH_10)).toBeNull();
+    jobs.queued('j3', request);
+    jobs.started('j2');
+    expect(manager.check('42', '7', MARCH_10)).toMatchObject({ scope: 'user', metric: 'executions', used: 3 });
+    expect(manager.check('43', '7', MARCH_10)).toBeNull(); // Only executions count in-flight jobs
+
+    jobs.finished('j3', { success: false, session_id: '7_42', cancelled: true });
+    expect(manager.check('42', '7', MARCH_10)).toBeNull();
+  });
+
+  test('counts seconds and cost per channel', () => {
+    manager.configure({ channels: { '7': { monthly: { seconds: 60, cost_usd: 1 } } } });
+    usage.record(record('j1', { user_id: '43' }), MARCH_10);
+    usage.record(record('j2', { user_id: '44' }), MARCH_10);
+
+    expect(manager.check(undefined, '7', MARCH_10)).toMatchObject({ scope: 'channel', metric: 'seconds', used: 60 });
+    expect(manager.status(undefined, '7', MARCH_10).quotas.map((q) => [q.metric, q.used])).toEqual([
+      ['seconds', 60],
+      ['cost_usd', 0],
+    ]);
+    expect(manager.check(undefined, '9', MARCH_10)).toBeNull();
+  });
+
+  test("a user's entry overrides the default field by field", () => {
+    manager.configure({
+      default_user: { daily: { executions: 5, cost_usd: 1 }, monthly: { executions: 100 } },
+      users: { '42': { daily: { executions: 50 } } },
+    });
+    expect(manager.resolve('user', '42')).toEqual({
+      daily: { executions: 50, cost_usd: 1 },
+      monthly: { executions: 100 },
+    });
+    expect(manager.resolve('channel', '7')).toEqual({});
+  });
+
+  test('lifted quotas are skipped until the lift ends or is restored', () => {
+    manager.configure({ admins: ['1'], default_user: { daily: { executions: 1 } } });
+    usage.record(record('j1'), MARCH_10);
+    expect(manager.check('42', '7', MARCH_10)).not.toBeNull();
+
+    manager.lift('user', '42', MARCH_10 + HOUR_MS, '1');
+    expect(manager.check('42', '7', MARCH_10)).toBeNull();
+    expect(manager.status('42', '7', MARCH_10).overrides).toEqual([
+      { scope: 'user', id: '42', until: '2026-03-10T16:00:00.000Z', by: '1' },
+    ]);
+    expect(manager.check('42', '7', MARCH_10 + 2 * HOUR_MS)).not.toBeNull();
+
+    expect(manager.restore('user', '42')).toBe(true);
+    expect(manager.restore('user', '42')).toBe(false);
+    expect(manager.check('42', '7', MARCH_10)).not.toBeNull();
+  });
+
+  test('lifts survive a restart', async () => {
+    manager.lift('channel', '7', MARCH_10 + HOUR_MS);
+    manager.close();
+
+    const restarted = new QuotaManager(usage, jobs);
+    await restarted.init(join(dir, 'missing.json'), join(dir, 'quotas.sqlite'));
+    expect(restarted.status(undefined, '7', MARCH_10).overrides).toHaveLength(1);
+    restarted.close();
+  });
+
+  test('admins come from the config', () => {
+    manager.configure({ admins: ['1'] });
+    expect(manager.isAdmin('1')).toBe(true);
+    expect(manager.isAdmin('42')).toBe(false);
+    expect(manager.isAdmin(undefined)).toBe(false);
+  });
+
+  test('rejects unknown periods, unknown limits and non-positive limits', () => {
+    expect(() => manager.configure({ users: { '42': { weekly: { executions: 1 } } as unknown as Quota } })).toThrow(
+      "Quota for user 42: unknown period 'weekly'"
+    );
+    expect(() => manager.configure({ default_channel: { daily: { tokens: 1 } as unknown as QuotaLimits } })).toThrow(
+      "Quota for default_channel: unknown limit 'tokens'"
+    );
+    expect(() => manager.configure({ default_user: { monthly: { cost_usd: 0 } } })).toThrow(
+      'Quota for default_user: monthly cost_usd must be a positive number'
+    );
+    expect(() => manager.configure({ admins: '1' as unknown as string[] })).toThrow('Quota admins must be a list of user ids');
+  });
+});
+
+describe('periodStart / periodEnd', () => {
+  test('use UTC days and months', () => {
+    const time = Date.parse('2026-12-31T23:30:00Z');
+    expect(new Date(periodStart('daily', time)).toISOString()).toBe('2026-12-31T00:00:00.000Z');
+    expect(new Date(periodEnd('daily', time)).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    expect(new Date(periodStart('monthly', time)).toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(new Date(periodEnd('monthly', time)).toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Quotas - Daily and monthly usage limits per user and channel
+ *
+ * A quota caps the executions, wall-clock seconds or reported cost (USD)
+ * of a user or channel per UTC day or month. Quotas are checked against the
+ * usage store before a request is queued, so they hold across restarts;
+ * requests already queued when a quota runs out still finish. Queued and
+ * running jobs count as executions already used, so a burst of requests
+ * cannot overrun an execution quota before any of them has finished.
+ * User quotas apply to requests that carry a user_id.
+ *
+ * Limits are defined in QUOTAS_CONFIG (default: config/quotas.json); a
+ * user's or channel's entry overrides its default period by period, field by
+ * field. Without a config file there are no quotas. Users listed in `admins`
+ * can lift a quota for a while; lifts are kept in `quotas.sqlite`.
+ *
+ * @example
+ * {
+ *   "admins": ["5"],
+ *   "default_user": { "daily": { "executions": 50 }, "monthly": { "cost_usd": 20 } },
+ *   "default_channel": { "monthly": { "seconds": 36000 } },
+ *   "users": { "5": { "daily": { "executions": 500 } } },
+ *   "channels": { "7": { "monthly": { "cost_usd": 100 } } }
+ * }
+ */
+
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { mkdir } from 'fs/promises';
+import { CONFIG_DIR, INTEGRATION_DIR } from './paths';
+import { loadJsonConfig } from './utils/config-loader';
+import { usageStore, type UsageStore } from './usage-store';
+import { jobStore, type JobStore } from './job-store';
+import { logger } from './logger';
+import type { QuotaMetric, QuotaOverride, QuotaPeriod, QuotaScope, QuotaStatus, QuotaUsage, UsageTotals } from './types';
+
+const QUOTAS_CONFIG = process.env.QUOTAS_CONFIG || join(CONFIG_DIR, 'quotas.json');
+const QUOTAS_DB_PATH = join(INTEGRATION_DIR, 'quotas.sqlite');
+
+export type QuotaLimits = Partial<Record<QuotaMetric, number>>;
+export type Quota = Partial<Record<QuotaPeriod, QuotaLimits>>;
+
+export interface QuotaConfig {
+  admins?: string[]; // User ids allowed to lift quotas
+  default_user?: Quota;
+  default_channel?: Quota;
+  users?: Record<string, Quota>;
+  channels?: Record<string, Quota>;
+}
+
+const PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+const METRICS: QuotaMetric[] = ['executions', 'seconds', 'cost_usd'];
+
+interface OverrideRow {
+  scope: QuotaScope;
+  id: string;
+  until: number;
+  by_user_id: string | null;
+}
+
+/**
+ * Start of the UTC day or month containing a time
+ */
+export function periodStart(period: QuotaPeriod, now: number): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/**
+ * Start of the next UTC day or month, when the quota resets
+ */
+export function periodEnd(period: QuotaPeriod, now: number): number {
+  const date = new Date(now);
+  return period === 'daily'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * How much of a metric a set of executions used
+ */
+function usedOf(totals: UsageTotals, metric: QuotaMetric): number {
+  if (metric === 'seconds') return Math.round(totals.duration_ms / 1000);
+  return totals[metric];
+}
+
+/**
+ * One-line description of an exhausted quota, for the response error
+ * @example
+ * describeQuota({ scope: 'user', id: '42', period: 'daily', metric: 'executions', used: 50, limit: 50, ... })
+ * // "Daily quota of 50 executions reached for user 42 (resets 2026-03-11T00:00:00.000Z)"
+ */
+export function describeQuota(quota: QuotaUsage): string {
+  const period = quota.period === 'daily' ? 'Daily' : 'Monthly';
+  const limit = quota.metric === 'cost_usd' ? `$${quota.limit.toFixed(2)}` : `${quota.limit} ${quota.metric}`;
+  return `${period} quota of ${limit} reached for ${quota.scope} ${quota.id} (resets ${quota.resets_at})`;
+}
+
+/**
+ * Check a quota only names known periods and metrics with positive limits
+ * @throws If it does not
+ */
+function validateQuota(quota: Quota, source: string): void {
+  for (const [period, limits] of Object.entries(quota)) {
+    if (!PERIODS.includes(period as QuotaPeriod)) {
+      throw new Error(`Quota for ${source}: unknown period '${period}' (expected daily or monthly)`);
+    }
+    for (const [metric, value] of Object.entries(limits ?? {})) {
+      if (!METRICS.includes(metric as QuotaMetric)) {
+        throw new Error(`Quota for ${source}: unknown limit '${metric}' (expected executions, seconds or cost_usd)`);
+      }
+      if (typeof value !== 'number' || !(value > 0)) {
+        throw new Error(`Quota for ${source}: ${period} ${metric} must be a positive number`);
+      }
+    }
+  }
+}
+
+/**
+ * Merge a specific quota over a default, period by period
+ */
+function mergeQuota(base: Quota = {}, specific: Quota = {}): Quota {
+  const merged: Quota = {};
+  for (const period of PERIODS) {
+    const limits = { ...base[period], ...specific[period] };
+    if (Object.keys(limits).length > 0) merged[period] = limits;
+  }
+  return merged;
+}
+
+export class QuotaManager {
+  private config: QuotaConfig = {};
+  private db: Database | null = null;
+
+  constructor(private usage: UsageStore = usageStore, private jobs: JobStore = jobStore) {}
+
+  async init(configPath: string = QUOTAS_CONFIG, dbPath: string = QUOTAS_DB_PATH): Promise<void> {
+    await mkdir(dirname(dbPath), { recursive: true });
+    this.db = new Database(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS quota_overrides (
+        scope TEXT NOT NULL,
+        id TEXT NOT NULL,
+        until INTEGER NOT NULL,
+        by_user_id TEXT,
+        PRIMARY KEY (scope, id)
+      )
+    `);
+
+    const config = await loadJsonConfig<QuotaConfig>(configPath);
+    if (!config) {
+      logger.info('No quotas config, usage is not limited', { path: configPath });
+      return;
+    }
+
+    this.configure(config);
+    logger.info('Loaded quotas config', {
+      user_quotas: Object.keys(this.config.users ?? {}).length,
+      channel_quotas: Object.keys(this.config.channels ?? {}).length,
+      admins: this.config.admins?.length ?? 0,
+    });
+  }
+
+  /**
+   * Apply a config, validating every quota
+   * @throws If a quota names an unknown period or limit, or a limit is not a positive number
+   */
+  configure(config: QuotaConfig): void {
+    if (config.admins !== undefined && !(Array.isArray(config.admins) && config.admins.every((id) => typeof id === 'string'))) {
+      throw new Error('Quota admins must be a list of user ids');
+    }
+
+    validateQuota(config.default_user ?? {}, 'default_user');
+    validateQuota(config.default_channel ?? {}, 'default_channel');
+    for (const [userId, quota] of Object.entries(config.users ?? {})) {
+      validateQuota(quota, `user ${userId}`);
+    }
+    for (const [channelId, quota] of Object.entries(config.channels ?? {})) {
+      validateQuota(quota, `channel ${channelId}`);
+    }
+
+    this.config = config;
+  }
+
+  isAdmin(userId?: string): boolean {
+    return !!userId && (this.config.admins ?? []).includes(userId);
+  }
+
+  /**
+   * Quota for a user or channel: its own entry over the default
+   */
+  resolve(scope: QuotaScope, id: string): Quota {
+    return scope === 'user'
+      ? mergeQuota(this.config.default_user, this.config.users?.[id])
+      : mergeQuota(this.config.default_channel, this.config.channels?.[id]);
+  }
+
+  /**
+   * Every quota that applies to a request and how much of it is used
+   * (executions include queued and running jobs), with any lifts in force
+   */
+  status(userId?: string, channelId?: string, now: number = Date.now()): QuotaStatus {
+    const quotas: QuotaUsage[] = [];
+    const overrides: QuotaOverride[] = [];
+
+    for (const [scope, id] of this.subjects(userId, channelId)) {
+      const override = this.overrideOf(scope, id, now);
+      if (override) overrides.push(override);
+
+      const subject = { [scope === 'user' ? 'user_id' : 'channel_id']: id };
+      const quota = Object.entries(this.resolve(scope, id)) as [QuotaPeriod, QuotaLimits][];
+      const inFlight = quota.length > 0 ? this.jobs.inFlight(subject) : 0;
+
+      for (const [period, limits] of quota) {
+        const finished = this.usage.totals({ ...subject, from: periodStart(period, now) });
+        const totals = { ...finished, executions: finished.executions + inFlight };
+        const resetsAt = new Date(periodEnd(period, now)).toISOString();
+        for (const [metric, limit] of Object.entries(limits) as [QuotaMetric, number][]) {
+          quotas.push({ scope, id, period, metric, used: usedOf(totals, metric), limit, resets_at: resetsAt });
+        }
+      }
+    }
+
+    return { quotas, overrides };
+  }
+
+  /**
+   * First quota a request would exceed, skipping lifted ones
+   * @returns null if the request may run
+   */
+  check(userId?: string, channelId?: string, now: number = Date.now()): QuotaUsage | null {
+    const { quotas, overrides } = this.status(userId, channelId, now);
+    const lifted = new Set(overrides.map((o) => `${o.scope}:${o.id}`));
+    return quotas.find((q) => q.used >= q.limit && !lifted.has(`${q.scope}:${q.id}`)) ?? null;
+  }
+
+  /**
+   * Lift a user's or channel's quotas until a time
+   */
+  lift(scope: QuotaScope, id: string, until: number, by?: string): QuotaOverride {
+    this.database
+      .prepare('INSERT OR REPLACE INTO quota_overrides (scope, id, until, by_user_id) VALUES (?, ?, ?, ?)')
+      .run(scope, id, until, by ?? null);
+    logger.info('Quota lifted', { scope, id, until: new Date(until).toISOString(), by });
+    return { scope, id, until: new Date(until).toISOString(), ...(by ? { by } : {}) };
+  }
+
+  /**
+   * Put a lifted quota back in force
+   * @returns false if it was not lifted
+   */
+  restore(scope: QuotaScope, id: string): boolean {
+    const removed = this.database.prepare('DELETE FROM quota_overrides WHERE scope = ? AND id = ?').run(scope, id).changes > 0;
+    if (removed) logger.info('Quota restored', { scope, id });
+    return removed;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private get database(): Database {
+    if (!this.db) {
+      throw new Error('Quota manager not initialized');
+    }
+    return this.db;
+  }
+
+  private subjects(userId?: string, channelId?: string): [QuotaScope, string][] {
+    const subjects: [QuotaScope, string][] = [];
+    if (userId) subjects.push(['user', userId]);
+    if (channelId) subjects.push(['channel', channelId]);
+    return subjects;
+  }
+
+  private overrideOf(scope: QuotaScope, id: string, now: number): QuotaOverride | null {
+    const row = this.database
+      .prepare('SELECT * FROM quota_overrides WHERE scope = ? AND id = ? AND until > ?')
+      .get(scope, id, now) as OverrideRow | null;
+    if (!row) return null;
+    return { scope, id, until: new Date(row.until).toISOString(), ...(row.by_user_id ? { by: row.by_user_id } : {}) };
+  }
+}
+
+export const quotas = new QuotaManager();
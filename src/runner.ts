@@ -0,0 +1,53 @@
+/**
+ * Runner - Backend that turns a prompt into a Claude reply
+ *
+ * RUNNER selects the backend (default: cli):
+ * - cli: spawns the claude CLI (see claude-runner.ts)
+ * - fake: answers from the canned responses in FAKE_RUNNER_SCRIPT (see fake-runner.ts)
+ */
+
+import { CliRunner, type ClaudeRunOptions, type ClaudeRunResult } from './claude-runner';
+import { FakeRunner } from './fake-runner';
+import { logger } from './logger';
+
+const RUNNER = process.env.RUNNER || 'cli';
+const FAKE_RUNNER_SCRIPT = process.env.FAKE_RUNNER_SCRIPT;
+
+export interface Runner {
+  run(options: ClaudeRunOptions): Promise<ClaudeRunResult>;
+}
+
+/**
+ * The runner chosen by configuration; the CLI runner until init() says otherwise
+ */
+export class ConfiguredRunner implements Runner {
+  private backend: Runner = new CliRunner();
+
+  /**
+   * Select the backend
+   * @throws On an unknown runner name or an unreadable fake runner script
+   */
+  async init(kind: string = RUNNER, scriptPath: string | undefined = FAKE_RUNNER_SCRIPT): Promise<void> {
+    if (kind === 'cli') {
+      this.backend = new CliRunner();
+    } else if (kind === 'fake') {
+      this.backend = scriptPath ? await FakeRunner.fromFile(scriptPath) : new FakeRunner();
+      logger.warn('Using fake runner - Claude will not be called', { script: scriptPath });
+    } else {
+      throw new Error(`Unknown RUNNER '${kind}' (expected cli or fake)`);
+    }
+  }
+
+  /**
+   * Replace the backend directly (e.g. with a FakeRunner in tests)
+   */
+  use(runner: Runner): void {
+    this.backend = runner;
+  }
+
+  run(options: ClaudeRunOptions): Promise<ClaudeRunResult> {
+    return this.backend.run(options);
+  }
+}
+
+export const runner = new ConfiguredRunner();
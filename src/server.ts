@@ -5,20 +5,34 @@
  */
 
 import { Hono } from 'hono';
-import { logger } from 'hono/logger';
+import { streamSSE } from 'hono/streaming';
 import { sessionManager } from './session-manager';
 import { requestQueue } from './queue';
-import { ContextManager } from './context-manager';
-import type { ExecuteRequest, ExecuteResponse } from './types';
-
-const app = new Hono();
+import { executeRequest, submitJob, errorResponse, recoverJobs } from './jobs';
+import { jobStore } from './job-store';
+import { usageStore, parseUsageDate, type UsageFilter } from './usage-store';
+import { quotas } from './quotas';
+import { isValidCallbackUrl } from './callback-client';
+import { permissionResolver } from './permissions';
+import { projectRegistry } from './projects';
+import { sessionPolicies } from './session-policy';
+import { metrics } from './metrics';
+import { logger, correlationIdFrom, CORRELATION_HEADER } from './logger';
+import { runner } from './runner';
+import { attachmentStore } from './attachment-store';
+import { transcriptStore } from './transcript-store';
+import { buildTranscript, formatMarkdown } from './transcript-export';
+import { ContextEstimator } from './utils/context-estimator';
+import type { ExecuteRequest, ExecuteResponse, ExecuteAccepted, QuotaScope } from './types';
+
+const app = new Hono<{ Variables: { correlationId: string } }>();
 
 // Auth token validation
 const AUTH_TOKEN = process.env.BRIDGE_AUTH_TOKEN;
 
 function validateAuth(authHeader: string | undefined): boolean {
   if (!AUTH_TOKEN) {
-    console.warn('WARNING: No BRIDGE_AUTH_TOKEN set - auth disabled');
+    logger.warn('No BRIDGE_AUTH_TOKEN set - auth disabled');
     return true;
   }
   if (!authHeader) return false;
@@ -26,8 +40,22 @@ function validateAuth(authHeader: string | undefined): boolean {
   return token === AUTH_TOKEN;
 }
 
-// Middleware
-app.use('*', logger());
+// Middleware: correlation id (from the Bridge, or new) and one log line per request
+app.use('*', async (c, next) => {
+  const correlationId = correlationIdFrom(c.req.header(CORRELATION_HEADER));
+  c.set('correlationId', correlationId);
+  c.header(CORRELATION_HEADER, correlationId);
+
+  const start = Date.now();
+  await next();
+  logger.info('HTTP request', {
+    correlation_id: correlationId,
+    method: c.req.method,
+    route: c.req.routePath,
+    status: c.res.status,
+    duration_ms: Date.now() - start,
+  });
+});
 
 // Health check
 app.get('/health', async (c) => {
@@ -42,6 +70,15 @@ app.get('/health', async (c) => {
   });
 });
 
+// Prometheus metrics (unauthenticated, like /health)
+metrics.gauge('executor_queue_active', 'Jobs running now', () => requestQueue.activeCount);
+metrics.gauge('executor_queue_pending', 'Jobs waiting in the queue', () => requestQueue.pendingCount);
+metrics.gauge('executor_sessions', 'Sessions held by the Executor', () => sessionManager.count());
+
+app.get('/metrics', (c) => {
+  return c.body(metrics.render(), 200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+});
+
 // Execute Claude Code
 app.post('/execute', async (c) => {
   // Validate auth
@@ -56,67 +93,154 @@ app.post('/execute', async (c) => {
     return c.json({ error: 'Invalid JSON body' }, 400);
   }
 
-  const { session_id, claude_session_id, prompt, user_name } = body;
+  body.correlation_id = c.get('correlationId');
+  const { session_id, prompt, user_name, callback_url } = body;
 
   if (!session_id || !prompt) {
     return c.json({ error: 'Missing required fields: session_id, prompt' }, 400);
   }
 
-  console.log(`Execute request: session=${session_id}, user=${user_name}`);
+  const attachmentError = attachmentStore.validate(body.attachments);
+  if (attachmentError) {
+    return c.json({ error: attachmentError }, 400);
+  }
 
-  // Get or create session
-  let session = await sessionManager.get(session_id);
-  if (!session) {
-    session = await sessionManager.create(session_id, user_name);
+  if (callback_url !== undefined && !isValidCallbackUrl(callback_url)) {
+    return c.json({ error: 'Invalid callback_url' }, 400);
   }
 
-  // If client provided a Claude session ID and session doesn't have one yet, use it
-  if (claude_session_id && !session.claude_session_id) {
-    session.claude_session_id = claude_session_id;
+  const log = logger.child({ correlation_id: body.correlation_id, session_id });
+  log.info('Execute request', { user: user_name, callback: Boolean(callback_url) });
+
+  // Asynchronous mode: accept now, deliver the result to the callback URL
+  if (callback_url) {
+    const { jobId, position, rejected } = await submitJob(body);
+    if (rejected) {
+      return c.json(rejected, 429);
+    }
+    const accepted: ExecuteAccepted = {
+      accepted: true,
+      job_id: jobId,
+      session_id,
+      queue_position: Math.max(position, 0),
+    };
+    return c.json(accepted, 202);
   }
 
   try {
-    // Queue the execution using ContextManager
-    const result = await requestQueue.add(async () => {
-      return await ContextManager.execute({
-        prompt,
-        session,
-        userName: user_name,
-      });
-    });
+    const response = await executeRequest(body);
+    return c.json(response);
+  } catch (error) {
+    log.error('Execute error', { error });
+    return c.json(errorResponse(body, error), 500);
+  }
+});
 
-    // Update session with new Claude session ID and context state
-    const updates: Partial<import('./types').SessionData> = {
-      context_state: result.contextState,
+// Execute Claude Code, streaming progress as server-sent events
+// Events: `queued` once, `text` and `tool` while running, then a single `result` (ExecuteResponse)
+app.post('/execute/stream', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: ExecuteRequest;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  body.correlation_id = c.get('correlationId');
+  const { session_id, prompt, user_name } = body;
+
+  if (!session_id || !prompt) {
+    return c.json({ error: 'Missing required fields: session_id, prompt' }, 400);
+  }
+
+  const attachmentError = attachmentStore.validate(body.attachments);
+  if (attachmentError) {
+    return c.json({ error: attachmentError }, 400);
+  }
+
+  const log = logger.child({ correlation_id: body.correlation_id, session_id });
+  log.info('Execute stream request', { user: user_name });
+
+  return streamSSE(c, async (stream) => {
+    // Chain writes so events arrive in the order Claude produced them
+    let writes: Promise<void> = Promise.resolve();
+    const send = (event: string, data: unknown) => {
+      writes = writes
+        .then(() => stream.writeSSE({ event, data: JSON.stringify(data) }))
+        .catch(() => {
+          // Client went away; keep running so the session is still updated
+        });
     };
 
-    if (result.sessionId) {
-      updates.claude_session_id = result.sessionId;
+    let response: ExecuteResponse;
+    try {
+      response = await executeRequest(body, {
+        onEvent: (event) => send(event.type, event),
+        onQueued: (position) => send('queued', { type: 'queued', position }),
+      });
+    } catch (error) {
+      log.error('Execute error', { error });
+      response = errorResponse(body, error);
     }
 
-    await sessionManager.update(session_id, updates);
-    await sessionManager.incrementMessageCount(session_id);
+    send('result', response);
+    await writes;
+  });
+});
 
-    const response: ExecuteResponse = {
-      success: result.success,
-      session_id,
-      claude_session_id: result.sessionId,
-      result: result.output,
-      error: result.error,
-    };
+// List running and queued jobs
+app.get('/queue', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
 
-    console.log(`Execute complete: session=${session_id}, success=${result.success}, tokens=${result.contextState.estimated_tokens}`);
-    return c.json(response);
+  return c.json({
+    active: requestQueue.activeCount,
+    pending: requestQueue.pendingCount,
+    jobs: requestQueue.snapshot(),
+  });
+});
 
-  } catch (error) {
-    console.error(`Execute error: session=${session_id}`, error);
-    const response: ExecuteResponse = {
-      success: false,
-      session_id,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-    return c.json(response, 500);
+// Get a job's status (and its response once finished)
+app.get('/jobs/:id', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const job = jobStore.get(c.req.param('id'));
+  if (!job) {
+    return c.json({ error: 'Job not found' }, 404);
+  }
+
+  const { request, ...status } = job;
+  return c.json({ ...status, queue_position: requestQueue.positionOf(job.id) });
+});
+
+// Cancel queued and running jobs for a session
+app.post('/cancel', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: { session_id?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { session_id } = body;
+  if (!session_id) {
+    return c.json({ error: 'Missing session_id' }, 400);
   }
+
+  const cancelled = requestQueue.cancel(session_id);
+  logger.info('Cancel requested', { correlation_id: c.get('correlationId'), session_id, ...cancelled });
+  return c.json({ success: true, cancelled });
 });
 
 // Reset session
@@ -131,7 +255,7 @@ app.post('/reset', async (c) => {
   }
 
   await sessionManager.delete(session_id);
-  console.log(`Session reset: ${session_id}`);
+  logger.info('Session reset', { correlation_id: c.get('correlationId'), session_id });
   return c.json({ success: true, message: 'Session reset' });
 });
 
@@ -145,10 +269,189 @@ app.get('/session/:id', async (c) => {
   const session = await sessionManager.get(sessionId);
 
   if (!session) {
+    const ending = sessionManager.endingOf(sessionId);
+    return c.json({ error: 'Session not found', ...(ending ? { ended_reason: ending.reason } : {}) }, 404);
+  }
+
+  const expiresAt = sessionManager.expiresAt(session);
+  return c.json({
+    ...session,
+    ...(expiresAt ? { expires_at: new Date(expiresAt).toISOString() } : {}),
+    context_usage_percent: ContextEstimator.getUsagePercentage(session.context_state?.estimated_tokens ?? 0),
+  });
+});
+
+// Export a session's history (?format=json, the default, or markdown)
+app.get('/session/:id/transcript', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const format = c.req.query('format') || 'json';
+  if (format !== 'json' && format !== 'markdown') {
+    return c.json({ error: 'format must be json or markdown' }, 400);
+  }
+
+  const session = await sessionManager.get(c.req.param('id'));
+  if (!session) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  const transcript = buildTranscript(session, await transcriptStore.load(session.session_id));
+  if (format === 'markdown') {
+    return c.body(formatMarkdown(transcript), 200, { 'Content-Type': 'text/markdown; charset=utf-8' });
+  }
+  return c.json(transcript);
+});
+
+// Download a file Claude wrote to the session's output directory
+app.get('/session/:id/files/:name', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const path = attachmentStore.outputPath(c.req.param('id'), c.req.param('name'));
+  const file = path ? Bun.file(path) : null;
+  if (!file || !(await file.exists())) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  return new Response(file);
+});
+
+// Cost and token usage by day, user and channel
+// ?from=&to= (YYYY-MM-DD, inclusive, or ISO timestamps); ?user_id=, ?channel_id=, ?session_id= narrow it down
+app.get('/usage', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { from, to, user_id, channel_id, session_id } = c.req.query();
+  let filter: UsageFilter;
+  try {
+    filter = {
+      from: from ? parseUsageDate(from) : undefined,
+      to: to ? parseUsageDate(to, true) : undefined,
+      user_id,
+      channel_id,
+      session_id,
+    };
+  } catch (error) {
+    return c.json({ error: (error as Error).message }, 400);
+  }
+
+  return c.json(usageStore.report(filter));
+});
+
+// Quotas that apply to a user and channel, and how much of each is used
+app.get('/quota', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const { user_id, channel_id } = c.req.query();
+  return c.json(quotas.status(user_id, channel_id));
+});
+
+// Lift a user's or channel's quotas for a while, or put them back in force (admins only)
+app.post('/quota/override', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: { scope?: QuotaScope; id?: string | number; lifted?: boolean; hours?: number; by_user_id?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { scope, id, lifted, hours = 24, by_user_id } = body;
+  if ((scope !== 'user' && scope !== 'channel') || !id || typeof lifted !== 'boolean') {
+    return c.json({ error: 'Missing scope (user or channel), id or lifted' }, 400);
+  }
+  if (typeof hours !== 'number' || !(hours > 0)) {
+    return c.json({ error: 'hours must be a positive number' }, 400);
+  }
+  if (!quotas.isAdmin(by_user_id)) {
+    return c.json({ error: 'Only quota admins can override quotas' }, 403);
+  }
+
+  if (!lifted) {
+    return c.json({ success: true, restored: quotas.restore(scope, String(id)) });
+  }
+  const override = quotas.lift(scope, String(id), Date.now() + hours * 60 * 60 * 1000, by_user_id);
+  return c.json({ success: true, override });
+});
+
+// List configured projects (and the channel's default, if channel_id is given)
+app.get('/projects', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const projects = projectRegistry.list().map(({ name, path, description }) => ({ name, path, description }));
+  return c.json({
+    projects,
+    channel_default: projectRegistry.channelDefault(c.req.query('channel_id')) ?? null,
+  });
+});
+
+// Bind a session to a project (null clears the selection)
+app.post('/project', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: { session_id?: string; project?: string | null; user_name?: string };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { session_id, project, user_name } = body;
+  if (!session_id) {
+    return c.json({ error: 'Missing session_id' }, 400);
+  }
+
+  if (project && !projectRegistry.get(project)) {
+    return c.json({ error: `Unknown project: ${project}` }, 404);
+  }
+
+  if (!(await sessionManager.get(session_id))) {
+    await sessionManager.create(session_id, user_name || 'Unknown');
+  }
+
+  const session = await sessionManager.update(session_id, { project: project || undefined });
+  logger.info('Session project set', { correlation_id: c.get('correlationId'), session_id, project: project || null });
+  return c.json({ success: true, session });
+});
+
+// Park a session so it does not expire (or un-park it)
+app.post('/archive', async (c) => {
+  if (!validateAuth(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: { session_id?: string; archived?: boolean };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { session_id, archived } = body;
+  if (!session_id || typeof archived !== 'boolean') {
+    return c.json({ error: 'Missing session_id or archived' }, 400);
+  }
+
+  if (!(await sessionManager.setArchived(session_id, archived))) {
     return c.json({ error: 'Session not found' }, 404);
   }
 
-  return c.json(session);
+  logger.info(archived ? 'Session archived' : 'Session resumed', { correlation_id: c.get('correlationId'), session_id });
+  return c.json({ success: true });
 });
 
 // Cleanup expired sessions
@@ -165,20 +468,41 @@ app.post('/cleanup', async (c) => {
 const PORT = parseInt(process.env.PORT || '3457', 10);
 
 async function main() {
+  await sessionPolicies.init();
   await sessionManager.init();
+  await jobStore.init();
+  await usageStore.init();
+  await quotas.init();
+  await permissionResolver.init();
+  await projectRegistry.init();
+  await runner.init();
+  await recoverJobs();
 
   // Periodic cleanup every 10 minutes
   setInterval(async () => {
     const cleaned = await sessionManager.cleanup();
     if (cleaned > 0) {
-      console.log(`Cleaned up ${cleaned} expired sessions`);
+      logger.info('Cleaned up expired sessions', { count: cleaned });
+    }
+
+    const pruned = jobStore.cleanup();
+    if (pruned > 0) {
+      logger.info('Pruned finished jobs', { count: pruned });
+    }
+
+    const expiredUsage = usageStore.cleanup();
+    if (expiredUsage > 0) {
+      logger.info('Pruned old usage records', { count: expiredUsage });
     }
   }, 10 * 60 * 1000);
 
-  console.log(`Synology Chat Executor listening on port ${PORT}`);
+  logger.info('Synology Chat Executor listening', { port: PORT });
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  logger.error('Failed to start executor', { error });
+  process.exit(1);
+});
 
 export default {
   port: PORT,
@@ -0,0 +1,156 @@
+/**
+ * Tests for Session Jobs (serialization and message coalescing)
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Queue, JobCancelledError } from './queue';
+import { SessionJobs, combinePrompts } from './session-jobs';
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+/**
+ * Fake runner: records prompts and overlap, finishes when released
+ */
+function fakeRunner() {
+  const prompts: string[] = [];
+  const releases: Array<() => void> = [];
+  let active = 0;
+  let maxActive = 0;
+
+  const run = (prompt: string) =>
+    new Promise<string>((resolve) => {
+      prompts.push(prompt);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      releases.push(() => {
+        active--;
+        resolve(`reply to: ${prompt}`);
+      });
+    });
+
+  return {
+    run,
+    prompts,
+    get maxActive() {
+      return maxActive;
+    },
+    releaseNext: () => releases.shift()!(),
+  };
+}
+
+describe('SessionJobs', () => {
+  test('serializes messages for the same session', async () => {
+    const jobs = new SessionJobs(new Queue({ maxConcurrent: 2 }));
+    const runner = fakeRunner();
+
+    const first = jobs.submit('s1', 'one', runner.run);
+    const second = jobs.submit('s1', 'two', runner.run);
+    await tick();
+
+    expect(runner.prompts).toEqual(['one']);
+    expect(second.coalesced).toBe(false);
+
+    runner.releaseNext();
+    expect(await first.done).toBe('reply to: one');
+    await tick();
+
+    expect(runner.prompts).toEqual(['one', 'two']);
+    runner.releaseNext();
+    expect(await second.done).toBe('reply to: two');
+    expect(runner.maxActive).toBe(1);
+  });
+
+  test('runs different sessions in parallel', async () => {
+    const jobs = new SessionJobs(new Queue({ maxConcurrent: 2 }));
+    const runner = fakeRunner();
+
+    const a = jobs.submit('s1', 'a', runner.run);
+    const b = jobs.submit('s2', 'b', runner.run);
+    await tick();
+
+    expect(runner.prompts).toEqual(['a', 'b']);
+    expect(runner.maxActive).toBe(2);
+
+    runner.releaseNext();
+    runner.releaseNext();
+    await Promise.all([a.done, b.done]);
+  });
+
+  test('coalesces messages sent while the session is busy', async () => {
+    const jobs = new SessionJobs(new Queue({ maxConcurrent: 2 }), { coalesce: true });
+    const runner = fakeRunner();
+
+    const first = jobs.submit('s1', 'one', runner.run);
+    const second = jobs.submit('s1', 'two', runner.run);
+    const third = jobs.submit('s1', 'three', runner.run);
+    await tick();
+
+    expect(first.coalesced).toBe(false);
+    expect(second.coalesced).toBe(false);
+    expect(third.coalesced).toBe(true);
+    expect(third.jobId).toBe(second.jobId);
+
+    runner.releaseNext();
+    await first.done;
+    await tick();
+
+    expect(runner.prompts).toEqual(['one', combinePrompts(['two', 'three'])]);
+    runner.releaseNext();
+    expect(await third.done).toBe(await second.done);
+  });
+
+  test('starts a new job once the waiting one has started', async () => {
+    const jobs = new SessionJobs(new Queue({ maxConcurrent: 2 }), { coalesce: true });
+    const runner = fakeRunner();
+
+    const first = jobs.submit('s1', 'one', runner.run);
+    await tick();
+    const second = jobs.submit('s1', 'two', runner.run);
+
+    expect(second.coalesced).toBe(false);
+    expect(second.jobId).not.toBe(first.jobId);
+
+    runner.releaseNext();
+    await first.done;
+    await tick();
+    runner.releaseNext();
+    await second.done;
+  });
+
+  test('does not coalesce when disabled', async () => {
+    const jobs = new SessionJobs(new Queue({ maxConcurrent: 1 }));
+    const runner = fakeRunner();
+
+    jobs.submit('s1', 'one', runner.run);
+    const second = jobs.submit('s1', 'two', runner.run);
+    const third = jobs.submit('s1', 'three', runner.run);
+
+    expect(third.coalesced).toBe(false);
+    expect(third.jobId).not.toBe(second.jobId);
+  });
+
+  test('cancelling a waiting job rejects coalesced messages too', async () => {
+    const queue = new Queue({ maxConcurrent: 1 });
+    const jobs = new SessionJobs(queue, { coalesce: true });
+    const runner = fakeRunner();
+
+    const first = jobs.submit('s1', 'one', runner.run);
+    const second = jobs.submit('s1', 'two', runner.run);
+    const third = jobs.submit('s1', 'three', runner.run);
+    await tick();
+
+    queue.cancel('s1');
+    await expect(second.done).rejects.toBeInstanceOf(JobCancelledError);
+    await expect(third.done).rejects.toBeInstanceOf(JobCancelledError);
+
+    // A fresh message after cancelling is not folded into the cancelled job
+    const fourth = jobs.submit('s1', 'four', runner.run);
+    expect(fourth.coalesced).toBe(false);
+
+    runner.releaseNext();
+    await first.done;
+    await tick();
+    runner.releaseNext();
+    expect(await fourth.done).toBe('reply to: four');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Session Jobs - Queues per-session work and coalesces follow-up messages
+ *
+ * The queue already runs one job per session at a time. With coalescing
+ * enabled, messages that arrive while a session already has a job waiting
+ * are folded into that job, so Claude answers them together in a single
+ * follow-up turn instead of one turn per message.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from './logger';
+import type { Queue, QueueJobOptions } from './queue';
+
+export interface SessionJobsOptions {
+  coalesce?: boolean; // default: false
+}
+
+/**
+ * Work to run for a session, given the (possibly combined) prompt
+ */
+export type SessionJobRunner<T> = (prompt: string, signal: AbortSignal) => Promise<T>;
+
+export interface SessionJobHandle<T> {
+  jobId: string; // Queue job that will answer this message
+  coalesced: boolean; // True if folded into an earlier waiting job
+  done: Promise<T>;
+}
+
+interface WaitingJob<T> {
+  jobId: string;
+  prompts: string[];
+  done: Promise<T>;
+}
+
+/**
+ * Join prompts gathered while the session was busy into one message
+ */
+export function combinePrompts(prompts: string[]): string {
+  return prompts.join('\n\n');
+}
+
+export class SessionJobs {
+  private waiting: Map<string, WaitingJob<unknown>> = new Map();
+  private coalesce: boolean;
+
+  constructor(
+    private queue: Queue,
+    options: SessionJobsOptions = {}
+  ) {
+    this.coalesce = options.coalesce ?? false;
+  }
+
+  /**
+   * Queue a message for a session
+   * If coalescing is enabled and the session already has a job waiting to
+   * start, the prompt is appended to it and `run` is not used; the handle
+   * resolves with that job's result.
+   */
+  submit<T>(
+    sessionId: string,
+    prompt: string,
+    run: SessionJobRunner<T>,
+    options: Omit<QueueJobOptions, 'sessionId'> = {}
+  ): SessionJobHandle<T> {
+    const waiting = this.coalesce ? (this.waiting.get(sessionId) as WaitingJob<T> | undefined) : undefined;
+    if (waiting) {
+      waiting.prompts.push(prompt);
+      logger.info('Coalesced message into waiting job', {
+        session_id: sessionId,
+        job_id: waiting.jobId,
+        messages: waiting.prompts.length,
+      });
+      return { jobId: waiting.jobId, coalesced: true, done: waiting.done };
+    }
+
+    const job = { jobId: options.id ?? randomUUID(), prompts: [prompt] } as WaitingJob<T>;
+
+    // Registered before queueing: a job that starts right away releases itself
+    if (this.coalesce) {
+      this.waiting.set(sessionId, job);
+    }
+
+    job.done = this.queue.add((signal) => {
+      // Later messages start a new job from here on
+      this.release(sessionId, job.jobId);
+      return run(combinePrompts(job.prompts), signal);
+    }, { ...options, id: job.jobId, sessionId });
+
+    // Cancelled before starting: stop collecting prompts for this job
+    job.done.catch(() => this.release(sessionId, job.jobId));
+
+    return { jobId: job.jobId, coalesced: false, done: job.done };
+  }
+
+  private release(sessionId: string, jobId: string): void {
+    if (this.waiting.get(sessionId)?.jobId === jobId) {
+      this.waiting.delete(sessionId);
+    }
+  }
+}
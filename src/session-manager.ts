@@ -1,17 +1,31 @@
 /**
  * Session Manager - Tracks Claude Code session continuity
+ *
+ * Sessions end under their channel's session policy (see session-policy.ts),
+ * except archived ones, which the bridge parks when a user switches to
+ * another named session. Why a session ended is remembered until it is
+ * recreated, so the next response can tell the user.
  */
 
 import { join } from 'path';
 import { readFile, writeFile, mkdir, readdir, unlink } from 'fs/promises';
-import type { SessionData } from './types';
-
-const PAI_DIR = process.env.PAI_DIR || join(process.env.HOME!, '.claude');
-const SESSIONS_DIR = join(PAI_DIR, 'integrations/synology-chat/sessions');
-const SESSION_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+import { SESSIONS_DIR } from './paths';
+import { transcriptStore } from './transcript-store';
+import { attachmentStore } from './attachment-store';
+import { sessionPolicies, endReason, expiresAt } from './session-policy';
+import { logger } from './logger';
+import type { SessionData, SessionEndReason } from './types';
+
+const ENDING_RETENTION_MS = 24 * 60 * 60 * 1000; // Forget why a session ended after a day
+
+export interface SessionEnding {
+  reason: SessionEndReason;
+  ended_at: number;
+}
 
 export class SessionManager {
   private cache: Map<string, SessionData> = new Map();
+  private endings: Map<string, SessionEnding> = new Map();
 
   async init(): Promise<void> {
     await mkdir(SESSIONS_DIR, { recursive: true });
@@ -40,17 +54,23 @@ export class SessionManager {
     const session = this.cache.get(sessionId);
     if (!session) return null;
 
-    // Check if session is expired
-    const lastActivity = new Date(session.last_activity).getTime();
-    if (Date.now() - lastActivity > SESSION_TIMEOUT_MS) {
-      await this.delete(sessionId);
+    const reason = endReason(session, sessionPolicies.resolve(session.channel_id));
+    if (reason) {
+      await this.end(sessionId, reason);
       return null;
     }
 
     return session;
   }
 
-  async create(sessionId: string, userName: string): Promise<SessionData> {
+  /**
+   * @param details - Thread and channel the session belongs to
+   */
+  async create(
+    sessionId: string,
+    userName: string,
+    details: Pick<SessionData, 'thread_id' | 'channel_id'> = {}
+  ): Promise<SessionData> {
     const now = new Date().toISOString();
     const session: SessionData = {
       session_id: sessionId,
@@ -58,8 +78,12 @@ export class SessionManager {
       created_at: now,
       last_activity: now,
       message_count: 0,
+      ...(details.thread_id ? { thread_id: details.thread_id } : {}),
+      ...(details.channel_id ? { channel_id: details.channel_id } : {}),
     };
 
+    this.endings.delete(sessionId);
+
     await this.save(session);
     return session;
   }
@@ -78,13 +102,17 @@ export class SessionManager {
     return updated;
   }
 
-  async incrementMessageCount(sessionId: string): Promise<void> {
+  /**
+   * @returns The updated session, or null if it does not exist
+   */
+  async incrementMessageCount(sessionId: string): Promise<SessionData | null> {
     const session = this.cache.get(sessionId);
-    if (session) {
-      session.message_count++;
-      session.last_activity = new Date().toISOString();
-      await this.save(session);
-    }
+    if (!session) return null;
+
+    session.message_count++;
+    session.last_activity = new Date().toISOString();
+    await this.save(session);
+    return session;
   }
 
   private async save(session: SessionData): Promise<void> {
@@ -95,30 +123,81 @@ export class SessionManager {
 
   async delete(sessionId: string): Promise<void> {
     this.cache.delete(sessionId);
+    this.endings.delete(sessionId);
     const filePath = join(SESSIONS_DIR, `${sessionId}.json`);
     try {
       await unlink(filePath);
     } catch {
       // File might not exist
     }
+    await transcriptStore.delete(sessionId);
+    await attachmentStore.delete(sessionId);
+  }
+
+  /**
+   * End a session under its policy, remembering why
+   */
+  private async end(sessionId: string, reason: SessionEndReason): Promise<void> {
+    logger.info('Session ended', { session_id: sessionId, reason });
+    await this.delete(sessionId);
+    this.endings.set(sessionId, { reason, ended_at: Date.now() });
+  }
+
+  /**
+   * Why a session ended, if it ended under its policy and was not recreated since
+   */
+  endingOf(sessionId: string): SessionEnding | null {
+    return this.endings.get(sessionId) ?? null;
+  }
+
+  /**
+   * When a session ends unless it is used again
+   * @returns Unix ms, or null if it has no time limit
+   */
+  expiresAt(session: SessionData): number | null {
+    return expiresAt(session, sessionPolicies.resolve(session.channel_id));
   }
 
   count(): number {
     return this.cache.size;
   }
 
+  /**
+   * Park a session so it does not expire, or make it expire normally again
+   * @returns false if the session does not exist
+   */
+  async setArchived(sessionId: string, archived: boolean): Promise<boolean> {
+    const session = await this.get(sessionId);
+    if (!session) return false;
+
+    const { archived: _previous, ...rest } = session;
+    // Resumed sessions restart their inactivity clock
+    await this.save({
+      ...rest,
+      ...(archived ? { archived: true } : {}),
+      last_activity: new Date().toISOString(),
+    });
+    return true;
+  }
+
   async cleanup(): Promise<number> {
     const now = Date.now();
     let cleaned = 0;
 
     for (const [id, session] of this.cache) {
-      const lastActivity = new Date(session.last_activity).getTime();
-      if (now - lastActivity > SESSION_TIMEOUT_MS) {
-        await this.delete(id);
+      const reason = endReason(session, sessionPolicies.resolve(session.channel_id), now);
+      if (reason) {
+        await this.end(id, reason);
         cleaned++;
       }
     }
 
+    for (const [id, ending] of this.endings) {
+      if (now - ending.ended_at > ENDING_RETENTION_MS) {
+        this.endings.delete(id);
+      }
+    }
+
     return cleaned;
   }
 }
@@ -0,0 +1,121 @@
+/**
+ * Tests for Session Policies
+ */
+
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { SessionPolicyResolver, endReason, expiresAt, limitWarning, DEFAULT_SESSION_POLICY } from './session-policy';
+import type { ContextOverflowPolicy, SessionData } from './types';
+
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+
+function session(overrides: Partial<SessionData> = {}): SessionData {
+  return {
+    session_id: '7_42',
+    user_name: 'alice',
+    created_at: new Date(NOW - 60 * MINUTE_MS).toISOString(),
+    last_activity: new Date(NOW - 5 * MINUTE_MS).toISOString(),
+    message_count: 3,
+    ...overrides,
+  };
+}
+
+describe('endReason', () => {
+  test('keeps sessions within every limit', () => {
+    expect(endReason(session(), { idle_timeout_minutes: 30, max_age_hours: 2, max_messages: 10, max_tokens: 1000 }, NOW)).toBeNull();
+  });
+
+  test('ends idle sessions', () => {
+    expect(endReason(session(), { idle_timeout_minutes: 4 }, NOW)).toBe('idle');
+  });
+
+  test('ends sessions past their maximum age', () => {
+    expect(endReason(session(), { idle_timeout_minutes: 30, max_age_hours: 0.5 }, NOW)).toBe('max_age');
+  });
+
+  test('ends sessions at their message or token limit', () => {
+    expect(endReason(session(), { max_messages: 3 }, NOW)).toBe('max_messages');
+
+    const large = session({ context_state: { estimated_tokens: 5000, needs_summarization: false } });
+    expect(endReason(large, { max_tokens: 5000 }, NOW)).toBe('max_tokens');
+  });
+
+  test('never ends archived sessions', () => {
+    expect(endReason(session({ archived: true }), { idle_timeout_minutes: 1, max_messages: 1 }, NOW)).toBeNull();
+  });
+});
+
+describe('expiresAt', () => {
+  test('is the earlier of the idle and age deadlines', () => {
+    const s = session();
+    expect(expiresAt(s, { idle_timeout_minutes: 30 })).toBe(NOW + 25 * MINUTE_MS);
+    expect(expiresAt(s, { idle_timeout_minutes: 30, max_age_hours: 1.25 })).toBe(NOW + 15 * MINUTE_MS);
+  });
+
+  test('is null for archived sessions or without time limits', () => {
+    expect(expiresAt(session({ archived: true }), DEFAULT_SESSION_POLICY)).toBeNull();
+    expect(expiresAt(session(), { max_messages: 5 })).toBeNull();
+  });
+});
+
+describe('limitWarning', () => {
+  test('warns from the last message before the limit', () => {
+    expect(limitWarning(session({ message_count: 3 }), { max_messages: 5 })).toBeNull();
+    expect(limitWarning(session({ message_count: 4 }), { max_messages: 5 })).toEqual({ reason: 'max_messages', remaining: 1 });
+    expect(limitWarning(session({ message_count: 5 }), { max_messages: 5 })).toEqual({ reason: 'max_messages', remaining: 0 });
+  });
+
+  test('warns once the context is nearly full', () => {
+    const at = (tokens: number) => session({ context_state: { estimated_tokens: tokens, needs_summarization: false } });
+
+    expect(limitWarning(at(8000), { max_tokens: 10000 })).toBeNull();
+    expect(limitWarning(at(9500), { max_tokens: 10000 })).toEqual({ reason: 'max_tokens', remaining: 500 });
+  });
+});
+
+describe('SessionPolicyResolver', () => {
+  let resolver: SessionPolicyResolver;
+
+  beforeEach(() => {
+    resolver = new SessionPolicyResolver();
+  });
+
+  test('defaults to a 30 minute idle timeout', () => {
+    expect(resolver.resolve('7')).toEqual({ idle_timeout_minutes: 30 });
+  });
+
+  test('merges channel policies over the default', () => {
+    resolver.configure({
+      default: { max_age_hours: 24 },
+      channels: { '7': { idle_timeout_minutes: 120, max_messages: 50 } },
+    });
+
+    expect(resolver.resolve('7')).toEqual({ idle_timeout_minutes: 120, max_age_hours: 24, max_messages: 50 });
+    expect(resolver.resolve('12')).toEqual({ idle_timeout_minutes: 30, max_age_hours: 24 });
+    expect(resolver.resolve()).toEqual({ idle_timeout_minutes: 30, max_age_hours: 24 });
+  });
+
+  test('an idle timeout of 0 or null turns idle expiry off', () => {
+    resolver.configure({ default: { idle_timeout_minutes: 0 }, channels: { '7': { idle_timeout_minutes: null, max_age_hours: 24 } } });
+
+    expect(resolver.resolve()).toEqual({ idle_timeout_minutes: 0 });
+    expect(expiresAt(session(), resolver.resolve())).toBeNull();
+    expect(endReason(session({ last_activity: new Date(NOW - 48 * 60 * MINUTE_MS).toISOString() }), resolver.resolve('7'), NOW)).toBeNull();
+    expect(expiresAt(session(), resolver.resolve('7'))).toBe(NOW + 23 * 60 * MINUTE_MS);
+  });
+
+  test('rejects limits that are not positive numbers', () => {
+    expect(() => resolver.configure({ default: { idle_timeout_minutes: -1 } })).toThrow('idle_timeout_minutes');
+    expect(() => resolver.configure({ default: { max_messages: 0 } })).toThrow('max_messages');
+    expect(() => resolver.configure({ channels: { '7': { max_messages: '5' as unknown as number } } })).toThrow('channel 7');
+    expect(() => resolver.configure({ default: { context_warning_percent: -5 } })).toThrow('context_warning_percent');
+  });
+
+  test('accepts only known context overflow policies', () => {
+    resolver.configure({ channels: { '7': { context_overflow: 'confirm' } } });
+    expect(resolver.resolve('7').context_overflow).toBe('confirm');
+    expect(() => resolver.configure({ channels: { '7': { context_overflow: 'drop' as unknown as ContextOverflowPolicy } } })).toThrow(
+      'Session policy for channel 7: context_overflow must be summarize, reject or confirm'
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Session Policy - When a session ends
+ *
+ * A session ends when it has been idle too long, reached its maximum age,
+ * message count or context size. The policy also says what to do with a
+ * message that would take the context past its hard limit, and when to warn
+ * that the context is filling up. Limits are defined in
+ * SESSION_POLICY_CONFIG (default: config/session-policy.json); a channel's
+ * entry overrides the default field by field. Without a config file sessions
+ * only end after 30 idle minutes; an idle timeout of 0 or null turns idle
+ * expiry off. Archived sessions never end.
+ *
+ * The Executor is the authority: responses carry the time-based expiry (or
+ * none, when the session has no time limit) so the bridge expires its own
+ * record at the same moment.
+ *
+ * @example
+ * {
+ *   "default": { "idle_timeout_minutes": 60, "max_age_hours": 24 },
+ *   "channels": {
+ *     "7": { "max_messages": 50, "max_tokens": 150000 },
+ *     "12": { "context_overflow": "confirm", "context_warning_percent": 70 }
+ *   }
+ * }
+ */
+
+import { join } from 'path';
+import { CONFIG_DIR } from './paths';
+import { loadJsonConfig } from './utils/config-loader';
+import { logger } from './logger';
+import type { ContextOverflowPolicy, SessionData, SessionEndReason, SessionWarning } from './types';
+
+const SESSION_POLICY_CONFIG = process.env.SESSION_POLICY_CONFIG || join(CONFIG_DIR, 'session-policy.json');
+
+export interface SessionPolicy {
+  idle_timeout_minutes?: number | null; // default: 30; 0 or null: sessions do not expire when idle
+  max_age_hours?: number; // Counted from the session's creation
+  max_messages?: number;
+  max_tokens?: number; // Context size
+  context_overflow?: ContextOverflowPolicy; // A message past the context hard limit: summarize (default), reject or confirm
+  context_warning_percent?: number; // Warn once the context reaches this share of the hard limit (default: 80)
+}
+
+export interface SessionPolicyConfig {
+  default?: SessionPolicy;
+  channels?: Record<string, SessionPolicy>;
+}
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = { idle_timeout_minutes: 30 };
+export const DEFAULT_CONTEXT_OVERFLOW: ContextOverflowPolicy = 'summarize';
+export const DEFAULT_CONTEXT_WARNING_PERCENT = 80;
+
+const TOKEN_WARNING_RATIO = 0.9; // Warn once the context is 90% of max_tokens
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const POLICY_FIELDS = ['idle_timeout_minutes', 'max_age_hours', 'max_messages', 'max_tokens', 'context_warning_percent'] as const;
+const OVERFLOW_POLICIES: ContextOverflowPolicy[] = ['summarize', 'reject', 'confirm'];
+
+/**
+ * Check a policy's limits are positive numbers (or off, for the idle timeout)
+ * and its overflow policy is known
+ * @throws If not
+ */
+function validatePolicy(policy: SessionPolicy, source: string): void {
+  for (const field of POLICY_FIELDS) {
+    const value = policy[field];
+    if (field === 'idle_timeout_minutes' && (value === 0 || value === null)) continue; // Idle expiry off
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      throw new Error(`Session policy for ${source}: ${field} must be a positive number`);
+    }
+  }
+  if (policy.context_overflow !== undefined && !OVERFLOW_POLICIES.includes(policy.context_overflow)) {
+    throw new Error(`Session policy for ${source}: context_overflow must be summarize, reject or confirm`);
+  }
+}
+
+/**
+ * Time at which a session ends if nothing else happens (idle timeout or max age)
+ * @returns Unix ms, or null if the session does not expire (archived, or no time limits)
+ */
+export function expiresAt(session: SessionData, policy: SessionPolicy): number | null {
+  if (session.archived) return null;
+
+  const deadlines: number[] = [];
+  if (policy.idle_timeout_minutes) {
+    deadlines.push(new Date(session.last_activity).getTime() + policy.idle_timeout_minutes * MINUTE_MS);
+  }
+  if (policy.max_age_hours) {
+    deadlines.push(new Date(session.created_at).getTime() + policy.max_age_hours * HOUR_MS);
+  }
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+/**
+ * Why a session has ended under a policy
+ * @returns null if the session may continue
+ */
+export function endReason(session: SessionData, policy: SessionPolicy, now: number = Date.now()): SessionEndReason | null {
+  if (session.archived) return null;
+
+  if (policy.idle_timeout_minutes && now - new Date(session.last_activity).getTime() > policy.idle_timeout_minutes * MINUTE_MS) {
+    return 'idle';
+  }
+  if (policy.max_age_hours && now - new Date(session.created_at).getTime() > policy.max_age_hours * HOUR_MS) {
+    return 'max_age';
+  }
+  if (policy.max_messages && session.message_count >= policy.max_messages) {
+    return 'max_messages';
+  }
+  if (policy.max_tokens && (session.context_state?.estimated_tokens ?? 0) >= policy.max_tokens) {
+    return 'max_tokens';
+  }
+  return null;
+}
+
+/**
+ * Warning for a session close to its message or context limit
+ * @returns null if neither limit is near
+ */
+export function limitWarning(session: SessionData, policy: SessionPolicy): SessionWarning | null {
+  if (policy.max_messages) {
+    const remaining = policy.max_messages - session.message_count;
+    if (remaining <= 1) {
+      return { reason: 'max_messages', remaining: Math.max(remaining, 0) };
+    }
+  }
+
+  if (policy.max_tokens) {
+    const tokens = session.context_state?.estimated_tokens ?? 0;
+    if (tokens >= policy.max_tokens * TOKEN_WARNING_RATIO) {
+      return { reason: 'max_tokens', remaining: Math.max(policy.max_tokens - tokens, 0) };
+    }
+  }
+
+  return null;
+}
+
+export class SessionPolicyResolver {
+  private defaultPolicy: SessionPolicy = DEFAULT_SESSION_POLICY;
+  private channels: Record<string, SessionPolicy> = {};
+
+  async init(path: string = SESSION_POLICY_CONFIG): Promise<void> {
+    const config = await loadJsonConfig<SessionPolicyConfig>(path);
+    if (!config) {
+      logger.info('No session policy config, using the default idle timeout', {
+        path,
+        idle_timeout_minutes: DEFAULT_SESSION_POLICY.idle_timeout_minutes,
+      });
+      return;
+    }
+
+    this.configure(config);
+    logger.info('Loaded session policy config', { channel_policies: Object.keys(this.channels).length });
+  }
+
+  /**
+   * Apply a config, validating every limit
+   * @throws If a limit is not a positive number or the overflow policy is unknown
+   */
+  configure(config: SessionPolicyConfig): void {
+    const defaultPolicy = { ...DEFAULT_SESSION_POLICY, ...(config.default || {}) };
+    validatePolicy(defaultPolicy, 'default');
+
+    const channels = config.channels || {};
+    for (const [channelId, policy] of Object.entries(channels)) {
+      validatePolicy(policy, `channel ${channelId}`);
+    }
+
+    this.defaultPolicy = defaultPolicy;
+    this.channels = channels;
+  }
+
+  /**
+   * Policy for a session's channel (direct messages use the default)
+   */
+  resolve(channelId?: string): SessionPolicy {
+    const channel = channelId ? this.channels[channelId] : undefined;
+    return channel ? { ...this.defaultPolicy, ...channel } : this.defaultPolicy;
+  }
+}
+
+export const sessionPolicies = new SessionPolicyResolver();
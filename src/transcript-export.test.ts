@@ -0,0 +1,77 @@
+/**
+ * Tests for Transcript Export
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { buildTranscript, formatMarkdown } from './transcript-export';
+import type { SessionData } from './types';
+
+const SESSION: SessionData = {
+  session_id: '7_42',
+  user_name: 'alice',
+  created_at: '2026-03-01T10:00:00.000Z',
+  last_activity: '2026-03-01T10:05:00.000Z',
+  message_count: 1,
+  project: 'infra',
+};
+
+const EXPORTED_AT = new Date('2026-03-01T11:00:00.000Z');
+
+describe('buildTranscript', () => {
+  test('includes the session details and every entry', () => {
+    const entries = [{ role: 'user' as const, content: 'hi', timestamp: '2026-03-01T10:04:00.000Z' }];
+
+    expect(buildTranscript(SESSION, entries, EXPORTED_AT)).toEqual({
+      session_id: '7_42',
+      user_name: 'alice',
+      created_at: '2026-03-01T10:00:00.000Z',
+      exported_at: '2026-03-01T11:00:00.000Z',
+      project: 'infra',
+      message_count: 1,
+      entries,
+    });
+  });
+});
+
+describe('formatMarkdown', () => {
+  test('renders one section per message with tool usage', () => {
+    const transcript = buildTranscript(
+      SESSION,
+      [
+        { role: 'user', content: 'Why is the disk full?', timestamp: '2026-03-01T10:04:00.000Z' },
+        {
+          role: 'assistant',
+          content: 'The log directory is 40GB.',
+          timestamp: '2026-03-01T10:05:00.000Z',
+          tools: ['Bash', 'Read'],
+        },
+      ],
+      EXPORTED_AT
+    );
+
+    expect(formatMarkdown(transcript)).toBe(`# Session 7_42
+
+- Started: 2026-03-01T10:00:00.000Z by alice
+- Exported: 2026-03-01T11:00:00.000Z
+- Project: infra
+- Messages: 1
+
+## User (2026-03-01T10:04:00.000Z)
+
+Why is the disk full?
+
+## Claude (2026-03-01T10:05:00.000Z)
+
+_Tools used: Bash, Read_
+
+The log directory is 40GB.
+`);
+  });
+
+  test('notes an empty history', () => {
+    const markdown = formatMarkdown(buildTranscript({ ...SESSION, project: undefined }, [], EXPORTED_AT));
+
+    expect(markdown).not.toContain('Project:');
+    expect(markdown).toContain('_No messages recorded yet._');
+  });
+});
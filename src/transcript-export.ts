@@ -0,0 +1,65 @@
+/**
+ * Transcript Export - Renders a session's stored history for users
+ *
+ * Built from the transcript store, so it covers every exchange since the
+ * session started (including ones already folded into a summary).
+ * Served by GET /session/:id/transcript as JSON or Markdown.
+ */
+
+import type { TranscriptEntry } from './transcript-store';
+import type { SessionData } from './types';
+
+export interface SessionTranscript {
+  session_id: string;
+  user_name: string;
+  created_at: string;
+  exported_at: string;
+  project?: string;
+  message_count: number;
+  entries: TranscriptEntry[];
+}
+
+export type TranscriptFormat = 'json' | 'markdown';
+
+/**
+ * Collect a session's transcript for export
+ */
+export function buildTranscript(session: SessionData, entries: TranscriptEntry[], now: Date = new Date()): SessionTranscript {
+  return {
+    session_id: session.session_id,
+    user_name: session.user_name,
+    created_at: session.created_at,
+    exported_at: now.toISOString(),
+    ...(session.project ? { project: session.project } : {}),
+    message_count: session.message_count,
+    entries,
+  };
+}
+
+/**
+ * Render a transcript as Markdown: a header, then one section per message
+ */
+export function formatMarkdown(transcript: SessionTranscript): string {
+  const lines = [
+    `# Session ${transcript.session_id}`,
+    '',
+    `- Started: ${transcript.created_at} by ${transcript.user_name}`,
+    `- Exported: ${transcript.exported_at}`,
+    ...(transcript.project ? [`- Project: ${transcript.project}`] : []),
+    `- Messages: ${transcript.message_count}`,
+  ];
+
+  if (transcript.entries.length === 0) {
+    lines.push('', '_No messages recorded yet._');
+  }
+
+  for (const entry of transcript.entries) {
+    lines.push('', `## ${entry.role === 'user' ? 'User' : 'Claude'} (${entry.timestamp})`, '');
+    if (entry.tools && entry.tools.length > 0) {
+      lines.push(`_Tools used: ${entry.tools.join(', ')}_`, '');
+    }
+    lines.push(entry.content);
+  }
+
+  return lines.join('\n') + '\n';
+}
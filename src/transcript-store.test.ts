@@ -0,0 +1,73 @@
+/**
+ * Tests for Transcript Store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TranscriptStore } from './transcript-store';
+
+describe('TranscriptStore', () => {
+  let dir: string;
+  let store: TranscriptStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'transcripts-'));
+    store = new TranscriptStore(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('returns empty transcript for unknown session', async () => {
+    expect(await store.load('missing')).toEqual([]);
+  });
+
+  test('appends and loads entries in order', async () => {
+    await store.append('s1', [
+      { role: 'user', content: 'Hello', timestamp: '2025-01-01T00:00:00.000Z' },
+      { role: 'assistant', content: 'Hi!', timestamp: '2025-01-01T00:00:01.000Z', tools: ['Read'] },
+    ]);
+    await store.append('s1', [{ role: 'user', content: 'Bye', timestamp: '2025-01-01T00:01:00.000Z' }]);
+
+    const entries = await store.load('s1');
+    expect(entries.map((e) => e.content)).toEqual(['Hello', 'Hi!', 'Bye']);
+    expect(entries[1].tools).toEqual(['Read']);
+  });
+
+  test('keeps sessions separate', async () => {
+    await store.append('s1', [{ role: 'user', content: 'one', timestamp: '2025-01-01T00:00:00.000Z' }]);
+    await store.append('s2', [{ role: 'user', content: 'two', timestamp: '2025-01-01T00:00:00.000Z' }]);
+
+    expect((await store.load('s1')).map((e) => e.content)).toEqual(['one']);
+    expect((await store.load('s2')).map((e) => e.content)).toEqual(['two']);
+  });
+
+  test('loadSince filters by timestamp', async () => {
+    await store.append('s1', [
+      { role: 'user', content: 'old', timestamp: '2025-01-01T00:00:00.000Z' },
+      { role: 'user', content: 'new', timestamp: '2025-01-02T00:00:00.000Z' },
+    ]);
+
+    const entries = await store.loadSince('s1', '2025-01-01T12:00:00.000Z');
+    expect(entries.map((e) => e.content)).toEqual(['new']);
+    expect(await store.loadSince('s1')).toHaveLength(2);
+  });
+
+  test('skips torn lines', async () => {
+    await store.append('s1', [{ role: 'user', content: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }]);
+    await appendFile(join(dir, 's1.transcript.jsonl'), '{"role":"assist');
+
+    expect(await store.load('s1')).toHaveLength(1);
+  });
+
+  test('delete removes the transcript', async () => {
+    await store.append('s1', [{ role: 'user', content: 'ok', timestamp: '2025-01-01T00:00:00.000Z' }]);
+    await store.delete('s1');
+
+    expect(await store.load('s1')).toEqual([]);
+    await store.delete('s1'); // No error when already gone
+  });
+});
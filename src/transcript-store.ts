@@ -0,0 +1,76 @@
+/**
+ * Transcript Store - Persists the conversation of each session
+ *
+ * Each session's prompts and responses are appended to
+ * `<session_id>.transcript.jsonl` next to its session file, one entry per line.
+ */
+
+import { join } from 'path';
+import { appendFile, readFile, mkdir, unlink } from 'fs/promises';
+import { SESSIONS_DIR } from './paths';
+import type { Message } from './utils/history-summarizer';
+
+export interface TranscriptEntry extends Message {
+  timestamp: string;
+  tools?: string[]; // Tools Claude used while producing an assistant message
+}
+
+export class TranscriptStore {
+  constructor(private dir: string = SESSIONS_DIR) {}
+
+  private filePath(sessionId: string): string {
+    return join(this.dir, `${sessionId}.transcript.jsonl`);
+  }
+
+  async append(sessionId: string, entries: TranscriptEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await mkdir(this.dir, { recursive: true });
+    const lines = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+    await appendFile(this.filePath(sessionId), lines);
+  }
+
+  /**
+   * Load the full transcript, oldest entry first
+   */
+  async load(sessionId: string): Promise<TranscriptEntry[]> {
+    let data: string;
+    try {
+      data = await readFile(this.filePath(sessionId), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: TranscriptEntry[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a torn final line from an interrupted write
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Load entries recorded after the given ISO timestamp
+   */
+  async loadSince(sessionId: string, since?: string): Promise<TranscriptEntry[]> {
+    const entries = await this.load(sessionId);
+    if (!since) return entries;
+
+    const cutoff = new Date(since).getTime();
+    return entries.filter((entry) => new Date(entry.timestamp).getTime() > cutoff);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await unlink(this.filePath(sessionId));
+    } catch {
+      // File might not exist
+    }
+  }
+}
+
+export const transcriptStore = new TranscriptStore();
@@ -8,6 +8,19 @@ export interface ExecuteRequest {
   prompt: string;
   user_name: string;
   callback_url?: string;
+  channel_id?: string;
+  user_id?: string;
+  thread_id?: string; // Synology thread the conversation lives in
+  shared?: boolean; // Channel-wide session: prompts are prefixed with the speaker's name
+  attachments?: Attachment[]; // Files posted with the message, staged in the session's scratch directory
+  correlation_id?: string; // Set from the X-Correlation-Id header; ties log lines for one chat message together
+  confirm_overflow?: boolean; // Run the message held back by the confirm overflow policy instead (if none is held, the prompt runs as usual)
+}
+
+export interface Attachment {
+  name: string;
+  content_type?: string;
+  data: string; // base64
 }
 
 export interface ExecuteResponse {
@@ -16,14 +29,132 @@ export interface ExecuteResponse {
   claude_session_id?: string;
   result?: string;
   error?: string;
+  job_id?: string;
+  cancelled?: boolean;
+  coalesced?: boolean; // Answered together with an earlier message from the same session
+  files?: OutputFile[]; // Files Claude wrote to the session's output directory during this job
+  session_ended?: SessionEndReason; // The previous session had ended; this job started a new one
+  session_warning?: SessionWarning; // The session is close to its message or context limit
+  session_expires_at?: string; // When the session ends unless used again (absent: no time limit)
+  correlation_id?: string; // Echoed from the request
+  quota_exceeded?: QuotaUsage; // Rejected before queuing: this quota is used up
+  context_overflow?: ContextOverflowNotice; // The message would have overflowed the context; what was done
+  context_warning?: ContextWarning; // The context just crossed the warning threshold
+}
+
+export type ContextOverflowPolicy = 'summarize' | 'reject' | 'confirm';
+
+export type ContextOverflowOutcome = 'rolled_over' | 'rejected' | 'awaiting_confirmation' | 'declined' | 'failed';
+
+export interface ContextOverflowNotice {
+  policy: ContextOverflowPolicy;
+  outcome: ContextOverflowOutcome;
+  tokens: number; // Estimated context including the message
+  limit: number; // CONTEXT_HARD_LIMIT
+}
+
+export interface ContextWarning {
+  percent: number; // Share of the hard limit in use
+  policy: ContextOverflowPolicy; // What happens when the limit is reached
+}
+
+export type SessionEndReason = 'idle' | 'max_age' | 'max_messages' | 'max_tokens';
+
+export interface SessionWarning {
+  reason: 'max_messages' | 'max_tokens';
+  remaining: number; // Messages, or estimated tokens, left before the session ends
+}
+
+export interface OutputFile {
+  name: string; // Download from GET /session/:id/files/:name
+  size: number;
+}
+
+export interface ExecuteAccepted {
+  accepted: true;
+  job_id: string;
+  session_id: string;
+  queue_position: number; // 0 = running now, n = nth in line
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  session_id: string;
+  status: JobStatus;
+  request: ExecuteRequest;
+  response?: ExecuteResponse; // Set once the job has finished
+  created_at: string;
+  started_at?: string;
+  finished_at?: string;
+}
+
+export type QuotaScope = 'user' | 'channel';
+export type QuotaPeriod = 'daily' | 'monthly'; // UTC days and months
+export type QuotaMetric = 'executions' | 'seconds' | 'cost_usd';
+
+// One quota and how much of it is used
+export interface QuotaUsage {
+  scope: QuotaScope;
+  id: string; // User or channel id
+  period: QuotaPeriod;
+  metric: QuotaMetric;
+  used: number;
+  limit: number;
+  resets_at: string;
+}
+
+// A quota lifted by an admin until a given time
+export interface QuotaOverride {
+  scope: QuotaScope;
+  id: string;
+  until: string;
+  by?: string; // Admin user id
+}
+
+// GET /quota
+export interface QuotaStatus {
+  quotas: QuotaUsage[];
+  overrides: QuotaOverride[];
+}
+
+// Totals over a set of executions (GET /usage)
+export interface UsageTotals {
+  executions: number;
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  duration_ms: number; // Wall-clock time of the runs, measured by the Executor
+  num_turns: number;
+}
+
+export interface UsageReport {
+  from?: string;
+  to?: string;
+  totals: UsageTotals;
+  by_day: (UsageTotals & { day: string })[]; // UTC days, oldest first
+  by_user: (UsageTotals & { user_id: string | null; user_name: string })[];
+  by_channel: (UsageTotals & { channel_id: string | null })[]; // null: direct messages and direct API calls
 }
 
 export interface ContextState {
   estimated_tokens: number;
+  token_source?: 'reported' | 'estimated'; // Whether estimated_tokens last came from Claude's token counts
   needs_summarization: boolean;
   conversation_summary?: string;
-  last_summarization?: string;
+  last_summarization?: string; // Timestamp of the last transcript entry in conversation_summary
   chunk_count?: number;
+  context_warning_sent?: boolean; // Warned about crossing the threshold; cleared when the context shrinks below it
+  last_overflow?: ContextOverflowRecord;
+}
+
+// The last message that would have taken the context past the hard limit
+export interface ContextOverflowRecord extends ContextOverflowNotice {
+  at: string;
+  pending_prompt?: string; // Held until the user confirms (confirm policy)
 }
 
 export interface SessionData {
@@ -34,6 +165,10 @@ export interface SessionData {
   last_activity: string;
   message_count: number;
   context_state?: ContextState;
+  project?: string; // Selected via `@claude project <name>`
+  thread_id?: string; // Set for sessions scoped to a Synology thread
+  channel_id?: string; // Selects the session policy (absent: direct message)
+  archived?: boolean; // Parked by `@claude session switch`; kept until resumed
 }
 
 export interface QueuedRequest {
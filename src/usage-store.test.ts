@@ -0,0 +1,122 @@
+/**
+ * Tests for Usage Store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UsageStore, parseUsageDate, type UsageRecord } from './usage-store';
+import { addUsage, type ClaudeUsage } from './utils/claude-usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MARCH_1 = Date.parse('2026-03-01T10:00:00Z');
+
+function usage(cost: number, input = 1000, output = 100): ClaudeUsage {
+  return {
+    cost_usd: cost,
+    input_tokens: input,
+    output_tokens: output,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    duration_ms: 3000,
+    duration_api_ms: 2500,
+    num_turns: 1,
+  };
+}
+
+function record(jobId: string, overrides: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    job_id: jobId,
+    session_id: '7_42',
+    user_id: '42',
+    user_name: 'alice',
+    channel_id: '7',
+    success: true,
+    duration_ms: 4000,
+    usage: usage(0.1),
+    ...overrides,
+  };
+}
+
+describe('UsageStore', () => {
+  let dir: string;
+  let store: UsageStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'usage-'));
+    store = new UsageStore();
+    await store.init(join(dir, 'usage.sqlite'));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('totals executions by day, user and channel', () => {
+    store.record(record('j1'), MARCH_1);
+    store.record(record('j2', { usage: usage(0.3) }), MARCH_1 + 1000);
+    store.record(record('j3', { user_id: '43', user_name: 'bob', channel_id: undefined, usage: undefined }), MARCH_1 + DAY_MS);
+
+    const report = store.report();
+    expect(report.totals).toMatchObject({ executions: 3, input_tokens: 2000, duration_ms: 12000 });
+    expect(report.totals.cost_usd).toBeCloseTo(0.4);
+    expect(report.by_day.map((d) => [d.day, d.executions])).toEqual([
+      ['2026-03-01', 2],
+      ['2026-03-02', 1],
+    ]);
+    expect(report.by_user.map((u) => [u.user_name, u.executions])).toEqual([
+      ['alice', 2],
+      ['bob', 1],
+    ]);
+    expect(report.by_channel.map((c) => c.channel_id)).toEqual(['7', null]);
+  });
+
+  test('filters by time range, user, channel and session', () => {
+    store.record(record('j1'), MARCH_1);
+    store.record(record('j2', { session_id: '7_43' }), MARCH_1 + DAY_MS);
+    store.record(record('j3', { user_id: '43', channel_id: '9' }), MARCH_1 + DAY_MS);
+
+    expect(store.report({ from: MARCH_1 + DAY_MS / 2 }).totals.executions).toBe(2);
+    expect(store.report({ to: MARCH_1 + DAY_MS / 2 }).totals.executions).toBe(1);
+    expect(store.report({ user_id: '42' }).totals.executions).toBe(2);
+    expect(store.report({ channel_id: '9' }).totals.executions).toBe(1);
+    expect(store.report({ session_id: '7_43' }).totals.executions).toBe(1);
+    expect(store.report({ user_id: 'nobody' }).totals).toMatchObject({ executions: 0, cost_usd: 0 });
+  });
+
+  test('recording a job again replaces it', () => {
+    store.record(record('j1'));
+    store.record(record('j1', { usage: usage(0.5) }));
+    expect(store.report().totals).toMatchObject({ executions: 1, cost_usd: 0.5 });
+  });
+
+  test('prunes records older than 13 months', () => {
+    store.record(record('old'), Date.now() - 400 * DAY_MS);
+    store.record(record('new'));
+
+    expect(store.cleanup()).toBe(1);
+    expect(store.report().totals.executions).toBe(1);
+  });
+});
+
+describe('parseUsageDate', () => {
+  test('reads days as UTC and extends a closing day to its end', () => {
+    expect(parseUsageDate('2026-03-01')).toBe(Date.parse('2026-03-01T00:00:00Z'));
+    expect(parseUsageDate('2026-03-01', true)).toBe(Date.parse('2026-03-02T00:00:00Z'));
+    expect(parseUsageDate('2026-03-01T12:00:00Z', true)).toBe(Date.parse('2026-03-01T12:00:00Z'));
+    expect(() => parseUsageDate('last week')).toThrow('Invalid date');
+  });
+});
+
+describe('addUsage', () => {
+  test('sums the runs that reported usage', () => {
+    expect(addUsage(undefined, undefined)).toBeUndefined();
+    expect(addUsage(usage(0.1), undefined, usage(0.2, 500, 50))).toMatchObject({
+      input_tokens: 1500,
+      output_tokens: 150,
+      num_turns: 2,
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Usage Store - Cost and token usage of every execution
+ *
+ * Each finished job is written to SQLite (`usage.sqlite` next to the
+ * sessions directory) with the user, channel and project it ran for and the
+ * usage Claude reported, so GET /usage can report totals by day, user and
+ * channel. Records are kept for 13 months.
+ * Uses Bun's built-in SQLite (no native compilation needed)
+ */
+
+import { Database } from 'bun:sqlite';
+import { join, dirname } from 'path';
+import { mkdir } from 'fs/promises';
+import { INTEGRATION_DIR } from './paths';
+import type { ClaudeUsage } from './utils/claude-usage';
+import type { UsageReport, UsageTotals } from './types';
+
+const USAGE_DB_PATH = join(INTEGRATION_DIR, 'usage.sqlite');
+const USAGE_RETENTION_MS = 396 * 24 * 60 * 60 * 1000; // 13 months
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface UsageRecord {
+  job_id: string;
+  session_id: string;
+  user_id?: string;
+  user_name: string;
+  channel_id?: string;
+  project?: string;
+  success: boolean;
+  duration_ms: number; // Wall-clock time of the run
+  usage?: ClaudeUsage; // Absent if Claude reported none (the execution still counts)
+}
+
+export interface UsageFilter {
+  from?: number; // Unix timestamp ms, inclusive
+  to?: number; // Unix timestamp ms, exclusive
+  user_id?: string;
+  channel_id?: string;
+  session_id?: string;
+}
+
+const TOTALS_SQL = `
+  COUNT(*) AS executions,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_creation_input_tokens), 0) AS cache_creation_input_tokens,
+  COALESCE(SUM(cache_read_input_tokens), 0) AS cache_read_input_tokens,
+  COALESCE(SUM(duration_ms), 0) AS duration_ms,
+  COALESCE(SUM(num_turns), 0) AS num_turns`;
+
+/**
+ * Read a /usage date: YYYY-MM-DD (a whole UTC day) or an ISO timestamp
+ * @param endOfDay - For a bare day, return the end of it (for `to`)
+ * @throws If the value is not a date
+ */
+export function parseUsageDate(value: string, endOfDay = false): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return DAY_PATTERN.test(value) && endOfDay ? time + 24 * 60 * 60 * 1000 : time;
+}
+
+export class UsageStore {
+  private db: Database | null = null;
+
+  async init(path: string = USAGE_DB_PATH): Promise<void> {
+    await mkdir(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS executions (
+        job_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        user_name TEXT NOT NULL,
+        channel_id TEXT,
+        project TEXT,
+        success INTEGER NOT NULL,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0,
+        num_turns INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_executions_created ON executions(created_at)');
+  }
+
+  private get database(): Database {
+    if (!this.db) {
+      throw new Error('Usage store not initialized');
+    }
+    return this.db;
+  }
+
+  /**
+   * Record a finished execution (recording a job again replaces it)
+   */
+  record(record: UsageRecord, at: number = Date.now()): void {
+    const usage = record.usage;
+    this.database
+      .prepare(
+        `INSERT OR REPLACE INTO executions (
+           job_id, session_id, user_id, user_name, channel_id, project, success,
+           cost_usd, input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens,
+           duration_ms, num_turns, created_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        record.job_id,
+        record.session_id,
+        record.user_id ?? null,
+        record.user_name,
+        record.channel_id ?? null,
+        record.project ?? null,
+        record.success ? 1 : 0,
+        usage?.cost_usd ?? 0,
+        usage?.input_tokens ?? 0,
+        usage?.output_tokens ?? 0,
+        usage?.cache_creation_input_tokens ?? 0,
+        usage?.cache_read_input_tokens ?? 0,
+        Math.round(record.duration_ms),
+        usage?.num_turns ?? 0,
+        at
+      );
+  }
+
+  /**
+   * Overall totals for the matching executions
+   */
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const { where, params } = this.whereClause(filter);
+    return this.database.prepare(`SELECT ${TOTALS_SQL} FROM executions ${where}`).get(...params) as UsageTotals;
+  }
+
+  /**
+   * Totals for the matching executions, overall and by day, user and channel
+   */
+  report(filter: UsageFilter = {}): UsageReport {
+    const { where, params } = this.whereClause(filter);
+    const query = <T>(select: string, groupBy: string, orderBy: string): T[] =>
+      this.database
+        .prepare(`SELECT ${select}, ${TOTALS_SQL} FROM executions ${where} GROUP BY ${groupBy} ORDER BY ${orderBy}`)
+        .all(...params) as T[];
+
+    return {
+      ...(filter.from !== undefined ? { from: new Date(filter.from).toISOString() } : {}),
+      ...(filter.to !== undefined ? { to: new Date(filter.to).toISOString() } : {}),
+      totals: this.totals(filter),
+      by_day: query("strftime('%Y-%m-%d', created_at / 1000, 'unixepoch') AS day", 'day', 'day'),
+      by_user: query(
+        'user_id, MAX(user_name) AS user_name',
+        'COALESCE(user_id, user_name)',
+        'cost_usd DESC, executions DESC'
+      ),
+      by_channel: query('channel_id', 'channel_id', 'cost_usd DESC, executions DESC'),
+    };
+  }
+
+  /**
+   * Delete records older than the retention period
+   */
+  cleanup(): number {
+    const cutoff = Date.now() - USAGE_RETENTION_MS;
+    return this.database.prepare('DELETE FROM executions WHERE created_at < ?').run(cutoff).changes;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private whereClause(filter: UsageFilter): { where: string; params: (string | number)[] } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filter.from !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(filter.to);
+    }
+    for (const column of ['user_id', 'channel_id', 'session_id'] as const) {
+      if (filter[column] !== undefined) {
+        conditions.push(`${column} = ?`);
+        params.push(filter[column]!);
+      }
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+}
+
+export const usageStore = new UsageStore();
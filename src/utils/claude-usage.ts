@@ -0,0 +1,120 @@
+/**
+ * Claude Usage - Cost, token and timing figures from Claude's result message
+ *
+ * The CLI reports them in its final result: the whole output with
+ * `--output-format json`, the `result` line with `stream-json`.
+ * Missing figures count as 0.
+ *
+ * @example
+ * parseUsage({ total_cost_usd: 0.012, num_turns: 2, usage: { input_tokens: 900, output_tokens: 120 } })
+ * // { cost_usd: 0.012, input_tokens: 900, output_tokens: 120, ..., num_turns: 2 }
+ */
+
+export interface ClaudeUsage {
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  duration_ms: number; // Claude's own run time
+  duration_api_ms: number; // Time spent waiting on the API
+  num_turns: number;
+}
+
+/**
+ * Tokens of a single turn (API call), as reported on each streamed assistant message
+ */
+export interface TurnUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+/**
+ * The fields read from a result message; any of them may be missing or malformed
+ */
+interface ResultMessage {
+  usage?: unknown;
+  total_cost_usd?: unknown;
+  cost_usd?: unknown; // Older CLI versions
+  duration_ms?: unknown;
+  duration_api_ms?: unknown;
+  num_turns?: unknown;
+}
+
+const EMPTY_TURN_USAGE: TurnUsage = {
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+};
+
+const EMPTY_USAGE: ClaudeUsage = {
+  cost_usd: 0,
+  input_tokens: 0,
+  output_tokens: 0,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+  duration_ms: 0,
+  duration_api_ms: 0,
+  num_turns: 0,
+};
+
+function numberOr0(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Read the usage figures from a parsed result message
+ * @returns undefined if the message reports no cost or token usage
+ */
+export function parseUsage(message: unknown): ClaudeUsage | undefined {
+  if (!message || typeof message !== 'object') return undefined;
+
+  const result = message as ResultMessage;
+  const tokens = parseTurnUsage(result.usage);
+  const cost = result.total_cost_usd ?? result.cost_usd;
+  if (!tokens && cost === undefined) return undefined;
+
+  return {
+    cost_usd: numberOr0(cost),
+    ...(tokens ?? EMPTY_TURN_USAGE),
+    duration_ms: numberOr0(result.duration_ms),
+    duration_api_ms: numberOr0(result.duration_api_ms),
+    num_turns: numberOr0(result.num_turns),
+  };
+}
+
+/**
+ * Read a turn's token counts from an assistant message's `usage`
+ * @returns undefined if it reports none
+ */
+export function parseTurnUsage(usage: unknown): TurnUsage | undefined {
+  if (!usage || typeof usage !== 'object') return undefined;
+
+  const tokens = usage as Record<string, unknown>;
+  return {
+    input_tokens: numberOr0(tokens.input_tokens),
+    output_tokens: numberOr0(tokens.output_tokens),
+    cache_creation_input_tokens: numberOr0(tokens.cache_creation_input_tokens),
+    cache_read_input_tokens: numberOr0(tokens.cache_read_input_tokens),
+  };
+}
+
+/**
+ * Total usage of several runs (e.g. the chunks of one prompt)
+ * @returns undefined if none of them reported usage
+ */
+export function addUsage(...usages: (ClaudeUsage | undefined)[]): ClaudeUsage | undefined {
+  const reported = usages.filter((usage): usage is ClaudeUsage => usage !== undefined);
+  if (reported.length === 0) return undefined;
+
+  const total = { ...EMPTY_USAGE };
+  for (const usage of reported) {
+    for (const key of Object.keys(total) as (keyof ClaudeUsage)[]) {
+      total[key] += numberOr0(usage[key]);
+    }
+  }
+  return total;
+}
@@ -0,0 +1,27 @@
+/**
+ * Config Loader - Reads optional JSON configuration files
+ */
+
+import { readFile } from 'fs/promises';
+
+/**
+ * Load a JSON config file
+ * @param path - Path to the file
+ * @returns Parsed contents, or null if the file does not exist
+ * @throws If the file exists but is not valid JSON
+ */
+export async function loadJsonConfig<T>(path: string): Promise<T | null> {
+  let data: string;
+  try {
+    data = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  try {
+    return JSON.parse(data) as T;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
@@ -11,9 +11,25 @@ import {
   CONTEXT_SOFT_LIMIT,
   CONTEXT_HARD_LIMIT,
   CHARS_PER_TOKEN,
+  CODE_CHARS_PER_TOKEN,
 } from './context-estimator';
+import type { ClaudeUsage } from './claude-usage';
 import type { SessionData } from '../types';
 
+function usage(overrides: Partial<ClaudeUsage> = {}): ClaudeUsage {
+  return {
+    cost_usd: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    duration_ms: 0,
+    duration_api_ms: 0,
+    num_turns: 1,
+    ...overrides,
+  };
+}
+
 describe('ContextEstimator', () => {
   describe('Constants', () => {
     test('should define correct context limits', () => {
@@ -82,6 +98,63 @@ describe('ContextEstimator', () => {
     });
   });
 
+  describe('estimateContent()', () => {
+    test('should return 0 for empty string', () => {
+      expect(ContextEstimator.estimateContent('')).toBe(0);
+    });
+
+    test('should match the 4:1 ratio for plain prose', () => {
+      const text = 'Please summarize the meeting notes from yesterday.';
+      expect(ContextEstimator.estimateContent(text)).toBe(ContextEstimator.estimate(text));
+    });
+
+    test('should count CJK characters as a token each', () => {
+      expect(ContextEstimator.estimateContent('你好世界')).toBe(4);
+      expect(ContextEstimator.estimateContent('こんにちは、世界')).toBe(7 + 1); // Kana and Han, plus the comma
+      expect(ContextEstimator.estimateContent('안녕하세요')).toBe(5);
+    });
+
+    test('should estimate code at 3 characters per token', () => {
+      const code = 'const total = items.reduce((sum, item) => sum + item.price, 0);';
+      expect(ContextEstimator.estimateContent(code)).toBe(Math.ceil(code.length / CODE_CHARS_PER_TOKEN));
+    });
+
+    test('should treat fenced blocks as code and the text around them as prose', () => {
+      const prose = 'Why does this fail?';
+      const block = '```\nprint "hello"\n```';
+      const text = `${prose}\n${block}`;
+      expect(ContextEstimator.estimateContent(text)).toBe(
+        Math.ceil((prose.length + 1) / CHARS_PER_TOKEN + block.length / CODE_CHARS_PER_TOKEN)
+      );
+    });
+  });
+
+  describe('fromUsage()', () => {
+    test('should return undefined when no token counts were reported', () => {
+      expect(ContextEstimator.fromUsage(undefined)).toBeUndefined();
+      expect(ContextEstimator.fromUsage(usage({ cost_usd: 0.01 }))).toBeUndefined();
+    });
+
+    test('should add cached input and output tokens', () => {
+      expect(
+        ContextEstimator.fromUsage(
+          usage({ input_tokens: 20, cache_creation_input_tokens: 1000, cache_read_input_tokens: 30000, output_tokens: 500 })
+        )
+      ).toBe(31520);
+    });
+
+    test("should size a multi-turn run by its last turn, not the average", () => {
+      // Turns of 400 and 1000 input tokens, 50 and 150 output
+      const run = usage({ input_tokens: 1400, output_tokens: 200, num_turns: 2 });
+      const lastTurn = { input_tokens: 100, cache_creation_input_tokens: 100, cache_read_input_tokens: 800, output_tokens: 150 };
+      expect(ContextEstimator.fromUsage(run, lastTurn)).toBe(1150);
+    });
+
+    test("should fall back to the run's totals without per-turn figures", () => {
+      expect(ContextEstimator.fromUsage(usage({ input_tokens: 1400, output_tokens: 200, num_turns: 2 }))).toBe(1600);
+    });
+  });
+
   describe('calculateTotal()', () => {
     test('should calculate total tokens for session with no context state', () => {
       const session: SessionData = {
@@ -2,14 +2,34 @@
  * Context Window Estimation Utility
  *
  * Provides token estimation and context management for Claude sessions.
- * Uses conservative 4:1 character-to-token ratio for estimation.
+ * Context size comes from the token counts Claude reports where available;
+ * the estimates are for pre-flight checks and runs that reported none.
+ * `estimate` uses a conservative 4:1 character-to-token ratio;
+ * `estimateContent` also accounts for CJK text and code.
  */
 
+import type { ClaudeUsage, TurnUsage } from './claude-usage';
 import type { SessionData } from '../types';
 
 export const CONTEXT_SOFT_LIMIT = 120000; // tokens - triggers summarization
 export const CONTEXT_HARD_LIMIT = 180000; // tokens - hard limit
 export const CHARS_PER_TOKEN = 4; // conservative estimate (4 chars ≈ 1 token)
+export const CODE_CHARS_PER_TOKEN = 3; // code splits into shorter tokens (symbols, identifiers)
+
+// Han, kana, Hangul and half-width kana: about one token per character
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff66-\uff9f]/g;
+const CODE_SYMBOL_PATTERN = /[{}()[\];=<>+\-*/&|"`\\$#%^~]/g; // Punctuation common in prose left out
+
+/**
+ * Whether a line outside a fenced block reads as code: dense in symbols,
+ * or ending like a statement or block
+ */
+function looksLikeCode(line: string): boolean {
+  const text = line.replace(/\s/g, '');
+  if (text.length < 4) return false;
+  const symbols = text.match(CODE_SYMBOL_PATTERN)?.length ?? 0;
+  return symbols / text.length >= 0.2 || /[{};]$/.test(text);
+}
 
 export class ContextEstimator {
   /**
@@ -24,6 +44,59 @@ export class ContextEstimator {
     return Math.ceil(charCount / CHARS_PER_TOKEN);
   }
 
+  /**
+   * Estimate token count by content, for pre-flight checks
+   * CJK characters count as a token each, code (fenced blocks and lines that
+   * look like code) at 3 characters per token, other text at 4.
+   * @param text - Input text to estimate
+   * @returns Estimated token count
+   */
+  static estimateContent(text: string): number {
+    if (!text) return 0;
+
+    let cjkChars = 0;
+    let codeChars = 0;
+    let textChars = 0;
+    let inFence = false;
+
+    const lines = text.split('\n');
+    for (const [index, line] of lines.entries()) {
+      const length = line.length + (index < lines.length - 1 ? 1 : 0); // Count the newline
+      const fence = line.trimStart().startsWith('```');
+      const cjk = line.match(CJK_PATTERN)?.length ?? 0;
+
+      cjkChars += cjk;
+      if (fence || inFence || looksLikeCode(line)) {
+        codeChars += length - cjk;
+      } else {
+        textChars += length - cjk;
+      }
+      if (fence) inFence = !inFence;
+    }
+
+    return cjkChars + Math.ceil(codeChars / CODE_CHARS_PER_TOKEN + textChars / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Context size after a run, from the tokens Claude reported for it
+   *
+   * Every turn re-sends the conversation, so the context is the last turn's
+   * input (including cache reads and writes) plus its output. Streamed runs
+   * report each turn; otherwise only the run's totals are known, which for a
+   * run of several turns overstate the context, so the limits are reached
+   * early rather than late.
+   * @param usage - Usage Claude reported for the run (the last chunk's, for chunked prompts)
+   * @param lastTurn - Tokens of the run's last turn, if reported
+   * @returns Tokens in context, or undefined if no token counts were reported
+   */
+  static fromUsage(usage?: ClaudeUsage, lastTurn?: TurnUsage): number | undefined {
+    const turn = lastTurn ?? usage;
+    if (!turn) return undefined;
+
+    const tokens = turn.input_tokens + turn.cache_creation_input_tokens + turn.cache_read_input_tokens + turn.output_tokens;
+    return tokens > 0 ? tokens : undefined;
+  }
+
   /**
    * Calculate total context usage for a session including new prompt
    * @param session - Session data with context state
@@ -114,18 +114,52 @@ describe('HistorySummarizer', () => {
       expect(result.originalTokens).toBeGreaterThan(result.reducedTokens);
     });
 
-    test('handles 25 messages: discards oldest 5, summarizes messages 6-20, keeps last 5', async () => {
+    test('summarizes all older history past 20 messages, in batches', async () => {
       const messages = createMessages(25);
-      const result = await HistorySummarizer.summarize(messages, mockClaudeRunner);
+      const prompts: string[] = [];
+      const runner = async (request: Message[]) => {
+        prompts.push(request[0].content);
+        return mockClaudeRunner(request);
+      };
+      const result = await HistorySummarizer.summarize(messages, runner);
+
+      expect(result.recentMessages).toEqual(messages.slice(-5));
+      expect(prompts).toHaveLength(2); // Messages 1-15, then 16-20 with the summary so far
+      expect(prompts[0]).toContain('Message 1:');
+      expect(prompts[0]).not.toContain('Message 16:');
+      expect(prompts[1]).toContain('Summary of the earlier conversation: Summary of 15 messages');
+      expect(prompts[1]).toContain('Message 20:');
+      expect(result.summarizedUntil).toBe(messages[19].timestamp);
+      expect(result.originalTokens).toBeGreaterThan(result.reducedTokens);
+    });
+  });
 
-      expect(result.summary).toBeTruthy();
-      expect(result.recentMessages).toHaveLength(5);
-      expect(result.recentMessages[0].content).toBe(messages[20].content); // 21st message
-      expect(result.recentMessages[4].content).toBe(messages[24].content); // Last message
+  describe('Previous Summary', () => {
+    test('folds the previous summary into the new one', async () => {
+      const messages = createMessages(22);
+      const prompts: string[] = [];
+      const runner = async (request: Message[]) => {
+        prompts.push(request[0].content);
+        return mockClaudeRunner(request);
+      };
+      const result = await HistorySummarizer.summarize(messages, runner, 'Earlier: the user picked Postgres.');
+
+      expect(prompts[0]).toContain('Summary of the earlier conversation: Earlier: the user picked Postgres.');
+      expect(prompts[0]).toContain('Message 1:');
+      expect(prompts[1]).toContain('Message 17:');
+      expect(result.recentMessages).toEqual(messages.slice(-5));
+      expect(result.summarizedUntil).toBe(messages[16].timestamp);
+    });
 
-      // Should only summarize 15 messages (messages 6-20 from end)
-      // Original: 25 messages, Effective: 20 messages (summary covers 15, recent 5)
-      expect(result.originalTokens).toBeGreaterThan(result.reducedTokens);
+    test('keeps the previous summary when there is nothing older to summarize', async () => {
+      const messages = createMessages(4);
+      const result = await HistorySummarizer.summarize(messages, async () => {
+        throw new Error('should not be called');
+      }, 'Earlier summary');
+
+      expect(result.summary).toBe('Earlier summary');
+      expect(result.recentMessages).toEqual(messages);
+      expect(result.summarizedUntil).toBeUndefined();
     });
   });
 
@@ -292,4 +326,14 @@ describe('HistorySummarizer', () => {
       expect(result.reducedTokens).toBeLessThan(result.originalTokens);
     });
   });
+
+  describe('Failed Summary Run', () => {
+    test('rejects instead of returning a placeholder summary', async () => {
+      const failingRunner = async (): Promise<string> => {
+        throw new Error('Claude unavailable');
+      };
+
+      await expect(HistorySummarizer.summarize(createMessages(8), failingRunner)).rejects.toThrow('Claude unavailable');
+    });
+  });
 });
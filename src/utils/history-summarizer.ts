@@ -18,6 +18,7 @@ export interface SummarizationResult {
   recentMessages: Message[];
   originalTokens: number;
   reducedTokens: number;
+  summarizedUntil?: string; // Timestamp of the last message folded into the summary (absent: none were)
 }
 
 /**
@@ -30,104 +31,86 @@ const defaultClaudeRunner = async (messages: Message[]): Promise<string> => {
   return `Conversation summary: ${messageCount} messages exchanged covering approximately ${totalChars} characters of discussion.`;
 };
 
+function sameTime(a: Message, b: Message): boolean {
+  return a.timestamp !== undefined && b.timestamp !== undefined &&
+    new Date(a.timestamp).getTime() === new Date(b.timestamp).getTime();
+}
+
 export class HistorySummarizer {
   private static readonly RECENT_MESSAGE_COUNT = 5;
-  private static readonly MAX_SUMMARIZABLE_MESSAGES = 20;
-  private static readonly MIN_MESSAGES_FOR_SUMMARIZATION = 6;
+  private static readonly MESSAGES_PER_SUMMARY = 15; // Older messages go to Claude in batches of this size
 
   /**
    * Summarize conversation history while preserving recent context
    *
    * Strategy:
-   * - ≤5 messages: No summarization needed, return as-is
-   * - 6-20 messages: Summarize messages 6-20 (oldest to 6th most recent), keep last 5
-   * - >20 messages: Only summarize messages 6-20, discard older
+   * - The last 5 messages are kept verbatim (more if the one before them has
+   *   the same timestamp)
+   * - Everything older is summarized in batches of 15, oldest first; each
+   *   batch is summarized together with the summary so far, so nothing is
+   *   dropped however long the history is
+   * - A previous summary (from an earlier rollover) starts the summary so far;
+   *   with no older messages it is returned as it is
    *
    * @param messages - Array of conversation messages
    * @param claudeRunner - Optional function to call Claude for summarization
+   * @param previousSummary - Summary of the conversation before `messages`
    * @returns Summarization result with summary, recent messages, and token metrics
+   * @throws If a summary run fails (there is no summary to fall back on)
    */
   static async summarize(
     messages: Message[],
-    claudeRunner?: (messages: Message[]) => Promise<string>
+    claudeRunner?: (messages: Message[]) => Promise<string>,
+    previousSummary?: string
   ): Promise<SummarizationResult> {
-    // Handle edge cases
-    if (!messages || messages.length === 0) {
-      return {
-        summary: '',
-        recentMessages: [],
-        originalTokens: 0,
-        reducedTokens: 0,
-      };
-    }
-
-    // If ≤5 messages, no summarization needed
-    if (messages.length <= this.RECENT_MESSAGE_COUNT) {
-      const totalTokens = this.calculateTotalTokens(messages);
+    // Messages sharing a timestamp stay on the same side, so everything after
+    // `summarizedUntil` is exactly the recent messages
+    let split = Math.max((messages || []).length - this.RECENT_MESSAGE_COUNT, 0);
+    while (split > 0 && sameTime(messages[split - 1], messages[split])) split--;
+    const recentMessages = (messages || []).slice(split);
+    const olderMessages = (messages || []).slice(0, split);
+    const previousTokens = previousSummary ? ContextEstimator.estimate(previousSummary) : 0;
+    const originalTokens = previousTokens + this.calculateTotalTokens(messages || []);
+
+    // Nothing older than the recent messages: no (new) summary needed
+    if (olderMessages.length === 0) {
       return {
-        summary: '',
-        recentMessages: messages,
-        originalTokens: totalTokens,
-        reducedTokens: totalTokens,
+        summary: previousSummary ?? '',
+        recentMessages,
+        originalTokens,
+        reducedTokens: originalTokens,
       };
     }
 
-    // Determine which messages to summarize
-    const recentMessages = messages.slice(-this.RECENT_MESSAGE_COUNT);
-
-    // For messages 6-20: take from oldest up to 6th most recent
-    const messagesToSummarize = this.getMessagesToSummarize(messages);
-
-    // Calculate original tokens
-    const originalTokens = this.calculateTotalTokens(messages);
-
-    // Generate summary using Claude or default runner
+    // Generate summary using Claude or default runner, batch by batch
     const runner = claudeRunner || defaultClaudeRunner;
-    const summary = await this.generateSummary(messagesToSummarize, runner);
+    let summary = previousSummary;
+    for (let start = 0; start < olderMessages.length; start += this.MESSAGES_PER_SUMMARY) {
+      const batch = olderMessages.slice(start, start + this.MESSAGES_PER_SUMMARY);
+      summary = await this.generateSummary(batch, runner, summary);
+    }
 
     // Calculate reduced tokens (summary + recent messages)
-    const summaryTokens = ContextEstimator.estimate(summary);
+    const summaryTokens = ContextEstimator.estimate(summary!);
     const recentTokens = this.calculateTotalTokens(recentMessages);
-    const reducedTokens = summaryTokens + recentTokens;
 
     return {
-      summary,
+      summary: summary!,
       recentMessages,
       originalTokens,
-      reducedTokens,
+      reducedTokens: summaryTokens + recentTokens,
+      summarizedUntil: olderMessages[olderMessages.length - 1].timestamp,
     };
   }
 
-  /**
-   * Get messages that should be summarized (messages 6-20 from most recent)
-   */
-  private static getMessagesToSummarize(messages: Message[]): Message[] {
-    const totalMessages = messages.length;
-
-    // If we have more than 20 messages, only summarize messages 6-20
-    // (discard older messages beyond 20)
-    if (totalMessages > this.MAX_SUMMARIZABLE_MESSAGES) {
-      // Take messages from index (total - 20) to (total - 5)
-      const startIndex = totalMessages - this.MAX_SUMMARIZABLE_MESSAGES;
-      const endIndex = totalMessages - this.RECENT_MESSAGE_COUNT;
-      return messages.slice(startIndex, endIndex);
-    }
-
-    // If we have 6-20 messages, summarize everything except last 5
-    return messages.slice(0, -this.RECENT_MESSAGE_COUNT);
-  }
-
   /**
    * Generate summary by calling Claude with appropriate prompt
    */
   private static async generateSummary(
     messages: Message[],
-    claudeRunner: (messages: Message[]) => Promise<string>
+    claudeRunner: (messages: Message[]) => Promise<string>,
+    summarySoFar?: string
   ): Promise<string> {
-    if (messages.length === 0) {
-      return '';
-    }
-
     // Format messages for summarization
     const formattedMessages = messages
       .map(msg => {
@@ -135,25 +118,20 @@ export class HistorySummarizer {
         return `${role}: ${msg.content}`;
       })
       .join('\n\n');
+    const earlier = summarySoFar ? `Summary of the earlier conversation: ${summarySoFar}\n\n` : '';
 
     // Call Claude with summarization prompt
     const prompt = `Summarize this conversation history concisely, preserving key context, decisions, and any code/technical details mentioned. Keep it under 500 words.
 
-${formattedMessages}`;
+${earlier}${formattedMessages}`;
 
-    try {
-      // Create a temporary message for Claude runner
-      const summaryRequest: Message[] = [{
-        role: 'user',
-        content: prompt,
-      }];
+    // Create a temporary message for Claude runner
+    const summaryRequest: Message[] = [{
+      role: 'user',
+      content: prompt,
+    }];
 
-      return await claudeRunner(summaryRequest);
-    } catch (error) {
-      // If summarization fails, return basic fallback summary
-      console.error('Failed to generate summary:', error);
-      return `Previous conversation: ${messages.length} messages exchanged.`;
-    }
+    return claudeRunner(summaryRequest);
   }
 
   /**
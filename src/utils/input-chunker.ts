@@ -12,6 +12,8 @@
  * - Keep code blocks intact even if they exceed max size
  */
 
+import { logger } from '../logger';
+
 export interface ChunkOptions {
   maxChunkSize?: number; // default: 15000
   preserveCodeBlocks?: boolean; // default: true
@@ -73,7 +75,11 @@ export class InputChunker {
 
         // If code block exceeds max size, log warning but keep it intact
         if (codeBlockText.length > maxChunkSize) {
-          console.warn(`Code block at position ${currentPosition} exceeds max chunk size (${codeBlockText.length} > ${maxChunkSize}). Keeping intact.`);
+          logger.warn('Code block exceeds max chunk size, keeping it intact', {
+            position: currentPosition,
+            chars: codeBlockText.length,
+            max_chunk_size: maxChunkSize,
+          });
         }
 
         chunks.push(codeBlockText);
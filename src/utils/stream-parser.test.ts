@@ -0,0 +1,147 @@
+/**
+ * Tests for Stream JSON Parser
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { StreamJsonParser, type ClaudeStreamEvent } from './stream-parser';
+
+function line(obj: unknown): string {
+  return JSON.stringify(obj) + '\n';
+}
+
+function assistant(...content: unknown[]): string {
+  return line({ type: 'assistant', message: { content }, session_id: 'sess-1' });
+}
+
+function createParser(): { parser: StreamJsonParser; events: ClaudeStreamEvent[] } {
+  const events: ClaudeStreamEvent[] = [];
+  const parser = new StreamJsonParser((event) => events.push(event));
+  return { parser, events };
+}
+
+describe('StreamJsonParser', () => {
+  test('extracts session id from init message', () => {
+    const { parser } = createParser();
+    parser.push(line({ type: 'system', subtype: 'init', session_id: 'abc-123' }));
+
+    expect(parser.sessionId).toBe('abc-123');
+  });
+
+  test('emits text and tool events in order', () => {
+    const { parser, events } = createParser();
+    parser.push(assistant({ type: 'text', text: 'Let me look.' }, { type: 'tool_use', name: 'Read', input: { file_path: 'a.ts' } }));
+    parser.push(assistant({ type: 'text', text: 'Done.' }));
+
+    expect(events).toEqual([
+      { type: 'text', text: 'Let me look.' },
+      { type: 'tool', name: 'Read', input: { file_path: 'a.ts' } },
+      { type: 'text', text: 'Done.' },
+    ]);
+  });
+
+  test('handles lines split across data chunks', () => {
+    const { parser, events } = createParser();
+    const data = assistant({ type: 'text', text: 'Hello world' });
+    parser.push(data.slice(0, 10));
+    expect(events).toHaveLength(0);
+
+    parser.push(data.slice(10));
+    expect(events).toEqual([{ type: 'text', text: 'Hello world' }]);
+  });
+
+  test('uses result event as final output', () => {
+    const { parser } = createParser();
+    parser.push(assistant({ type: 'text', text: 'Working...' }));
+    parser.push(line({ type: 'result', subtype: 'success', result: 'Final answer', session_id: 'sess-2', is_error: false }));
+
+    expect(parser.result).toBe('Final answer');
+    expect(parser.sessionId).toBe('sess-2');
+    expect(parser.failed).toBe(false);
+  });
+
+  test('reads cost and token usage from the result event', () => {
+    const { parser } = createParser();
+    parser.push(
+      line({
+        type: 'result',
+        result: 'Done',
+        is_error: false,
+        total_cost_usd: 0.042,
+        duration_ms: 5200,
+        duration_api_ms: 4100,
+        num_turns: 3,
+        usage: { input_tokens: 1500, output_tokens: 220, cache_read_input_tokens: 12000 },
+      })
+    );
+
+    expect(parser.usage).toEqual({
+      cost_usd: 0.042,
+      input_tokens: 1500,
+      output_tokens: 220,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 12000,
+      duration_ms: 5200,
+      duration_api_ms: 4100,
+      num_turns: 3,
+    });
+  });
+
+  test("keeps the last turn's token usage", () => {
+    const { parser } = createParser();
+    const turn = (content: unknown, usage: unknown) => line({ type: 'assistant', message: { content: [content], usage } });
+    parser.push(turn({ type: 'tool_use', name: 'Read', input: {} }, { input_tokens: 400, output_tokens: 50 }));
+    parser.push(turn({ type: 'text', text: 'Done.' }, { input_tokens: 10, cache_read_input_tokens: 990, output_tokens: 150 }));
+    parser.push(assistant({ type: 'text', text: 'No usage here' }));
+
+    expect(parser.lastTurnUsage).toEqual({
+      input_tokens: 10,
+      output_tokens: 150,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 990,
+    });
+  });
+
+  test('falls back to streamed text when result event is missing', () => {
+    const { parser } = createParser();
+    parser.push(assistant({ type: 'text', text: 'Part one' }));
+    parser.push(assistant({ type: 'text', text: 'Part two' }));
+
+    expect(parser.result).toBe('Part one\n\nPart two');
+  });
+
+  test('parses trailing line on end()', () => {
+    const { parser } = createParser();
+    parser.push(JSON.stringify({ type: 'result', result: 'No newline', is_error: false }));
+    expect(parser.result).toBe('');
+
+    parser.end();
+    expect(parser.result).toBe('No newline');
+  });
+
+  test('reports error results', () => {
+    const { parser } = createParser();
+    parser.push(line({ type: 'result', subtype: 'error_max_turns', result: 'Max turns reached', is_error: true }));
+
+    expect(parser.failed).toBe(true);
+  });
+
+  test('ignores non-JSON lines and empty text blocks', () => {
+    const { parser, events } = createParser();
+    parser.push('warning: something\n');
+    parser.push(assistant({ type: 'text', text: '   ' }));
+
+    expect(events).toHaveLength(0);
+  });
+
+  test('skips malformed lines and content blocks', () => {
+    const { parser, events } = createParser();
+    parser.push(line(null));
+    parser.push(line([1, 2]));
+    parser.push(line({ type: 'assistant', message: 'oops', session_id: 42 }));
+    parser.push(line({ type: 'assistant', message: { content: 'not a list' } }));
+    parser.push(assistant(null, { type: 'text', text: 7 }, { type: 'tool_use' }, { type: 'text', text: 'Kept' }));
+
+    expect(events).toEqual([{ type: 'text', text: 'Kept' }]);
+    expect(parser.sessionId).toBe('sess-1');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Stream JSON Parser - Incremental parser for `claude --output-format stream-json`
+ *
+ * The CLI writes one JSON object per line:
+ * - `system` (init): carries the session_id
+ * - `assistant`: a completed assistant message with text and tool_use blocks,
+ *   and the token usage of the turn that produced it
+ * - `result`: the final result text, emitted once at the end, with the run's
+ *   cost and token usage
+ *
+ * Text and tool steps are reported through the callback as they arrive;
+ * the final result is available once the process exits.
+ */
+
+import { parseUsage, parseTurnUsage, type ClaudeUsage, type TurnUsage } from './claude-usage';
+
+export type ClaudeStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; name: string; input?: unknown };
+
+interface ContentBlock {
+  type: string;
+  text?: string;
+  name?: string;
+  input?: unknown;
+}
+
+/**
+ * The fields read from a stream line; lines come from the CLI unchecked,
+ * so each is checked before use
+ */
+interface StreamLine {
+  type?: unknown;
+  session_id?: unknown;
+  message?: unknown; // The assistant message, with content blocks and usage
+  result?: unknown;
+  is_error?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The well-formed content blocks of an assistant message
+ */
+function contentBlocks(content: unknown): ContentBlock[] {
+  if (!Array.isArray(content)) return [];
+  return content.filter((block): block is ContentBlock => isObject(block) && typeof block.type === 'string');
+}
+
+export class StreamJsonParser {
+  private buffer = '';
+  private texts: string[] = [];
+  private finalResult?: string;
+  private isError = false;
+
+  sessionId?: string;
+  usage?: ClaudeUsage; // From the result event
+  lastTurnUsage?: TurnUsage; // From the last assistant message
+
+  constructor(private onEvent: (event: ClaudeStreamEvent) => void) {}
+
+  /**
+   * Feed raw stdout data; complete lines are parsed immediately
+   */
+  push(data: string): void {
+    this.buffer += data;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) this.parseLine(line);
+    }
+  }
+
+  /**
+   * Flush any trailing line without a newline terminator
+   */
+  end(): void {
+    const line = this.buffer.trim();
+    this.buffer = '';
+    if (line) this.parseLine(line);
+  }
+
+  /**
+   * Final response text: the result event if present,
+   * otherwise all streamed text blocks joined together
+   */
+  get result(): string {
+    return this.finalResult ?? this.texts.join('\n\n');
+  }
+
+  /**
+   * True if the result event reported an error
+   */
+  get failed(): boolean {
+    return this.isError;
+  }
+
+  private parseLine(line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      // Ignore non-JSON noise (e.g. warnings printed by hooks)
+      return;
+    }
+    if (!isObject(parsed)) return;
+
+    const message: StreamLine = parsed;
+    if (typeof message.session_id === 'string' && message.session_id) {
+      this.sessionId = message.session_id;
+    }
+
+    switch (message.type) {
+      case 'assistant': {
+        const assistant = isObject(message.message) ? message.message : {};
+        for (const block of contentBlocks(assistant.content)) {
+          if (block.type === 'text' && typeof block.text === 'string' && block.text.trim()) {
+            this.texts.push(block.text);
+            this.onEvent({ type: 'text', text: block.text });
+          } else if (block.type === 'tool_use' && typeof block.name === 'string' && block.name) {
+            this.onEvent({ type: 'tool', name: block.name, input: block.input });
+          }
+        }
+        this.lastTurnUsage = parseTurnUsage(assistant.usage) ?? this.lastTurnUsage;
+        break;
+      }
+
+      case 'result':
+        this.finalResult = typeof message.result === 'string' ? message.result : undefined;
+        this.isError = message.is_error === true;
+        this.usage = parseUsage(message);
+        break;
+    }
+  }
+}